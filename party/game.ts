@@ -3,40 +3,41 @@ import type * as Party from "partykit/server";
 // Import game engine (these will be bundled by partykit)
 import {
   initializeGame,
-  applyPlay,
-  applyDraw,
-  applyForcedDraw,
-  applyVoluntaryDraw,
-  nextTurn,
   confirmHandoff,
-  declareLastCard,
-  isPlayLegal,
-  getLegalPlays,
   getTopCard,
   getTargetSuit,
-  applyResolve,
-  applyDeflect,
-  applyCancel,
-  applySevenCancelEffect,
-  applySevenCancelLastCard,
-  applySevenDisputePlay,
-  applySevenDisputeAccept,
-  applyJackAccept,
-  applyJackCancel,
-  applyAceAccept,
-  applyAceCancel,
   isInResponsePhase,
   isInSevenDispute,
   isInJackResponse,
   isInAceResponse,
 } from "../src/engine/rules";
-
+import {
+  applyAction,
+  getActingPlayerIndex,
+  getLegalActions,
+} from "../src/engine/actions";
+import { AI_DIFFICULTIES, getAIStrategy } from "../src/engine/ai";
+import { createRuleSet, MAX_PLAYERS, MIN_PLAYERS } from "../src/engine/ruleset";
+import { createMatch, dealRound, scoreRound } from "../src/engine/match";
+import { createReplay, recordReplayStep } from "../src/engine/replay";
+import {
+  commitToSecret,
+  createServerSecret,
+  deriveGameSeed,
+  deriveRoundSeed,
+  isValidEntropy,
+} from "../src/engine/fairness";
+
+import type { Replay } from "../src/engine/replay";
 import type {
+  GameEvent,
   GameState,
+  IllegalReason,
+  MatchState,
   Card,
   Suit,
-  Play,
   PlayerType,
+  RuleSet,
 } from "../src/engine/types";
 
 import type {
@@ -44,11 +45,16 @@ import type {
   ServerMessage,
   GameAction,
   ClientGameState,
+  ClientMatchState,
   ClientPlayerState,
+  ConfigureGameMessage,
   PublicPlayer,
   LobbyConfig,
+  Placement,
   RoomStatus,
+  TimerConfig,
 } from "../src/lib/party/messages";
+import { DEFAULT_TIMER_CONFIG } from "../src/lib/party/messages";
 
 // =============================================================================
 // Matchmaker Configuration
@@ -76,6 +82,8 @@ interface RoomPlayer {
   disconnectedAt?: number;
   // Whether this player was originally human but taken over by AI
   aiTakeover?: boolean;
+  // Random hex sent on joining, mixed into the game seed
+  entropy?: string;
 }
 
 /**
@@ -84,13 +92,52 @@ interface RoomPlayer {
 const RECONNECTION_GRACE_PERIOD_MS = 30 * 1000;
 
 /**
- * Turn timer configuration
+ * Turn timer configuration (the time limits themselves are set per room)
  */
-const TURN_TIMER_MS = 30 * 1000; // 30 seconds for normal turns
-const RESPONSE_TIMER_MS = 15 * 1000; // 15 seconds for response phases
 const TIMER_WARNING_MS = 10 * 1000; // Warning at 10 seconds remaining
 const TIMER_UPDATE_INTERVAL_MS = 1000; // Send updates every second
 
+/**
+ * Allowed time limits, in milliseconds
+ */
+const TIMER_LIMITS = {
+  turnMs: { label: "Turn time", min: 5 * 1000, max: 10 * 60 * 1000 },
+  responseMs: { label: "Response time", min: 5 * 1000, max: 5 * 60 * 1000 },
+  bankMs: { label: "Time bank", min: 30 * 1000, max: 60 * 60 * 1000 },
+  incrementMs: { label: "Increment", min: 0, max: 60 * 1000 },
+};
+
+/**
+ * Check a timer configuration from the host
+ * @returns Why the configuration is invalid, or null if it is valid
+ */
+function validateTimerConfig(timer: TimerConfig): string | null {
+  if (typeof timer !== "object" || timer === null) return "Invalid timer settings";
+
+  const checkLimit = (field: keyof typeof TIMER_LIMITS, value: unknown) => {
+    const { label, min, max } = TIMER_LIMITS[field];
+    return Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+      ? null
+      : `${label} must be between ${min / 1000}s and ${max / 1000}s`;
+  };
+
+  switch (timer.mode) {
+    case "unlimited":
+      return null;
+    case "per_move":
+      return checkLimit("turnMs", timer.turnMs) ?? checkLimit("responseMs", timer.responseMs);
+    case "time_bank":
+      return checkLimit("bankMs", timer.bankMs) ?? checkLimit("incrementMs", timer.incrementMs);
+    default:
+      return "Unknown timer mode";
+  }
+}
+
+/**
+ * Pause between match rounds so players can see the round result
+ */
+const NEXT_ROUND_DELAY_MS = 5 * 1000;
+
 /**
  * Active timer state
  */
@@ -116,11 +163,25 @@ interface RoomState {
   createdAt: number;
   // Game state (only set when status === "playing")
   gameState: GameState | null;
+  // Match standings (only set when playing a multi-round match)
+  match: MatchState | null;
+  // Every action of the current game (or round)
+  replay: Replay | null;
+  // Replays of the rounds already played, sent only once the game is over: a
+  // round's seed would let clients work out the deals still to come
+  roundReplays: Replay[];
+  // Commit-reveal: the secret seeds the game with the players' entropy and is
+  // only revealed when the game ends; its hash is published from the start
+  serverSecret: string;
+  commitment: string;
+  clientEntropy: string[];
   // Map player IDs to game indices
   playerIdToIndex: Map<string, number>;
   indexToPlayerId: Map<number, string>;
   // Turn timer state
   timer: TimerState | null;
+  // Time left in each player's bank (time bank mode), by player ID
+  timeBanks: Map<string, number>;
 }
 
 // =============================================================================
@@ -137,6 +198,7 @@ export default class GameRoom implements Party.Server {
   state: RoomState;
 
   constructor(readonly room: Party.Room) {
+    const serverSecret = createServerSecret();
     this.state = {
       code: room.id,
       players: [],
@@ -146,10 +208,21 @@ export default class GameRoom implements Party.Server {
         maxPlayers: 4,
         aiSlots: 0,
         isPublic: true,
+        rules: {},
+        matchTargetScore: null,
+        aiDifficulty: "normal",
+        timer: DEFAULT_TIMER_CONFIG,
       },
       timer: null,
+      timeBanks: new Map(),
       createdAt: Date.now(),
       gameState: null,
+      match: null,
+      replay: null,
+      roundReplays: [],
+      serverSecret,
+      commitment: commitToSecret(serverSecret),
+      clientEntropy: [],
       playerIdToIndex: new Map(),
       indexToPlayerId: new Map(),
     };
@@ -283,9 +356,9 @@ export default class GameRoom implements Party.Server {
 
   private handleJoin(
     conn: Party.Connection,
-    payload: { playerId: string; name: string }
+    payload: { playerId: string; name: string; entropy?: string }
   ) {
-    const { playerId, name } = payload;
+    const { playerId, name, entropy } = payload;
 
     // Check for reconnection
     const existingPlayer = this.state.players.find((p) => p.id === playerId);
@@ -341,6 +414,7 @@ export default class GameRoom implements Party.Server {
       isAI: false,
       isConnected: true,
       joinedAt: Date.now(),
+      entropy: isValidEntropy(entropy) ? entropy : undefined,
     };
 
     this.state.players.push(newPlayer);
@@ -382,7 +456,7 @@ export default class GameRoom implements Party.Server {
 
   private handleConfigureGame(
     conn: Party.Connection,
-    payload: Partial<LobbyConfig>
+    payload: ConfigureGameMessage["payload"]
   ) {
     const player = this.getPlayerByConnection(conn);
     if (!player || player.id !== this.state.hostId) {
@@ -395,6 +469,53 @@ export default class GameRoom implements Party.Server {
       return;
     }
 
+    // Store the normalised rules, never the client's object
+    let rules: RuleSet | undefined;
+    if (payload.rules !== undefined) {
+      try {
+        rules = createRuleSet(payload.rules);
+      } catch (error) {
+        this.sendError(conn, error instanceof Error ? error.message : "Invalid rules");
+        return;
+      }
+    }
+
+    if (
+      payload.maxPlayers !== undefined &&
+      (!Number.isInteger(payload.maxPlayers) ||
+        payload.maxPlayers < MIN_PLAYERS ||
+        payload.maxPlayers > MAX_PLAYERS ||
+        payload.maxPlayers < this.state.players.length)
+    ) {
+      this.sendError(conn, `Max players must be between ${MIN_PLAYERS} and ${MAX_PLAYERS}`);
+      return;
+    }
+
+    if (
+      payload.matchTargetScore !== undefined &&
+      payload.matchTargetScore !== null &&
+      (!Number.isInteger(payload.matchTargetScore) || payload.matchTargetScore < 1)
+    ) {
+      this.sendError(conn, "Match target score must be a positive integer");
+      return;
+    }
+
+    if (
+      payload.aiDifficulty !== undefined &&
+      !AI_DIFFICULTIES.includes(payload.aiDifficulty)
+    ) {
+      this.sendError(conn, "Unknown AI difficulty");
+      return;
+    }
+
+    if (payload.timer !== undefined) {
+      const timerError = validateTimerConfig(payload.timer);
+      if (timerError) {
+        this.sendError(conn, timerError);
+        return;
+      }
+    }
+
     const wasPublic = this.state.config.isPublic;
 
     // Update config
@@ -407,6 +528,18 @@ export default class GameRoom implements Party.Server {
     if (payload.isPublic !== undefined) {
       this.state.config.isPublic = payload.isPublic;
     }
+    if (rules) {
+      this.state.config.rules = rules;
+    }
+    if (payload.matchTargetScore !== undefined) {
+      this.state.config.matchTargetScore = payload.matchTargetScore;
+    }
+    if (payload.aiDifficulty !== undefined) {
+      this.state.config.aiDifficulty = payload.aiDifficulty;
+    }
+    if (payload.timer !== undefined) {
+      this.state.config.timer = payload.timer;
+    }
 
     // Broadcast updated room state
     this.broadcastRoomState();
@@ -577,8 +710,34 @@ export default class GameRoom implements Party.Server {
       p.gameIndex = i;
     });
 
-    // Initialize game state
-    this.state.gameState = initializeGame(totalPlayers, undefined, playerTypes);
+    // Seed the game from the committed secret and the players' entropy
+    this.state.clientEntropy = this.state.players.flatMap((p) => (p.entropy ? [p.entropy] : []));
+    const seed = deriveGameSeed(this.state.serverSecret, this.state.clientEntropy);
+
+    // Initialize game state (the first round of a match, if one is configured)
+    const { matchTargetScore, rules } = this.state.config;
+    try {
+      if (matchTargetScore !== null) {
+        this.state.match = createMatch(totalPlayers, {
+          playerTypes,
+          rules,
+          targetScore: matchTargetScore,
+          seed,
+        });
+        this.state.gameState = dealRound(this.state.match, this.getRoundSeed(1));
+        console.log(`[${this.state.code}] Match started`);
+      } else {
+        this.state.match = null;
+        this.state.gameState = initializeGame(totalPlayers, seed, playerTypes, rules);
+        console.log(`[${this.state.code}] Game started`);
+      }
+    } catch (error) {
+      // The rules can't be dealt for this table (e.g. hands too big for the deck):
+      // stay in the lobby as if the game had never started
+      this.rollBackGameStart();
+      this.sendError(conn, error instanceof Error ? error.message : "Could not start the game");
+      return;
+    }
     this.state.status = "playing";
 
     // Unregister from matchmaker since game is starting
@@ -586,6 +745,10 @@ export default class GameRoom implements Party.Server {
 
     // Auto-confirm handoff for first player (skip waiting phase)
     this.state.gameState = confirmHandoff(this.state.gameState);
+    this.state.replay = createReplay(this.state.gameState, this.getSeatNames());
+    this.state.roundReplays = [];
+
+    this.resetTimeBanks();
 
     // Broadcast game started with initial state
     this.broadcastGameStarted();
@@ -595,6 +758,16 @@ export default class GameRoom implements Party.Server {
     this.startTurnTimer();
   }
 
+  private rollBackGameStart() {
+    this.state.match = null;
+    this.state.gameState = null;
+    this.state.playerIdToIndex.clear();
+    this.state.indexToPlayerId.clear();
+    for (const p of this.state.players) {
+      p.gameIndex = undefined;
+    }
+  }
+
   // ===========================================================================
   // Game Action Handling
   // ===========================================================================
@@ -623,14 +796,16 @@ export default class GameRoom implements Party.Server {
 
     const result = this.executeAction(playerIndex, action);
     if (!result.success) {
-      this.sendError(conn, result.error || "Invalid action");
+      this.sendError(conn, result.error || "Invalid action", result.reason);
       // Restart timer if action failed
       this.startTurnTimer();
       return;
     }
 
+    this.addTimeIncrement(player.id);
+
     // Broadcast updated state
-    this.broadcastStateUpdate(action, player.id);
+    this.broadcastStateUpdate(action, player.id, result.events);
 
     // Check for game end
     if (this.state.gameState?.winner !== null) {
@@ -646,159 +821,29 @@ export default class GameRoom implements Party.Server {
   private canPlayerAct(playerIndex: number): boolean {
     const gs = this.state.gameState;
     if (!gs) return false;
-
-    // Current player can act
-    if (gs.currentPlayerIndex === playerIndex) return true;
-
-    // Responder in response phase
-    if (isInResponsePhase(gs) && gs.respondingPlayerIndex === playerIndex) {
-      return true;
-    }
-
-    // Responder in seven dispute
-    if (isInSevenDispute(gs) && gs.sevenDispute?.responderPlayerId === playerIndex) {
-      return true;
-    }
-
-    // Responder in Jack response
-    if (isInJackResponse(gs) && gs.jackResponse?.responderPlayerId === playerIndex) {
-      return true;
-    }
-
-    // Responder in Ace response
-    if (isInAceResponse(gs) && gs.aceResponse?.responderPlayerId === playerIndex) {
-      return true;
-    }
-
-    return false;
+    return getActingPlayerIndex(gs) === playerIndex;
   }
 
   private executeAction(
     playerIndex: number,
     action: GameAction
-  ): { success: boolean; error?: string } {
-    let gs = this.state.gameState;
+  ): { success: boolean; error?: string; reason?: IllegalReason; events?: GameEvent[] } {
+    const gs = this.state.gameState;
     if (!gs) return { success: false, error: "No game state" };
 
     try {
-      switch (action.action) {
-        case "play_cards": {
-          const play: Play = {
-            cards: action.cards,
-            chosenSuit: action.chosenSuit,
-            activateEffect: action.activateEffect,
-          };
-          if (!isPlayLegal(gs, playerIndex, play)) {
-            return { success: false, error: "Illegal play" };
-          }
-          gs = applyPlay(gs, play);
-
-          // Auto-advance turn if no response phase
-          if (
-            !isInResponsePhase(gs) &&
-            !isInJackResponse(gs) &&
-            !isInAceResponse(gs) &&
-            gs.winner === null
-          ) {
-            gs = nextTurn(gs);
-            gs = confirmHandoff(gs);
-          }
-          break;
-        }
-
-        case "draw": {
-          if (gs.pendingEffects.forcedDrawCount > 0 || gs.players[playerIndex].lastCardPenalty) {
-            gs = applyForcedDraw(gs);
-          } else {
-            gs = applyVoluntaryDraw(gs);
-          }
-          // Auto-advance turn after drawing
-          gs = nextTurn(gs);
-          gs = confirmHandoff(gs);
-          break;
-        }
-
-        case "end_turn": {
-          gs = nextTurn(gs);
-          gs = confirmHandoff(gs);
-          break;
-        }
-
-        case "declare_last_card": {
-          gs = declareLastCard(gs);
-          break;
-        }
-
-        case "resolve_response": {
-          gs = applyResolve(gs);
-          gs = confirmHandoff(gs);
-          break;
-        }
-
-        case "deflect_response": {
-          gs = applyDeflect(gs, action.card);
-          break;
-        }
-
-        case "cancel_response": {
-          gs = applyCancel(gs, action.card);
-          break;
-        }
-
-        case "seven_cancel_effect": {
-          gs = applySevenCancelEffect(gs, action.card);
-          break;
-        }
-
-        case "seven_cancel_last_card": {
-          gs = applySevenCancelLastCard(gs, action.card);
-          break;
-        }
-
-        case "seven_dispute_play": {
-          gs = applySevenDisputePlay(gs, action.card);
-          break;
-        }
-
-        case "seven_dispute_accept": {
-          gs = applySevenDisputeAccept(gs);
-          if (!isInSevenDispute(gs)) {
-            gs = nextTurn(gs);
-            gs = confirmHandoff(gs);
-          }
-          break;
-        }
-
-        case "jack_accept": {
-          gs = applyJackAccept(gs);
-          gs = confirmHandoff(gs);
-          break;
-        }
-
-        case "jack_cancel": {
-          gs = applyJackCancel(gs, action.card);
-          gs = confirmHandoff(gs);
-          break;
-        }
-
-        case "ace_accept": {
-          gs = applyAceAccept(gs);
-          gs = confirmHandoff(gs);
-          break;
-        }
-
-        case "ace_cancel": {
-          gs = applyAceCancel(gs, action.card);
-          break;
-        }
-
-        default:
-          return { success: false, error: "Unknown action" };
+      const result = applyAction(gs, playerIndex, action, { autoConfirmHandoff: true });
+      if (!result.ok) {
+        return { success: false, error: result.error, reason: result.reason };
       }
 
-      this.state.gameState = gs;
-      return { success: true };
+      this.state.gameState = result.state;
+      if (this.state.replay) {
+        this.state.replay = recordReplayStep(this.state.replay, playerIndex, action);
+      }
+      return { success: true, events: result.events };
     } catch (error) {
+      // AI and timer callbacks run outside onMessage's guard
       console.error(`[${this.state.code}] Action error:`, error);
       return { success: false, error: "Action failed" };
     }
@@ -813,19 +858,7 @@ export default class GameRoom implements Party.Server {
     if (!gs || gs.winner !== null) return;
 
     // Determine who needs to act
-    let actingIndex: number | null = null;
-
-    if (isInResponsePhase(gs) && gs.respondingPlayerIndex !== null) {
-      actingIndex = gs.respondingPlayerIndex;
-    } else if (isInSevenDispute(gs) && gs.sevenDispute) {
-      actingIndex = gs.sevenDispute.responderPlayerId;
-    } else if (isInJackResponse(gs) && gs.jackResponse) {
-      actingIndex = gs.jackResponse.responderPlayerId;
-    } else if (isInAceResponse(gs) && gs.aceResponse) {
-      actingIndex = gs.aceResponse.responderPlayerId;
-    } else {
-      actingIndex = gs.currentPlayerIndex;
-    }
+    const actingIndex = getActingPlayerIndex(gs);
 
     const actingPlayerId = this.state.indexToPlayerId.get(actingIndex);
     const actingPlayer = this.state.players.find((p) => p.id === actingPlayerId);
@@ -844,26 +877,12 @@ export default class GameRoom implements Party.Server {
     const playerId = this.state.indexToPlayerId.get(playerIndex);
     if (!playerId) return;
 
-    let action: GameAction | null = null;
-
-    // Handle different game phases
-    if (isInResponsePhase(gs) && gs.respondingPlayerIndex === playerIndex) {
-      action = this.getAIResponseAction(playerIndex);
-    } else if (isInSevenDispute(gs) && gs.sevenDispute?.responderPlayerId === playerIndex) {
-      action = { action: "seven_dispute_accept" };
-    } else if (isInJackResponse(gs) && gs.jackResponse?.responderPlayerId === playerIndex) {
-      action = { action: "jack_accept" };
-    } else if (isInAceResponse(gs) && gs.aceResponse?.responderPlayerId === playerIndex) {
-      action = { action: "ace_accept" };
-    } else if (gs.currentPlayerIndex === playerIndex) {
-      action = this.getAINormalAction(playerIndex);
-    }
-
+    const action = this.getAIAction(gs, playerIndex);
     if (!action) return;
 
     const result = this.executeAction(playerIndex, action);
     if (result.success) {
-      this.broadcastStateUpdate(action, playerId);
+      this.broadcastStateUpdate(action, playerId, result.events);
 
       if (this.state.gameState?.winner !== null) {
         this.handleGameEnd();
@@ -874,41 +893,12 @@ export default class GameRoom implements Party.Server {
     }
   }
 
-  private getAINormalAction(playerIndex: number): GameAction {
-    const gs = this.state.gameState!;
-    const player = gs.players[playerIndex];
-
-    // Must draw if forced
-    if (gs.pendingEffects.forcedDrawCount > 0 || player.lastCardPenalty) {
-      return { action: "draw" };
-    }
-
-    // Get legal plays
-    const legalPlays = getLegalPlays(gs, playerIndex);
-
-    if (legalPlays.length > 0) {
-      // Prefer single card plays
-      const singlePlays = legalPlays.filter((lp) => lp.play.cards.length === 1);
-      const play = singlePlays.length > 0 ? singlePlays[0].play : legalPlays[0].play;
-
-      return {
-        action: "play_cards",
-        cards: play.cards,
-        chosenSuit: play.chosenSuit,
-        activateEffect: play.activateEffect,
-      };
-    }
-
-    // No legal plays, must draw
-    return { action: "draw" };
-  }
-
-  private getAIResponseAction(playerIndex: number): GameAction {
-    const gs = this.state.gameState!;
-
-    // Simple AI: always resolve (doesn't deflect)
-    // Could be enhanced to deflect if AI has matching cards
-    return { action: "resolve_response" };
+  private getAIAction(gs: GameState, playerIndex: number): GameAction | null {
+    // Same strategies as local play (handoffs are confirmed automatically here)
+    const strategy = getAIStrategy(this.state.config.aiDifficulty);
+    const action = strategy.chooseAction(gs, playerIndex);
+    if (!action || action.action === "confirm_handoff") return null;
+    return action;
   }
 
   // ===========================================================================
@@ -923,8 +913,9 @@ export default class GameRoom implements Party.Server {
     // Clear any existing timer
     this.stopTimer();
 
+    const timerConfig = this.state.config.timer;
     const gs = this.state.gameState;
-    if (!gs || gs.winner !== null) return;
+    if (!gs || gs.winner !== null || timerConfig.mode === "unlimited") return;
 
     // Determine who needs to act and what phase they're in
     let actingIndex: number;
@@ -955,7 +946,13 @@ export default class GameRoom implements Party.Server {
     // Don't start timer for AI players or disconnected players (AI handles them)
     if (player?.isAI || player?.aiTakeover || !player?.isConnected) return;
 
-    const durationMs = phase === "response" ? RESPONSE_TIMER_MS : TURN_TIMER_MS;
+    // A time bank covers all of a player's moves; otherwise each move gets a fresh clock
+    let durationMs: number;
+    if (timerConfig.mode === "time_bank") {
+      durationMs = this.state.timeBanks.get(playerId) ?? timerConfig.bankMs;
+    } else {
+      durationMs = phase === "response" ? timerConfig.responseMs : timerConfig.turnMs;
+    }
     const startedAt = Date.now();
 
     // Set up the timer state
@@ -986,7 +983,8 @@ export default class GameRoom implements Party.Server {
   }
 
   /**
-   * Stop the current timer.
+   * Stop the current timer. In time bank mode, the time taken comes out of the
+   * player's bank.
    */
   private stopTimer() {
     if (!this.state.timer) return;
@@ -998,15 +996,47 @@ export default class GameRoom implements Party.Server {
       clearInterval(this.state.timer.intervalId);
     }
 
+    if (this.state.config.timer.mode === "time_bank") {
+      const { playerId, startedAt, durationMs } = this.state.timer;
+      this.state.timeBanks.set(playerId, Math.max(0, durationMs - (Date.now() - startedAt)));
+    }
+
     this.state.timer = null;
   }
 
+  /**
+   * Fill every player's time bank for a new game or round (time bank mode).
+   */
+  private resetTimeBanks() {
+    this.state.timeBanks.clear();
+    const timerConfig = this.state.config.timer;
+    if (timerConfig.mode !== "time_bank") return;
+
+    for (const player of this.state.players) {
+      this.state.timeBanks.set(player.id, timerConfig.bankMs);
+    }
+  }
+
+  /**
+   * Add the increment to a player's time bank after they move (time bank mode).
+   * Moves made when time ran out count too, so an empty bank still leaves the
+   * increment for each move.
+   */
+  private addTimeIncrement(playerId: string) {
+    const timerConfig = this.state.config.timer;
+    if (timerConfig.mode !== "time_bank") return;
+
+    const bankMs = this.state.timeBanks.get(playerId) ?? timerConfig.bankMs;
+    this.state.timeBanks.set(playerId, bankMs + timerConfig.incrementMs);
+  }
+
   /**
    * Broadcast timer update to all clients.
    */
   private broadcastTimerUpdate() {
     if (!this.state.timer) return;
 
+    const { mode } = this.state.config.timer;
     const elapsed = Date.now() - this.state.timer.startedAt;
     const remainingMs = Math.max(0, this.state.timer.durationMs - elapsed);
 
@@ -1016,6 +1046,13 @@ export default class GameRoom implements Party.Server {
         playerId: this.state.timer.playerId,
         remainingMs,
         phase: this.state.timer.phase,
+        mode: mode === "time_bank" ? "time_bank" : "per_move",
+        durationMs: this.state.timer.durationMs,
+        // Short per-move clocks would otherwise start out in the warning state
+        warningMs:
+          mode === "time_bank"
+            ? TIMER_WARNING_MS
+            : Math.min(TIMER_WARNING_MS, Math.floor(this.state.timer.durationMs / 3)),
       },
     });
   }
@@ -1059,7 +1096,8 @@ export default class GameRoom implements Party.Server {
     // Execute the action
     const result = this.executeAction(timer.playerIndex, action);
     if (result.success) {
-      this.broadcastStateUpdate(action, timer.playerId);
+      this.addTimeIncrement(timer.playerId);
+      this.broadcastStateUpdate(action, timer.playerId, result.events);
 
       if (this.state.gameState?.winner !== null) {
         this.handleGameEnd();
@@ -1081,23 +1119,69 @@ export default class GameRoom implements Party.Server {
     this.stopTimer();
 
     const gs = this.state.gameState;
-    if (!gs || gs.winner === null) return;
+    const replay = this.state.replay;
+    if (!gs || gs.winner === null || !replay) return;
+    this.state.roundReplays.push(replay);
+
+    // Score the round; the match carries on until someone reaches the target
+    if (this.state.match) {
+      this.state.match = scoreRound(this.state.match, gs);
+
+      if (this.state.match.matchWinner === null) {
+        this.broadcast({
+          type: "round_ended",
+          payload: {
+            finishingOrder: this.toPlacements(gs),
+            finalState: this.toClientGameState(gs, null),
+            nextRoundInMs: NEXT_ROUND_DELAY_MS,
+          },
+        });
 
-    const winnerId = this.state.indexToPlayerId.get(gs.winner);
-    const winner = this.state.players.find((p) => p.id === winnerId);
+        setTimeout(() => this.startNextRound(), NEXT_ROUND_DELAY_MS);
+        return;
+      }
+    }
 
     this.state.status = "ended";
 
     this.broadcast({
       type: "game_ended",
       payload: {
-        winnerId: winnerId || "",
-        winnerName: winner?.name || "Unknown",
+        finishingOrder: this.toPlacements(gs),
         finalState: this.toClientGameState(gs, null),
+        replay,
+        replays: this.state.roundReplays,
+        fairness: {
+          commitment: this.state.commitment,
+          clientEntropy: this.state.clientEntropy,
+          serverSecret: this.state.serverSecret,
+        },
       },
     });
   }
 
+  /**
+   * Seed for a match round, hashed from the secret so that a finished round's
+   * replay can't be worked back to the deals still to come
+   */
+  private getRoundSeed(roundNumber: number): number {
+    return deriveRoundSeed(this.state.serverSecret, this.state.clientEntropy, roundNumber);
+  }
+
+  private startNextRound() {
+    const match = this.state.match;
+    if (this.state.status !== "playing" || !match || match.matchWinner !== null) return;
+
+    this.state.gameState = confirmHandoff(dealRound(match, this.getRoundSeed(match.roundNumber)));
+    this.state.replay = createReplay(this.state.gameState, this.getSeatNames());
+    console.log(`[${this.state.code}] Round ${match.roundNumber} started`);
+
+    this.resetTimeBanks();
+    this.broadcastGameStarted();
+    this.checkAndExecuteAITurn();
+    this.startTurnTimer();
+  }
+
   // ===========================================================================
   // State Broadcasting
   // ===========================================================================
@@ -1111,6 +1195,7 @@ export default class GameRoom implements Party.Server {
         players: this.state.players.map((p) => this.toPublicPlayer(p)),
         hostId: this.state.hostId,
         config: this.state.config,
+        commitment: this.state.commitment,
       },
     });
   }
@@ -1124,6 +1209,7 @@ export default class GameRoom implements Party.Server {
         players: this.state.players.map((p) => this.toPublicPlayer(p)),
         hostId: this.state.hostId,
         config: this.state.config,
+        commitment: this.state.commitment,
       },
     });
   }
@@ -1153,12 +1239,20 @@ export default class GameRoom implements Party.Server {
         type: "game_started",
         payload: {
           gameState: this.toClientGameState(this.state.gameState!, player.id),
+          fairness: {
+            commitment: this.state.commitment,
+            clientEntropy: this.state.clientEntropy,
+          },
         },
       });
     }
   }
 
-  private broadcastStateUpdate(action: GameAction, actingPlayerId: string) {
+  private broadcastStateUpdate(
+    action: GameAction,
+    actingPlayerId: string,
+    events: GameEvent[] = []
+  ) {
     for (const player of this.state.players) {
       if (player.isAI || !player.connectionId) continue;
 
@@ -1173,6 +1267,7 @@ export default class GameRoom implements Party.Server {
             playerId: actingPlayerId,
             action,
           },
+          events,
         },
       });
     }
@@ -1256,6 +1351,16 @@ export default class GameRoom implements Party.Server {
   // Helpers
   // ===========================================================================
 
+  /**
+   * Display names by game seat (for replays)
+   */
+  private getSeatNames(): string[] {
+    return Array.from({ length: this.state.indexToPlayerId.size }, (_, i) => {
+      const playerId = this.state.indexToPlayerId.get(i);
+      return this.state.players.find((p) => p.id === playerId)?.name ?? `Player ${i + 1}`;
+    });
+  }
+
   private getPlayerByConnection(conn: Party.Connection): RoomPlayer | undefined {
     return this.state.players.find((p) => p.connectionId === conn.id);
   }
@@ -1310,6 +1415,7 @@ export default class GameRoom implements Party.Server {
       : null;
 
     return {
+      rules: gs.rules,
       players,
       currentPlayerId,
       turnPhase: gs.turnPhase,
@@ -1352,7 +1458,45 @@ export default class GameRoom implements Party.Server {
       winnerId: gs.winner !== null
         ? this.state.indexToPlayerId.get(gs.winner) || null
         : null,
+      finishingOrder: gs.finishingOrder.map(
+        (index) => this.state.indexToPlayerId.get(index) || `player_${index}`
+      ),
       turnNumber: gs.turnNumber,
+      match: this.state.match ? this.toClientMatchState(this.state.match) : null,
+      legalActions:
+        viewingIndex === undefined
+          ? []
+          : getLegalActions(gs, viewingIndex, { multiCardPlays: false }).filter(
+              (a): a is GameAction => a.action !== "confirm_handoff"
+            ),
+    };
+  }
+
+  private toPlacements(gs: GameState): Placement[] {
+    return gs.finishingOrder.map((index) => {
+      const roomPlayer = this.state.players.find((rp) => rp.gameIndex === index);
+      return {
+        playerId: roomPlayer?.id || `player_${index}`,
+        name: roomPlayer?.name || `Player ${index + 1}`,
+      };
+    });
+  }
+
+  private toClientMatchState(match: MatchState): ClientMatchState {
+    const idFor = (index: number) => this.state.indexToPlayerId.get(index) || `player_${index}`;
+    const byPlayerId = (values: number[]) =>
+      Object.fromEntries(values.map((value, i) => [idFor(i), value]));
+
+    return {
+      targetScore: match.targetScore,
+      roundNumber: match.roundNumber,
+      scores: byPlayerId(match.scores),
+      rounds: match.rounds.map((round) => ({
+        roundNumber: round.roundNumber,
+        winnerId: idFor(round.winner),
+        penalties: byPlayerId(round.penalties),
+      })),
+      matchWinnerId: match.matchWinner !== null ? idFor(match.matchWinner) : null,
     };
   }
 
@@ -1373,10 +1517,10 @@ export default class GameRoom implements Party.Server {
     }
   }
 
-  private sendError(conn: Party.Connection, message: string) {
+  private sendError(conn: Party.Connection, message: string, reason?: IllegalReason) {
     this.send(conn, {
       type: "error",
-      payload: { message },
+      payload: reason ? { code: reason.code, message, reason } : { message },
     });
   }
 }
@@ -0,0 +1,42 @@
+/**
+ * Rule-Variant Comparison
+ * Plays the standard rules against popular house rules (or the variants given
+ * as a JSON list of { name, rules, players? }) and prints the comparison as
+ * CSV, or writes it to a .json or .csv file.
+ *
+ *   npm run compare -- --games 500 --players hard,normal --out variants.csv
+ */
+
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  HOUSE_RULE_VARIANTS,
+  compareVariants,
+  formatComparisonCsv,
+  formatComparisonJson,
+} from "../src/engine";
+import { parseGames, parsePlayers } from "./options";
+
+const { values } = parseArgs({
+  options: {
+    games: { type: "string", default: "1000" }, // Per variant
+    players: { type: "string", default: "normal,normal" }, // A difficulty per seat
+    variants: { type: "string" },
+    out: { type: "string" },
+  },
+});
+
+const report = compareVariants({
+  variants: values.variants ? JSON.parse(values.variants) : HOUSE_RULE_VARIANTS,
+  games: parseGames(values.games),
+  players: parsePlayers(values.players),
+});
+
+if (values.out) {
+  writeFileSync(
+    values.out,
+    values.out.endsWith(".csv") ? formatComparisonCsv(report) : formatComparisonJson(report)
+  );
+} else {
+  process.stdout.write(formatComparisonCsv(report));
+}
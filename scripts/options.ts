@@ -0,0 +1,31 @@
+/**
+ * Command Line Options
+ * Parsing shared by the simulation scripts
+ */
+
+import { AI_DIFFICULTIES, AIDifficulty } from "../src/engine";
+
+/**
+ * Parse the number of games to play
+ * @throws Error if it is not a positive integer
+ */
+export function parseGames(value: string): number {
+  const games = Number(value);
+  if (!Number.isInteger(games) || games < 1) {
+    throw new Error(`--games must be a positive integer, got "${value}"`);
+  }
+  return games;
+}
+
+/**
+ * Parse a comma-separated AI difficulty per seat ("hard,normal,normal")
+ * @throws Error if a difficulty is unknown
+ */
+export function parsePlayers(value: string): AIDifficulty[] {
+  return value.split(",").map((difficulty) => {
+    if (!AI_DIFFICULTIES.includes(difficulty as AIDifficulty)) {
+      throw new Error(`Unknown difficulty "${difficulty}" (use ${AI_DIFFICULTIES.join(", ")})`);
+    }
+    return difficulty as AIDifficulty;
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * Self-play Statistics
+ * Plays a batch of seeded AI games and prints the summary as CSV, or writes it
+ * to a .json or .csv file.
+ *
+ *   npm run simulate -- --games 500 --players hard,normal,normal --out report.json
+ */
+
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { formatSimulationCsv, formatSimulationJson, runSimulation } from "../src/engine";
+import { parseGames, parsePlayers } from "./options";
+
+const { values } = parseArgs({
+  options: {
+    games: { type: "string", default: "1000" },
+    players: { type: "string", default: "normal,normal" }, // A difficulty per seat
+    rules: { type: "string" }, // House rules as JSON
+    out: { type: "string" },
+  },
+});
+
+const report = runSimulation({
+  games: parseGames(values.games),
+  players: parsePlayers(values.players),
+  rules: values.rules ? JSON.parse(values.rules) : undefined,
+});
+
+if (values.out) {
+  writeFileSync(
+    values.out,
+    values.out.endsWith(".csv") ? formatSimulationCsv(report) : formatSimulationJson(report)
+  );
+} else {
+  process.stdout.write(formatSimulationCsv(report));
+}
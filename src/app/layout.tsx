@@ -3,7 +3,7 @@ import "./globals.css";
 
 export const metadata: Metadata = {
   title: "Last Card",
-  description: "A classic card game for 2-4 players",
+  description: "A classic card game for 2-8 players",
 };
 
 export default function RootLayout({
@@ -11,7 +11,7 @@ export default function Home() {
     <div className="flex min-h-screen flex-col items-center justify-center gap-8 bg-gradient-to-br from-gray-900 to-gray-800 p-4">
       <h1 className="text-5xl font-bold text-white">Last Card</h1>
       <p className="max-w-md text-center text-white/60">
-        A classic card game for 2-4 players. Be the first to play all your cards!
+        A classic card game for 2-8 players. Be the first to play all your cards!
       </p>
 
       <div className="flex w-full max-w-md flex-col gap-4">
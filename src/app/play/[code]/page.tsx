@@ -6,6 +6,9 @@ import { usePlayerIdentity } from "@/lib/player/identity";
 import { useGameRoom } from "@/lib/party/hooks";
 import { Lobby } from "@/components/Lobby";
 import { ConnectionOverlay } from "@/components/ConnectionOverlay";
+import { TurnTimer } from "@/components/TurnTimer";
+import { formatPlace } from "@/engine";
+import { downloadReplay, openReplay } from "@/lib/replay";
 
 /**
  * Game room page.
@@ -132,12 +135,32 @@ function GameRoom({ roomCode, playerId, displayName }: GameRoomProps) {
 
   // Show game state when playing
   if (room.status === "playing" && room.gameState) {
+    const actingPlayerId = room.gameState.respondingPlayerId ?? room.gameState.currentPlayerId;
+
     // TODO: Integrate with multiplayer game board
     // For now, show a placeholder
     return (
       <>
         <div className="flex min-h-screen flex-col items-center justify-center gap-6 bg-gradient-to-br from-gray-900 to-gray-800">
           <div className="text-2xl font-bold text-white">Game In Progress</div>
+          {room.config.timer.mode === "unlimited" ? (
+            <TurnTimer
+              mode="unlimited"
+              phase={room.gameState.respondingPlayerId ? "response" : "turn"}
+              isMyTimer={actingPlayerId === room.myPlayerId}
+            />
+          ) : (
+            room.timer && (
+              <TurnTimer
+                mode={room.timer.mode}
+                remainingMs={room.timer.remainingMs}
+                durationMs={room.timer.durationMs}
+                phase={room.timer.phase}
+                isMyTimer={room.timer.playerId === room.myPlayerId}
+                warningThresholdMs={room.timer.warningMs}
+              />
+            )
+          )}
           <div className="text-white/60">
             Multiplayer game view coming soon...
           </div>
@@ -166,12 +189,67 @@ function GameRoom({ roomCode, playerId, displayName }: GameRoomProps) {
     return (
       <div className="flex min-h-screen flex-col items-center justify-center gap-6 bg-gradient-to-br from-gray-900 to-gray-800">
         <div className="text-3xl font-bold text-white">Game Over</div>
+        {room.gameState && !room.gameState.match && (
+          <ol className="flex flex-col gap-1 text-lg text-white">
+            {room.gameState.finishingOrder.map((playerId, index) => (
+              <li key={playerId}>
+                <span className="font-bold text-yellow-300">{formatPlace(index + 1)}</span>{" "}
+                {room.gameState?.players.find((p) => p.id === playerId)?.name ?? "Unknown"}
+              </li>
+            ))}
+          </ol>
+        )}
+        {room.gameState?.match && (
+          <div className="rounded-lg bg-gray-800 px-6 py-4 text-white">
+            <div className="mb-2 text-sm text-white/60">
+              Final standings after {room.gameState.match.rounds.length} rounds
+            </div>
+            {room.gameState.players.map((p) => (
+              <div
+                key={p.id}
+                className={`flex justify-between gap-8 ${
+                  p.id === room.gameState?.match?.matchWinnerId ? "font-bold text-yellow-300" : ""
+                }`}
+              >
+                <span>{p.name}</span>
+                <span>{room.gameState?.match?.scores[p.id] ?? 0}</span>
+              </div>
+            ))}
+          </div>
+        )}
         <button
           onClick={() => router.push("/lobby")}
           className="rounded-lg bg-green-600 px-8 py-4 font-bold text-white transition-all hover:bg-green-500"
         >
           Play Again
         </button>
+        {room.replay && (
+          <div className="flex gap-4">
+            <button
+              onClick={() => room.replay && openReplay(room.replay)}
+              className="rounded-lg bg-gray-700 px-6 py-2 text-white/80 transition-colors hover:bg-gray-600 hover:text-white"
+            >
+              Watch Replay
+            </button>
+            <button
+              onClick={() => room.replay && downloadReplay(room.replay)}
+              className="rounded-lg bg-gray-700 px-6 py-2 text-white/80 transition-colors hover:bg-gray-600 hover:text-white"
+            >
+              Download Replay
+            </button>
+          </div>
+        )}
+        {/* Commit-reveal check of every shuffle in the game */}
+        {room.fairness && (
+          <div
+            className={`text-sm ${room.fairness.ok ? "text-green-300" : "text-red-300"}`}
+            title={room.fairness.ok ? `Seed ${room.fairness.seed}` : undefined}
+          >
+            {room.fairness.ok
+              ? `✓ ${room.fairness.shuffles} shuffles verified against the server's commitment`
+              : `Shuffles couldn't be verified: ${room.fairness.error}`}
+          </div>
+        )}
       </div>
     );
   }
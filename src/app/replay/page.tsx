@@ -0,0 +1,98 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { ReplayViewer } from "@/components";
+import {
+  NOTATION_EXTENSION,
+  Replay,
+  decodeReplayFragment,
+  parseNotation,
+  parseReplay,
+} from "@/engine";
+import { downloadNotation } from "@/lib/replay";
+
+/**
+ * Replay page. Opens the replay in the URL fragment (from Watch Replay) or a
+ * replay or game notation file chosen by the user.
+ */
+export default function ReplayPage() {
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback((read: () => Replay) => {
+    try {
+      setReplay(read());
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, []);
+
+  // The fragment never reaches the server, so it is read once mounted
+  useEffect(() => {
+    const loadFragment = () => {
+      const hash = window.location.hash;
+      if (hash.length > 1) load(() => decodeReplayFragment(hash));
+    };
+    loadFragment();
+    window.addEventListener("hashchange", loadFragment);
+    return () => window.removeEventListener("hashchange", loadFragment);
+  }, [load]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      return;
+    }
+    load(() => (file.name.endsWith(NOTATION_EXTENSION) ? parseNotation(text) : parseReplay(text)));
+  };
+
+  return (
+    <div className="bg-felt flex min-h-screen flex-col">
+      <div className="flex items-center justify-between gap-4 bg-black/30 px-4 py-3">
+        <Link href="/" className="text-white/80 hover:text-white">
+          ← Home
+        </Link>
+        <h1 className="text-xl font-bold text-white">Replay</h1>
+        <div className="flex gap-2">
+          {replay && (
+            <button
+              onClick={() => downloadNotation(replay)}
+              className="rounded-lg bg-gray-700 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-gray-600"
+            >
+              Download Notation
+            </button>
+          )}
+          <label className="cursor-pointer rounded-lg bg-gray-700 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-gray-600">
+            Open Replay File
+            <input
+              type="file"
+              accept={`.json,application/json,${NOTATION_EXTENSION}`}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-auto mt-4 rounded-lg bg-red-600/80 px-4 py-3 text-white">{error}</div>
+      )}
+
+      {replay ? (
+        <ReplayViewer key={`${replay.seed}-${replay.startedAt}`} replay={replay} />
+      ) : (
+        !error && (
+          <div className="flex flex-1 items-center justify-center text-white/60">
+            Open a replay file, or use Watch Replay at the end of a game.
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -32,6 +32,7 @@ export function Card({
   className = "",
 }: CardProps) {
   const isRed = isRedSuit(card.suit);
+  const isJoker = card.rank === "Joker";
   const suitSymbols: Record<string, string> = {
     hearts: "\u2665",
     diamonds: "\u2666",
@@ -77,9 +78,9 @@ export function Card({
       className={`${baseClasses} bg-white ${isRed ? "text-red-600" : "text-gray-900"} ${className}`}
       onClick={selectable ? onClick : undefined}
     >
-      <span className="text-xs leading-none">{card.rank}</span>
-      <span className="text-2xl leading-none">{suitSymbols[card.suit]}</span>
-      <span className="text-xs leading-none">{card.rank}</span>
+      <span className="text-xs leading-none">{isJoker ? "JKR" : card.rank}</span>
+      <span className="text-2xl leading-none">{isJoker ? "\u2605" : suitSymbols[card.suit]}</span>
+      <span className="text-xs leading-none">{isJoker ? "JKR" : card.rank}</span>
     </div>
   );
 }
@@ -1,8 +1,19 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { Card as CardType, PlayerType, Suit, cardEquals } from "@/engine";
+import {
+  AI_DIFFICULTIES,
+  Card as CardType,
+  PlayerType,
+  Suit,
+  cardEquals,
+  describeIllegalReason,
+  getActingPlayerIndex,
+  isJackActive,
+  scoreRound,
+} from "@/engine";
 import { useGameStore } from "@/store/gameStore";
+import { downloadReplay, openReplay } from "@/lib/replay";
 import { Hand } from "./Hand";
 import { OpponentArea } from "./OpponentArea";
 import { PlayArea } from "./PlayArea";
@@ -13,16 +24,44 @@ import { GameControls, LastCardButton } from "./GameControls";
 import { StatusBar } from "./StatusBar";
 import { WinScreen } from "./WinScreen";
 import { HowToPlay } from "./HowToPlay";
+import { TakebackScreen } from "./TakebackScreen";
+import { UNDO_POLICIES, UndoPolicy, getDefaultUndoPolicy } from "@/store/history";
+
+const UNDO_POLICY_LABELS: Record<UndoPolicy, string> = {
+  off: "Off",
+  single: "One Move (Agreed)",
+  unlimited: "Unlimited",
+};
 
 export function GameBoard() {
   const {
     gameState,
+    match,
     selectedCards,
     playOrder,
     pendingSuitChoice,
     activateEffect,
+    aiDifficulty,
+    setAiDifficulty,
+    savedGame,
+    savedGameError,
+    checkSavedGame,
+    resumeSavedGame,
+    discardSavedGame,
+    history,
+    takebackRequested,
+    setUndoPolicy,
+    undo,
+    redo,
+    respondToTakeback,
+    getUndoPolicy,
+    canUndo,
+    canRedo,
+    getReplay,
     startGame,
     startGameWithTypes,
+    startMatch,
+    nextRound,
     executeAiTurn,
     selectCard,
     deselectCard,
@@ -34,7 +73,9 @@ export function GameBoard() {
     confirmHandoff,
     declareLastCard,
     getCurrentPlayer,
+    canTakeAction,
     isSelectionLegal,
+    explainSelection,
     getTopCard,
     getTargetSuit,
     getTargetRank,
@@ -85,6 +126,11 @@ export function GameBoard() {
   // Game setup state
   const [setupPlayerCount, setSetupPlayerCount] = useState(2);
   const [setupPlayerTypes, setSetupPlayerTypes] = useState<PlayerType[]>(["human", "human"]);
+  const [setupTargetScore, setSetupTargetScore] = useState<number | null>(null); // null = single game
+  const [setupPlayOut, setSetupPlayOut] = useState(false);
+  const [setupJokers, setSetupJokers] = useState(false);
+  const [setupDrawUntilPlayable, setSetupDrawUntilPlayable] = useState(false);
+  const [setupUndoPolicy, setSetupUndoPolicy] = useState<UndoPolicy | null>(null); // null = default
   const [showHowToPlay, setShowHowToPlay] = useState(false);
 
   // Update player types when count changes
@@ -111,12 +157,40 @@ export function GameBoard() {
 
   // Start game with configured types
   const handleStartGame = useCallback(() => {
-    startGameWithTypes(setupPlayerCount, setupPlayerTypes);
-  }, [setupPlayerCount, setupPlayerTypes, startGameWithTypes]);
+    // Playing out for places only matters with 3+ players
+    const rules = {
+      playOut: setupPlayOut && setupPlayerCount > 2,
+      jokers: setupJokers,
+      drawUntilPlayable: setupDrawUntilPlayable,
+    };
+    if (setupTargetScore !== null) {
+      startMatch(setupPlayerCount, setupPlayerTypes, setupTargetScore, rules);
+    } else {
+      startGameWithTypes(setupPlayerCount, setupPlayerTypes, rules);
+    }
+    setUndoPolicy(setupUndoPolicy);
+  }, [
+    setupPlayerCount,
+    setupPlayerTypes,
+    setupTargetScore,
+    setupPlayOut,
+    setupJokers,
+    setupDrawUntilPlayable,
+    setupUndoPolicy,
+    startGameWithTypes,
+    startMatch,
+    setUndoPolicy,
+  ]);
+
+  // Offer to resume a game saved before the page was reloaded
+  useEffect(() => {
+    checkSavedGame();
+  }, [checkSavedGame]);
 
   // AI turn execution effect
   useEffect(() => {
-    if (!gameState || gameState.winner !== null) return;
+    // AI players wait while a takeback is being decided
+    if (!gameState || gameState.winner !== null || takebackRequested) return;
 
     const activeIsAi = isActivePlayerAi();
     if (!activeIsAi) return;
@@ -127,7 +201,40 @@ export function GameBoard() {
     }, 500);
 
     return () => clearTimeout(timer);
-  }, [gameState, isActivePlayerAi, executeAiTurn]);
+  }, [gameState, takebackRequested, isActivePlayerAi, executeAiTurn]);
+
+  // Saved game found - offer to resume it before showing the setup screen
+  if (!gameState && savedGame) {
+    const { gameState: saved, match: savedMatch } = savedGame;
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-8 bg-gradient-to-br from-gray-900 to-gray-800">
+        <h1 className="text-5xl font-bold text-white">Last Card</h1>
+        <div className="flex flex-col items-center gap-2 rounded-lg bg-gray-800 px-8 py-6 text-white">
+          <div className="text-lg font-medium">You have a game in progress</div>
+          <div className="text-sm text-white/60">
+            {saved.players.length} players
+            {savedMatch
+              ? ` - round ${savedMatch.roundNumber} of a match to ${savedMatch.targetScore}`
+              : ` - turn ${saved.turnNumber + 1}`}
+          </div>
+        </div>
+        <div className="flex gap-4">
+          <button
+            onClick={resumeSavedGame}
+            className="rounded-xl bg-green-600 px-12 py-4 text-xl font-bold text-white shadow-lg transition-all hover:scale-105 hover:bg-green-500"
+          >
+            Resume Game
+          </button>
+          <button
+            onClick={discardSavedGame}
+            className="rounded-xl bg-gray-700 px-8 py-4 text-xl font-bold text-white transition-all hover:bg-gray-600"
+          >
+            New Game
+          </button>
+        </div>
+      </div>
+    );
+  }
 
   // Game not started - show setup screen
   if (!gameState) {
@@ -135,18 +242,30 @@ export function GameBoard() {
       <div className="flex min-h-screen flex-col items-center justify-center gap-8 bg-gradient-to-br from-gray-900 to-gray-800">
         <h1 className="text-5xl font-bold text-white">Last Card</h1>
         <p className="max-w-md text-center text-white/60">
-          A classic card game for 2-4 players. Be the first to play all your cards!
+          A classic card game for 2-8 players. Be the first to play all your cards!
         </p>
 
+        {/* Saved game that couldn't be restored */}
+        {savedGameError && (
+          <div className="flex max-w-xl items-center gap-3 rounded-lg bg-red-600/80 px-4 py-3">
+            <span className="text-white">
+              Your saved game couldn&apos;t be restored and was discarded. ({savedGameError})
+            </span>
+            <button onClick={discardSavedGame} className="text-white/80 hover:text-white">
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Player count selector */}
         <div className="flex flex-col items-center gap-4">
           <div className="text-lg font-medium text-white">Number of Players</div>
-          <div className="flex gap-3">
-            {[2, 3, 4].map((count) => (
+          <div className="flex max-w-xl flex-wrap justify-center gap-3">
+            {[2, 3, 4, 5, 6, 7, 8].map((count) => (
               <button
                 key={count}
                 onClick={() => handlePlayerCountChange(count)}
-                className={`rounded-lg px-6 py-3 font-bold transition-all ${
+                className={`rounded-lg px-5 py-3 font-bold transition-all ${
                   setupPlayerCount === count
                     ? "bg-green-600 text-white scale-105"
                     : "bg-gray-700 text-white/70 hover:bg-gray-600"
@@ -191,6 +310,103 @@ export function GameBoard() {
           </div>
         </div>
 
+        {/* AI difficulty selector (when playing against AI) */}
+        {setupPlayerTypes.includes("ai") && (
+          <div className="flex flex-col items-center gap-4">
+            <div className="text-lg font-medium text-white">AI Difficulty</div>
+            <div className="flex gap-3">
+              {AI_DIFFICULTIES.map((difficulty) => (
+                <button
+                  key={difficulty}
+                  onClick={() => setAiDifficulty(difficulty)}
+                  className={`rounded-lg px-4 py-2 font-medium capitalize transition-all ${
+                    aiDifficulty === difficulty
+                      ? "bg-purple-600 text-white scale-105"
+                      : "bg-gray-700 text-white/70 hover:bg-gray-600"
+                  }`}
+                >
+                  {difficulty}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Game mode selector */}
+        <div className="flex flex-col items-center gap-4">
+          <div className="text-lg font-medium text-white">Game Mode</div>
+          <div className="flex gap-3">
+            {[null, 50, 100, 150].map((target) => (
+              <button
+                key={target ?? "single"}
+                onClick={() => setSetupTargetScore(target)}
+                className={`rounded-lg px-4 py-2 font-medium transition-all ${
+                  setupTargetScore === target
+                    ? "bg-green-600 text-white scale-105"
+                    : "bg-gray-700 text-white/70 hover:bg-gray-600"
+                }`}
+              >
+                {target === null ? "Single Game" : `Match to ${target}`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Play-out toggle (3+ players) */}
+        {setupPlayerCount > 2 && (
+          <label className="flex cursor-pointer items-center gap-3 text-white">
+            <input
+              type="checkbox"
+              checked={setupPlayOut}
+              onChange={(e) => setSetupPlayOut(e.target.checked)}
+              className="h-5 w-5"
+            />
+            Keep playing for 2nd, 3rd and last place
+          </label>
+        )}
+
+        {/* Takeback policy selector */}
+        <div className="flex flex-col items-center gap-4">
+          <div className="text-lg font-medium text-white">Takebacks</div>
+          <div className="flex gap-3">
+            {UNDO_POLICIES.map((policy) => (
+              <button
+                key={policy}
+                onClick={() => setSetupUndoPolicy(policy)}
+                className={`rounded-lg px-4 py-2 font-medium transition-all ${
+                  (setupUndoPolicy ?? getDefaultUndoPolicy(setupPlayerTypes)) === policy
+                    ? "bg-green-600 text-white scale-105"
+                    : "bg-gray-700 text-white/70 hover:bg-gray-600"
+                }`}
+              >
+                {UNDO_POLICY_LABELS[policy]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Jokers toggle */}
+        <label className="flex cursor-pointer items-center gap-3 text-white">
+          <input
+            type="checkbox"
+            checked={setupJokers}
+            onChange={(e) => setSetupJokers(e.target.checked)}
+            className="h-5 w-5"
+          />
+          Add Jokers (wild, pick up 5)
+        </label>
+
+        {/* Draw until playable toggle */}
+        <label className="flex cursor-pointer items-center gap-3 text-white">
+          <input
+            type="checkbox"
+            checked={setupDrawUntilPlayable}
+            onChange={(e) => setSetupDrawUntilPlayable(e.target.checked)}
+            className="h-5 w-5"
+          />
+          Draw until you can play
+        </label>
+
         {/* Start button */}
         <button
           onClick={handleStartGame}
@@ -222,15 +438,28 @@ export function GameBoard() {
   if (gameState.winner !== null) {
     const winnerType = getPlayerType(gameState.winner);
     const winnerLabel = winnerType === "ai" ? "AI" : "Human";
+    // Show the standings including this round, whether or not it has been scored yet
+    const scoredMatch =
+      match && match.rounds.length < match.roundNumber ? scoreRound(match, gameState) : match;
+    const replay = getReplay();
     return (
       <WinScreen
         winner={gameState.winner}
         winnerLabel={winnerLabel}
+        finishingOrder={gameState.finishingOrder}
+        match={scoredMatch ?? undefined}
+        onNextRound={nextRound}
         onPlayAgain={() => {
           // Restart with same player types
           const types = gameState.players.map((p) => p.playerType);
-          startGameWithTypes(gameState.players.length, types);
+          if (match) {
+            startMatch(gameState.players.length, types, match.targetScore, gameState.rules);
+          } else {
+            startGameWithTypes(gameState.players.length, types, gameState.rules);
+          }
         }}
+        onWatchReplay={replay ? () => openReplay(replay) : undefined}
+        onDownloadReplay={replay ? () => downloadReplay(replay) : undefined}
       />
     );
   }
@@ -240,6 +469,17 @@ export function GameBoard() {
   const activePlayerType = getPlayerType(activeIndex);
   const activeIsAi = activePlayerType === "ai";
 
+  // Takeback consent - shown before the handoff so nobody's hand is revealed
+  if (takebackRequested) {
+    const checkpoint = history.past[history.past.length - 1];
+    return (
+      <TakebackScreen
+        playerNumber={checkpoint ? getActingPlayerIndex(checkpoint.gameState) + 1 : null}
+        onRespond={respondToTakeback}
+      />
+    );
+  }
+
   // Handoff screen - only for human players, not during any response phase
   // AI players don't need handoff - the useEffect handles their turn automatically
   if (
@@ -251,7 +491,11 @@ export function GameBoard() {
     !activeIsAi
   ) {
     return (
-      <HandoffScreen playerNumber={gameState.currentPlayerIndex + 1} onConfirm={confirmHandoff} />
+      <HandoffScreen
+        playerNumber={gameState.currentPlayerIndex + 1}
+        onConfirm={confirmHandoff}
+        onUndo={canUndo() ? undo : undefined}
+      />
     );
   }
 
@@ -292,7 +536,7 @@ export function GameBoard() {
 
     // Direction for display
     const direction = getDirection();
-    const playerCount = gameState.players.length;
+    const jacksActive = isJackActive(gameState);
 
     // During response phase, show the responding player's view
     // During seven dispute, show the dispute responder's view
@@ -312,11 +556,13 @@ export function GameBoard() {
 
     const currentPlayerState = gameState.players[gameState.currentPlayerIndex];
     const isMustDraw = gameState.turnPhase === "must-draw";
-    const canPlayCards = isSelectionLegal() && gameState.turnPhase === "playing" && !inSevenDispute && !canCancelLastCard;
+    // The 7 challenge has to be settled before playing or drawing
+    const canPlayCards = isSelectionLegal() && !canCancelLastCard;
+    const selectionProblem = explainSelection();
     const canDrawCard =
-      (gameState.turnPhase === "playing" || gameState.turnPhase === "must-draw") &&
+      canTakeAction("draw") &&
       (gameState.drawPile.length > 0 || gameState.discardPile.length > 1) &&
-      !inSevenDispute && !canCancelLastCard;
+      !canCancelLastCard;
 
     // Get opponent info - exclude the currently displayed player
     let displayPlayerIndex = gameState.currentPlayerIndex;
@@ -467,7 +713,7 @@ export function GameBoard() {
               <div className="text-lg font-bold text-white">
                 Direction Change - Player {displayPlayerIndex + 1}
               </div>
-              {playerCount >= 3 && (
+              {jacksActive && (
                 <div className="flex items-center gap-1 rounded bg-indigo-500 px-2 py-1 text-sm font-bold text-white">
                   {direction === "CW" ? "→ CCW" : "→ CW"}
                 </div>
@@ -496,20 +742,28 @@ export function GameBoard() {
         {/* Main game area */}
         <div className="relative flex flex-1 flex-col">
           {/* Opponent area (top) */}
-          <div className="flex justify-center gap-8 py-6">
+          <div
+            className={`flex flex-wrap justify-center ${opponents.length > 3 ? "gap-4 py-3" : "gap-8 py-6"}`}
+          >
             {opponents.map((opponent) => (
               <OpponentArea
                 key={opponent.id}
+                compact={opponents.length > 3}
                 cardCount={opponent.hand.length}
                 playerName={`Player ${opponent.id + 1}`}
                 playerType={opponent.playerType}
                 hasLastCardDeclared={opponent.declaredLastCard}
+                finishedPlace={
+                  gameState.finishingOrder.includes(opponent.id)
+                    ? gameState.finishingOrder.indexOf(opponent.id) + 1
+                    : undefined
+                }
               />
             ))}
           </div>
 
-          {/* Direction indicator for 3+ players */}
-          {playerCount >= 3 && (
+          {/* Direction indicator when Jacks can switch direction */}
+          {jacksActive && (
             <div className="absolute right-4 top-4 flex items-center gap-2 rounded-lg bg-black/40 px-3 py-2">
               <span className="text-sm font-medium text-white/80">Direction:</span>
               <span className={`rounded px-2 py-0.5 text-sm font-bold ${direction === "CW" ? "bg-blue-600 text-white" : "bg-orange-600 text-white"}`}>
@@ -608,6 +862,7 @@ export function GameBoard() {
                   mustDraw={isMustDraw}
                   forcedDrawCount={gameState.pendingEffects.forcedDrawCount}
                   hasLastCardPenalty={currentPlayerState.lastCardPenalty}
+                  illegalReason={selectionProblem && describeIllegalReason(selectionProblem)}
                   onPlay={() => playSelectedCards()}
                   onDraw={drawCard}
                 />
@@ -640,6 +895,7 @@ export function GameBoard() {
                 mustDraw={isMustDraw}
                 forcedDrawCount={gameState.pendingEffects.forcedDrawCount}
                 hasLastCardPenalty={currentPlayerState.lastCardPenalty}
+                illegalReason={selectionProblem && describeIllegalReason(selectionProblem)}
                 onPlay={() => playSelectedCards()}
                 onDraw={drawCard}
               />
@@ -729,6 +985,28 @@ export function GameBoard() {
             </div>
           )}
 
+          {/* Undo/redo - next to the help button */}
+          {getUndoPolicy() !== "off" && (
+            <div className="absolute bottom-4 left-16 flex gap-2">
+              <button
+                onClick={undo}
+                disabled={!canUndo()}
+                className="rounded-full bg-gray-700/80 px-4 py-2 text-sm font-medium text-white transition-all hover:bg-gray-600 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Undo
+              </button>
+              {getUndoPolicy() === "unlimited" && (
+                <button
+                  onClick={redo}
+                  disabled={!canRedo()}
+                  className="rounded-full bg-gray-700/80 px-4 py-2 text-sm font-medium text-white transition-all hover:bg-gray-600 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Redo
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Help button - bottom left corner */}
           <button
             onClick={() => setShowHowToPlay(true)}
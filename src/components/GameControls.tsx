@@ -6,6 +6,7 @@ interface GameControlsProps {
   mustDraw: boolean;
   forcedDrawCount: number;
   hasLastCardPenalty: boolean;
+  illegalReason?: string | null; // Why the selected cards can't be played
   onPlay: () => void;
   onDraw: () => void;
 }
@@ -16,6 +17,7 @@ export function GameControls({
   mustDraw,
   forcedDrawCount,
   hasLastCardPenalty,
+  illegalReason,
   onPlay,
   onDraw,
 }: GameControlsProps) {
@@ -52,6 +54,11 @@ export function GameControls({
             : `Must Draw ${forcedDrawCount}`
           : "Draw Card"}
       </button>
+
+      {/* Why the selection can't be played */}
+      {illegalReason && (
+        <div className="w-full text-center text-sm text-red-300">{illegalReason}</div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { Card as CardType, cardEquals, Rank, Suit } from "@/engine";
+import { Card as CardType, cardEquals, countCards, Rank, Suit } from "@/engine";
 import { Card } from "./Card";
 
 interface HandProps {
@@ -14,8 +14,9 @@ interface HandProps {
   faceDown?: boolean; // Show all cards face-down (for AI opponents)
 }
 
-// Rank order for sorting (A high, then K, Q, J, 10-2)
+// Rank order for sorting (Jokers first, then A high, K, Q, J, 10-2)
 const RANK_ORDER: Record<Rank, number> = {
+  Joker: 15,
   A: 14,
   K: 13,
   Q: 12,
@@ -63,13 +64,17 @@ export function Hand({
 
   const sortedCards = sortCards(cards);
 
-  const isSelected = (card: CardType) => selectedCards.some((c) => cardEquals(c, card));
+  // With multiple decks a hand can hold identical cards; the first N copies of a
+  // card show as selected when N copies are in the selection
+  const copyIndexes = sortedCards.map((card, index) => countCards(sortedCards.slice(0, index), card));
+  const isSelected = (card: CardType, copyIndex: number) =>
+    copyIndex < countCards(selectedCards, card);
   const isHighlighted = (card: CardType) => highlightCards.some((c) => cardEquals(c, card));
 
-  const handleCardClick = (card: CardType) => {
+  const handleCardClick = (card: CardType, copyIndex: number) => {
     if (disabled) return;
 
-    if (isSelected(card)) {
+    if (isSelected(card, copyIndex)) {
       onDeselectCard(card);
     } else {
       onSelectCard(card);
@@ -97,7 +102,7 @@ export function Hand({
 
           return (
             <div
-              key={`${card.rank}-${card.suit}`}
+              key={`${card.rank}-${card.suit}-${copyIndexes[index]}`}
               className="transition-all duration-150"
               style={{
                 marginLeft: index > 0 ? overlap : 0,
@@ -109,10 +114,10 @@ export function Hand({
               <Card
                 card={card}
                 faceDown={faceDown}
-                selected={!faceDown && isSelected(card)}
+                selected={!faceDown && isSelected(card, copyIndexes[index])}
                 highlighted={!faceDown && isHighlighted(card)}
                 selectable={!disabled && !faceDown}
-                onClick={() => handleCardClick(card)}
+                onClick={() => handleCardClick(card, copyIndexes[index])}
                 size="large"
                 magnified={!faceDown && isHovered}
               />
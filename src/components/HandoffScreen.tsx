@@ -3,9 +3,10 @@
 interface HandoffScreenProps {
   playerNumber: number;
   onConfirm: () => void;
+  onUndo?: () => void; // Lets the previous player ask to take their move back
 }
 
-export function HandoffScreen({ playerNumber, onConfirm }: HandoffScreenProps) {
+export function HandoffScreen({ playerNumber, onConfirm, onUndo }: HandoffScreenProps) {
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-gradient-to-br from-gray-900 to-gray-800">
       <div className="flex flex-col items-center gap-8 text-center">
@@ -24,6 +25,12 @@ export function HandoffScreen({ playerNumber, onConfirm }: HandoffScreenProps) {
         >
           I am Player {playerNumber} - Start My Turn
         </button>
+
+        {onUndo && (
+          <button onClick={onUndo} className="text-sm text-white/50 underline hover:text-white/80">
+            Take back the last move
+          </button>
+        )}
       </div>
     </div>
   );
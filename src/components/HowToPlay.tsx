@@ -55,6 +55,10 @@ export function HowToPlay({ onClose }: HowToPlayProps) {
               <div className="rounded bg-gray-700/50 p-2">
                 <strong className="text-emerald-400">Ace</strong> - Change the suit to any suit you choose
               </div>
+              <div className="rounded bg-gray-700/50 p-2">
+                <strong className="text-pink-400">Joker</strong> (optional) - Play on anything, anything
+                plays on it; next player draws 5 (deflects 2s and 5s, any 7 cancels it). Always played alone
+              </div>
             </div>
           </section>
 
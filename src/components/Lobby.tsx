@@ -1,7 +1,9 @@
 "use client";
 
 import { useCallback } from "react";
-import type { PublicPlayer, LobbyConfig } from "@/lib/party/messages";
+import { AI_DIFFICULTIES } from "@/engine";
+import type { PublicPlayer, LobbyConfig, MaxPlayers, TimerConfig } from "@/lib/party/messages";
+import { DEFAULT_TIMER_CONFIG } from "@/lib/party/messages";
 
 export interface LobbyProps {
   /** Room code to display */
@@ -32,6 +34,44 @@ export interface LobbyProps {
   onClearError: () => void;
 }
 
+/**
+ * Timer modes offered to the host, each with its starting settings
+ */
+const TIMER_MODES: { label: string; timer: TimerConfig }[] = [
+  { label: "Per move", timer: DEFAULT_TIMER_CONFIG },
+  {
+    label: "Time bank",
+    timer: { mode: "time_bank", bankMs: 3 * 60 * 1000, incrementMs: 5 * 1000 },
+  },
+  { label: "Unlimited", timer: { mode: "unlimited" } },
+];
+
+const TURN_SECONDS = [10, 30, 60];
+const RESPONSE_SECONDS = [10, 15, 30];
+const TIME_BANKS = [
+  { bankMs: 60 * 1000, incrementMs: 2 * 1000 },
+  { bankMs: 3 * 60 * 1000, incrementMs: 5 * 1000 },
+  { bankMs: 5 * 60 * 1000, incrementMs: 10 * 1000 },
+];
+
+function formatDuration(ms: number): string {
+  return ms >= 60 * 1000 && ms % (60 * 1000) === 0 ? `${ms / (60 * 1000)} min` : `${ms / 1000}s`;
+}
+
+function describeTimer(timer: TimerConfig): string {
+  switch (timer.mode) {
+    case "per_move":
+      return (
+        `${formatDuration(timer.turnMs)} a turn, ` +
+        `${formatDuration(timer.responseMs)} to respond`
+      );
+    case "time_bank":
+      return `${formatDuration(timer.bankMs)} bank + ${formatDuration(timer.incrementMs)} a move`;
+    case "unlimited":
+      return "No time limit";
+  }
+}
+
 export function Lobby({
   code,
   players,
@@ -52,13 +92,14 @@ export function Lobby({
   const totalPlayers = players.length;
   const canStart = totalPlayers >= 2 && totalPlayers <= config.maxPlayers;
   const canAddAI = totalPlayers < config.maxPlayers;
+  const { timer } = config;
 
   const handleCopyCode = useCallback(() => {
     navigator.clipboard.writeText(code);
   }, [code]);
 
   const handleMaxPlayersChange = useCallback(
-    (maxPlayers: 2 | 3 | 4) => {
+    (maxPlayers: MaxPlayers) => {
       onConfigureGame({ maxPlayers });
     },
     [onConfigureGame]
@@ -107,7 +148,7 @@ export function Lobby({
           </div>
           {isHost && (
             <div className="flex gap-2">
-              {([2, 3, 4] as const).map((num) => (
+              {([2, 3, 4, 5, 6, 7, 8] as const).map((num) => (
                 <button
                   key={num}
                   onClick={() => handleMaxPlayersChange(num)}
@@ -212,6 +253,192 @@ export function Lobby({
         </div>
       </div>
 
+      {/* Game Mode */}
+      <div className="flex w-full max-w-md items-center justify-between">
+        <div className="text-lg font-medium text-white">Game Mode</div>
+        {isHost ? (
+          <div className="flex gap-2">
+            {[null, 50, 100, 150].map((target) => (
+              <button
+                key={target ?? "single"}
+                onClick={() => onConfigureGame({ matchTargetScore: target })}
+                className={`rounded px-3 py-1 text-sm font-medium transition-all ${
+                  config.matchTargetScore === target
+                    ? "bg-green-600 text-white"
+                    : "bg-gray-700 text-white/70 hover:bg-gray-600"
+                }`}
+              >
+                {target === null ? "Single" : `To ${target}`}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="text-sm text-white/60">
+            {config.matchTargetScore === null
+              ? "Single game"
+              : `Match to ${config.matchTargetScore}`}
+          </div>
+        )}
+      </div>
+
+      {/* AI difficulty (also used when AI takes over for a disconnected player) */}
+      <div className="flex w-full max-w-md items-center justify-between">
+        <div className="text-lg font-medium text-white">AI Difficulty</div>
+        {isHost ? (
+          <div className="flex gap-2">
+            {AI_DIFFICULTIES.map((difficulty) => (
+              <button
+                key={difficulty}
+                onClick={() => onConfigureGame({ aiDifficulty: difficulty })}
+                className={`rounded px-3 py-1 text-sm font-medium capitalize transition-all ${
+                  config.aiDifficulty === difficulty
+                    ? "bg-purple-600 text-white"
+                    : "bg-gray-700 text-white/70 hover:bg-gray-600"
+                }`}
+              >
+                {difficulty}
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="text-sm capitalize text-white/60">{config.aiDifficulty}</div>
+        )}
+      </div>
+
+      {/* Move time limits (running out draws a card, or lets an effect stand) */}
+      <div className="flex w-full max-w-md flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <div className="text-lg font-medium text-white">Timer</div>
+          {isHost ? (
+            <div className="flex gap-2">
+              {TIMER_MODES.map((preset) => (
+                <button
+                  key={preset.timer.mode}
+                  onClick={() => onConfigureGame({ timer: preset.timer })}
+                  className={`rounded px-3 py-1 text-sm font-medium transition-all ${
+                    timer.mode === preset.timer.mode
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-700 text-white/70 hover:bg-gray-600"
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="text-sm text-white/60">{describeTimer(timer)}</div>
+          )}
+        </div>
+
+        {isHost && timer.mode === "per_move" && (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-white/80">Turn</div>
+              <div className="flex gap-2">
+                {TURN_SECONDS.map((seconds) => (
+                  <button
+                    key={seconds}
+                    onClick={() => onConfigureGame({ timer: { ...timer, turnMs: seconds * 1000 } })}
+                    className={`rounded px-3 py-1 text-sm font-medium transition-all ${
+                      timer.turnMs === seconds * 1000
+                        ? "bg-blue-600 text-white"
+                        : "bg-gray-700 text-white/70 hover:bg-gray-600"
+                    }`}
+                  >
+                    {seconds}s
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-white/80">Response</div>
+              <div className="flex gap-2">
+                {RESPONSE_SECONDS.map((seconds) => (
+                  <button
+                    key={seconds}
+                    onClick={() =>
+                      onConfigureGame({ timer: { ...timer, responseMs: seconds * 1000 } })
+                    }
+                    className={`rounded px-3 py-1 text-sm font-medium transition-all ${
+                      timer.responseMs === seconds * 1000
+                        ? "bg-blue-600 text-white"
+                        : "bg-gray-700 text-white/70 hover:bg-gray-600"
+                    }`}
+                  >
+                    {seconds}s
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        {isHost && timer.mode === "time_bank" && (
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-white/80">Bank + increment</div>
+            <div className="flex gap-2">
+              {TIME_BANKS.map(({ bankMs, incrementMs }) => (
+                <button
+                  key={bankMs}
+                  onClick={() =>
+                    onConfigureGame({ timer: { mode: "time_bank", bankMs, incrementMs } })
+                  }
+                  className={`rounded px-3 py-1 text-sm font-medium transition-all ${
+                    timer.bankMs === bankMs && timer.incrementMs === incrementMs
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-700 text-white/70 hover:bg-gray-600"
+                  }`}
+                >
+                  {formatDuration(bankMs)} + {formatDuration(incrementMs)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Play-out rule */}
+      <label className="flex w-full max-w-md items-center justify-between text-white">
+        <span className="text-lg font-medium">Play out for places</span>
+        <input
+          type="checkbox"
+          checked={config.rules.playOut ?? false}
+          disabled={!isHost}
+          onChange={(e) =>
+            onConfigureGame({ rules: { ...config.rules, playOut: e.target.checked } })
+          }
+          className="h-5 w-5"
+        />
+      </label>
+
+      {/* Jokers rule */}
+      <label className="flex w-full max-w-md items-center justify-between text-white">
+        <span className="text-lg font-medium">Jokers (wild, pick up 5)</span>
+        <input
+          type="checkbox"
+          checked={config.rules.jokers ?? false}
+          disabled={!isHost}
+          onChange={(e) =>
+            onConfigureGame({ rules: { ...config.rules, jokers: e.target.checked } })
+          }
+          className="h-5 w-5"
+        />
+      </label>
+
+      {/* Draw until playable rule */}
+      <label className="flex w-full max-w-md items-center justify-between text-white">
+        <span className="text-lg font-medium">Draw until you can play</span>
+        <input
+          type="checkbox"
+          checked={config.rules.drawUntilPlayable ?? false}
+          disabled={!isHost}
+          onChange={(e) =>
+            onConfigureGame({ rules: { ...config.rules, drawUntilPlayable: e.target.checked } })
+          }
+          className="h-5 w-5"
+        />
+      </label>
+
       {/* Action Buttons */}
       <div className="flex gap-4">
         {isHost ? (
@@ -1,6 +1,6 @@
 "use client";
 
-import { PlayerType } from "@/engine";
+import { PlayerType, formatPlace } from "@/engine";
 import { CardBack } from "./Card";
 
 interface OpponentAreaProps {
@@ -8,11 +8,21 @@ interface OpponentAreaProps {
   playerName: string;
   playerType?: PlayerType;
   hasLastCardDeclared?: boolean;
+  finishedPlace?: number; // 1-based place if this player has gone out
+  compact?: boolean; // Smaller layout for crowded (5+ player) tables
 }
 
-export function OpponentArea({ cardCount, playerName, playerType, hasLastCardDeclared }: OpponentAreaProps) {
-  // Display up to 7 card backs, then just show count
-  const displayCount = Math.min(cardCount, 7);
+export function OpponentArea({
+  cardCount,
+  playerName,
+  playerType,
+  hasLastCardDeclared,
+  finishedPlace,
+  compact = false,
+}: OpponentAreaProps) {
+  // Display up to 7 card backs (3 when compact), then just show count
+  const maxBacks = compact ? 3 : 7;
+  const displayCount = Math.min(cardCount, maxBacks);
 
   return (
     <div className="flex flex-col items-center gap-2">
@@ -23,9 +33,15 @@ export function OpponentArea({ cardCount, playerName, playerType, hasLastCardDec
             AI
           </span>
         )}
-        <span className="rounded bg-white/20 px-2 py-0.5 text-xs font-bold text-white">
-          {cardCount} {cardCount === 1 ? "card" : "cards"}
-        </span>
+        {finishedPlace !== undefined ? (
+          <span className="rounded bg-green-600 px-2 py-0.5 text-xs font-bold text-white">
+            Out - {formatPlace(finishedPlace)}
+          </span>
+        ) : (
+          <span className="rounded bg-white/20 px-2 py-0.5 text-xs font-bold text-white">
+            {cardCount} {cardCount === 1 ? "card" : "cards"}
+          </span>
+        )}
         {hasLastCardDeclared && cardCount === 1 && (
           <span className="animate-pulse rounded bg-yellow-500 px-2 py-0.5 text-xs font-bold text-black">
             LAST CARD!
@@ -34,13 +50,17 @@ export function OpponentArea({ cardCount, playerName, playerType, hasLastCardDec
       </div>
       <div className="flex">
         {Array.from({ length: displayCount }).map((_, index) => (
-          <div key={index} className={index > 0 ? "-ml-10" : ""} style={{ zIndex: index }}>
-            <CardBack size="medium" />
+          <div
+            key={index}
+            className={index > 0 ? (compact ? "-ml-8" : "-ml-10") : ""}
+            style={{ zIndex: index }}
+          >
+            <CardBack size={compact ? "small" : "medium"} />
           </div>
         ))}
-        {cardCount > 7 && (
+        {cardCount > maxBacks && (
           <div className="ml-2 flex items-center">
-            <span className="text-xs text-white/60">+{cardCount - 7} more</span>
+            <span className="text-xs text-white/60">+{cardCount - maxBacks} more</span>
           </div>
         )}
       </div>
@@ -28,7 +28,7 @@ export function OrderStrip({ cards, onReorder }: OrderStripProps) {
       <span className="text-xs font-medium text-white/70">Play Order (left = first, right = last/top)</span>
       <div className="flex items-center gap-2">
         {cards.map((card, index) => (
-          <div key={`order-${card.rank}-${card.suit}`} className="flex flex-col items-center gap-1">
+          <div key={`order-${card.rank}-${card.suit}-${index}`} className="flex flex-col items-center gap-1">
             <Card card={card} size="small" />
             <div className="flex gap-1">
               <button
@@ -0,0 +1,286 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  AnalysisOptions,
+  Annotation,
+  GameAction,
+  Replay,
+  analyzeStep,
+  cardToString,
+  getActingPlayerIndex,
+  getReplayStates,
+  suitToSymbol,
+} from "@/engine";
+import { Hand } from "./Hand";
+import { OpponentArea } from "./OpponentArea";
+import { PlayArea } from "./PlayArea";
+
+interface ReplayViewerProps {
+  replay: Replay;
+}
+
+// Analysis runs on the main thread, so each step is kept to a fraction of the
+// engine's default (100 samples played out to 300 actions)
+const BROWSER_ANALYSIS: AnalysisOptions = { samples: 20, maxPlayoutSteps: 120 };
+
+/**
+ * What an action did, for the step caption ("played 8♠ 8♥")
+ */
+function describeAction(action: GameAction): string {
+  switch (action.action) {
+    case "play_cards": {
+      const cards = action.cards.map(cardToString).join(" ");
+      const suit = action.chosenSuit ? ` and chose ${suitToSymbol(action.chosenSuit)}` : "";
+      const effect = action.activateEffect === false ? " without its effect" : "";
+      return `played ${cards}${suit}${effect}`;
+    }
+    case "draw":
+      return "drew";
+    case "end_turn":
+      return "ended their turn";
+    case "declare_last_card":
+      return "declared Last Card";
+    case "confirm_handoff":
+      return "took their turn";
+    case "resolve_response":
+      return "took the effect";
+    case "deflect_response":
+      return `passed it on with ${cardToString(action.card)}`;
+    case "cancel_response":
+    case "seven_cancel_effect":
+      return `cancelled the effect with ${cardToString(action.card)}`;
+    case "seven_cancel_last_card":
+      return `challenged Last Card with ${cardToString(action.card)}`;
+    case "seven_dispute_play":
+      return `answered the 7 with ${cardToString(action.card)}`;
+    case "seven_dispute_accept":
+      return "let the 7 stand";
+    case "jack_accept":
+      return "accepted the Jack";
+    case "jack_cancel":
+      return `cancelled the Jack with ${cardToString(action.card)}`;
+    case "ace_accept":
+      return "accepted the suit change";
+    case "ace_cancel":
+      return `cancelled the Ace with ${cardToString(action.card)}`;
+  }
+}
+
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Steps through a recorded game. Shows the hand of whoever acts next, or every
+ * hand in omniscient mode, and can analyse the human players' decisions.
+ */
+export function ReplayViewer({ replay }: ReplayViewerProps) {
+  const [step, setStep] = useState(0);
+  const [omniscient, setOmniscient] = useState(false);
+
+  // Rebuild the game once; a replay with an illegal step can't be shown
+  const rebuilt = useMemo(() => {
+    try {
+      return { states: getReplayStates(replay), error: null };
+    } catch (error) {
+      return { states: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [replay]);
+  const { states, error } = rebuilt;
+  const lastStep = Math.max(0, states.length - 1);
+
+  // Analysis runs one step at a time so the page stays responsive
+  const [analysis, setAnalysis] = useState<{ done: number; annotations: Annotation[] } | null>(
+    null
+  );
+  const humanSeats = useMemo(
+    () => replay.seats.flatMap((seat, i) => (seat.playerType === "human" ? [i] : [])),
+    [replay]
+  );
+  useEffect(() => {
+    if (!analysis || analysis.done >= replay.steps.length) return;
+    const timer = setTimeout(() => {
+      const { done, annotations } = analysis;
+      const found = humanSeats.includes(replay.steps[done].player)
+        ? analyzeStep(replay, states, done, BROWSER_ANALYSIS)
+        : [];
+      setAnalysis({ done: done + 1, annotations: [...annotations, ...found] });
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [analysis, replay, states, humanSeats]);
+  const isAnalysing = analysis !== null && analysis.done < replay.steps.length;
+
+  // Arrow keys step backward and forward
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "ArrowLeft") setStep((s) => Math.max(0, s - 1));
+      if (e.key === "ArrowRight") setStep((s) => Math.min(lastStep, s + 1));
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [lastStep]);
+
+  if (error) {
+    return <div className="rounded-lg bg-red-600/80 px-4 py-3 text-white">{error}</div>;
+  }
+
+  const state = states[step];
+  const seatName = (index: number) => replay.seats[index]?.name ?? `Player ${index + 1}`;
+  const lastAction = step > 0 ? replay.steps[step - 1] : null;
+  const focusIndex = state.winner ?? getActingPlayerIndex(state);
+  const focus = state.players[focusIndex];
+  const others = state.players.filter((p) => p.id !== focusIndex);
+  const notes = analysis?.annotations.filter((a) => a.step === step - 1) ?? [];
+  const placeOf = (id: number) =>
+    state.finishingOrder.includes(id) ? state.finishingOrder.indexOf(id) + 1 : undefined;
+
+  return (
+    <div className="flex flex-1 flex-col">
+      {/* Step controls */}
+      <div className="flex flex-wrap items-center justify-center gap-3 bg-black/30 px-4 py-3">
+        {[
+          { label: "⏮", to: 0, title: "Start" },
+          { label: "◀", to: step - 1, title: "Back (←)" },
+          { label: "▶", to: step + 1, title: "Forward (→)" },
+          { label: "⏭", to: lastStep, title: "End" },
+        ].map(({ label, to, title }) => (
+          <button
+            key={title}
+            title={title}
+            onClick={() => setStep(Math.min(lastStep, Math.max(0, to)))}
+            className="rounded-lg bg-gray-700 px-3 py-1 text-white transition-colors hover:bg-gray-600"
+          >
+            {label}
+          </button>
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={lastStep}
+          value={step}
+          onChange={(e) => setStep(Number(e.target.value))}
+          className="w-48"
+        />
+        <span className="text-sm text-white/70">
+          Step {step} of {lastStep}
+          {lastAction && ` · ${formatElapsed(lastAction.at)}`}
+        </span>
+        <label className="flex cursor-pointer items-center gap-2 text-sm text-white">
+          <input
+            type="checkbox"
+            checked={omniscient}
+            onChange={(e) => setOmniscient(e.target.checked)}
+            className="h-4 w-4"
+          />
+          Show all hands
+        </label>
+        <button
+          onClick={() => setAnalysis({ done: 0, annotations: [] })}
+          disabled={isAnalysing || humanSeats.length === 0}
+          title={humanSeats.length === 0 ? "No human players to analyse" : undefined}
+          className="rounded-lg bg-purple-600 px-3 py-1 text-sm font-medium text-white transition-colors hover:bg-purple-500 disabled:opacity-50"
+        >
+          {isAnalysing
+            ? `Analysing ${analysis.done}/${replay.steps.length}`
+            : analysis
+              ? "Analyse Again"
+              : "Analyse Game"}
+        </button>
+      </div>
+
+      {/* Analysis annotations - click one to jump to its step */}
+      {analysis && !isAnalysing && (
+        <div className="max-h-32 overflow-y-auto bg-black/20 px-4 py-2 text-sm">
+          {analysis.annotations.length === 0 && (
+            <div className="text-center text-white/60">No mistakes found</div>
+          )}
+          {analysis.annotations.map((a, i) => (
+            <button
+              key={i}
+              onClick={() => setStep(a.step + 1)}
+              className={`block w-full text-left hover:text-white ${
+                a.step === step - 1 ? "text-amber-300" : "text-white/70"
+              }`}
+            >
+              Step {a.step + 1}, {seatName(a.player)}: {a.message}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* What the last step did */}
+      <div className="px-4 py-2 text-center text-white">
+        {lastAction
+          ? `${seatName(lastAction.player)} ${describeAction(lastAction.action)}`
+          : "The deal"}
+        {state.winner !== null && (
+          <span className="ml-2 font-bold text-yellow-300">{seatName(state.winner)} wins!</span>
+        )}
+        {notes.map((note, i) => (
+          <div key={i} className="text-sm text-amber-300">
+            {note.message}
+          </div>
+        ))}
+      </div>
+
+      {/* Other players (top) */}
+      <div
+        className={`flex flex-wrap justify-center ${others.length > 3 ? "gap-4 py-3" : "gap-8 py-6"}`}
+      >
+        {others.map((player) =>
+          omniscient ? (
+            <div key={player.id} className="flex flex-col items-center gap-2">
+              <span className="text-sm font-medium text-white/80">
+                {seatName(player.id)} ({player.hand.length})
+              </span>
+              <Hand
+                cards={player.hand}
+                selectedCards={[]}
+                onSelectCard={() => {}}
+                onDeselectCard={() => {}}
+                disabled
+              />
+            </div>
+          ) : (
+            <OpponentArea
+              key={player.id}
+              compact={others.length > 3}
+              cardCount={player.hand.length}
+              playerName={seatName(player.id)}
+              playerType={player.playerType}
+              hasLastCardDeclared={player.declaredLastCard}
+              finishedPlace={placeOf(player.id)}
+            />
+          )
+        )}
+      </div>
+
+      {/* Play area (center) */}
+      <div className="flex flex-1 items-center justify-center">
+        <PlayArea
+          topCard={state.discardPile[state.discardPile.length - 1] ?? null}
+          drawPileCount={state.drawPile.length}
+          chosenSuit={state.chosenSuit}
+          canDraw={false}
+        />
+      </div>
+
+      {/* The player to act (bottom) */}
+      <div className="bg-black/20 py-6">
+        <div className="mb-2 text-center text-sm font-medium text-white/70">
+          {state.winner === null ? `${seatName(focusIndex)} to act` : seatName(focusIndex)} (
+          {focus.hand.length} cards)
+        </div>
+        <Hand
+          cards={focus.hand}
+          selectedCards={[]}
+          onSelectCard={() => {}}
+          onDeselectCard={() => {}}
+          disabled
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+interface TakebackScreenProps {
+  playerNumber: number | null; // Player whose move would be taken back
+  onRespond: (allow: boolean) => void;
+}
+
+export function TakebackScreen({ playerNumber, onRespond }: TakebackScreenProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gradient-to-br from-gray-900 to-gray-800">
+      <div className="flex flex-col items-center gap-8 text-center">
+        <div className="flex flex-col gap-2">
+          <h2 className="text-2xl font-medium text-white/60">Takeback requested</h2>
+          <h1 className="text-4xl font-bold text-white">
+            {playerNumber ? `Player ${playerNumber} wants to undo their last move` : "Undo?"}
+          </h1>
+        </div>
+
+        <p className="max-w-md text-white/50">
+          Everyone else at the table should agree before the move is taken back.
+        </p>
+
+        <div className="flex gap-4">
+          <button
+            onClick={() => onRespond(true)}
+            className="rounded-xl bg-green-600 px-10 py-4 text-xl font-bold text-white shadow-lg transition-all hover:scale-105 hover:bg-green-500"
+          >
+            Allow
+          </button>
+          <button
+            onClick={() => onRespond(false)}
+            className="rounded-xl bg-gray-700 px-10 py-4 text-xl font-bold text-white transition-all hover:bg-gray-600"
+          >
+            Refuse
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
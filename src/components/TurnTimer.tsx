@@ -1,10 +1,15 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import type { TimerConfig } from "@/lib/party/messages";
 
 interface TurnTimerProps {
-  /** Remaining time in milliseconds */
-  remainingMs: number;
+  /** Time limit mode set for the room */
+  mode: TimerConfig["mode"];
+  /** Remaining time in milliseconds (ignored without a time limit) */
+  remainingMs?: number;
+  /** Time on the clock when the move began, for the progress bar */
+  durationMs?: number;
   /** Timer phase (turn or response) */
   phase: "turn" | "response";
   /** Whether this timer is for the current player */
@@ -13,12 +18,23 @@ interface TurnTimerProps {
   warningThresholdMs?: number;
 }
 
+/**
+ * Format a countdown as seconds, or minutes and seconds from a minute up
+ */
+function formatTime(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
 /**
  * Turn timer display component.
- * Shows countdown with visual warning when time is running low.
+ * Shows countdown with visual warning when time is running low, the player's
+ * remaining bank in time bank mode, or that there is no time limit.
  */
 export function TurnTimer({
-  remainingMs,
+  mode,
+  remainingMs = 0,
+  durationMs = remainingMs,
   phase,
   isMyTimer,
   warningThresholdMs = 10000,
@@ -32,15 +48,30 @@ export function TurnTimer({
 
   // Local countdown for smoother display between server updates
   useEffect(() => {
+    if (mode === "unlimited") return;
+
     const interval = setInterval(() => {
       setDisplaySeconds((prev) => Math.max(0, prev - 1));
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [remainingMs]); // Reset interval when server sends new time
+  }, [remainingMs, mode]); // Reset interval when server sends new time
+
+  const label = isMyTimer ? "Your turn" : phase === "response" ? "Response" : "Turn";
+
+  if (mode === "unlimited") {
+    return (
+      <div className="rounded-lg border-2 border-gray-600 bg-gray-700 px-4 py-2 text-white">
+        <div className="flex flex-col">
+          <span className="text-lg font-bold">No time limit</span>
+          <span className="text-xs opacity-80">{label}</span>
+        </div>
+      </div>
+    );
+  }
 
   const isWarning = remainingMs <= warningThresholdMs;
-  const isCritical = remainingMs <= 5000;
+  const isCritical = remainingMs <= Math.min(5000, warningThresholdMs / 2);
 
   // Determine colors based on state
   let bgColor = "bg-gray-700";
@@ -62,8 +93,8 @@ export function TurnTimer({
   }
 
   // Progress bar width
-  const maxTime = phase === "response" ? 15 : 30;
-  const progressPercent = Math.min(100, (displaySeconds / maxTime) * 100);
+  const progressPercent =
+    durationMs > 0 ? Math.min(100, ((displaySeconds * 1000) / durationMs) * 100) : 0;
 
   return (
     <div
@@ -96,11 +127,9 @@ export function TurnTimer({
 
         {/* Time display */}
         <div className="flex flex-col">
-          <span className="text-lg font-bold tabular-nums">
-            {displaySeconds}s
-          </span>
+          <span className="text-lg font-bold tabular-nums">{formatTime(displaySeconds)}</span>
           <span className="text-xs opacity-80">
-            {isMyTimer ? "Your turn" : phase === "response" ? "Response" : "Turn"}
+            {mode === "time_bank" ? `${label} · time bank` : label}
           </span>
         </div>
       </div>
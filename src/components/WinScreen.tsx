@@ -1,31 +1,128 @@
 "use client";
 
+import { MatchState, formatPlace } from "@/engine";
+
 interface WinScreenProps {
   winner: number;
   winnerLabel?: string; // "AI" or "Human"
+  finishingOrder?: number[]; // Every player, in the order they went out
+  match?: MatchState; // Standings including the round just finished
+  onNextRound?: () => void;
   onPlayAgain: () => void;
+  onWatchReplay?: () => void;
+  onDownloadReplay?: () => void;
 }
 
-export function WinScreen({ winner, winnerLabel, onPlayAgain }: WinScreenProps) {
+export function WinScreen({
+  winner,
+  winnerLabel,
+  finishingOrder,
+  match,
+  onNextRound,
+  onPlayAgain,
+  onWatchReplay,
+  onDownloadReplay,
+}: WinScreenProps) {
+  const lastRound = match?.rounds[match.rounds.length - 1];
+  const matchOver = !match || match.matchWinner !== null;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-gradient-to-br from-yellow-900/90 to-amber-900/90">
       <div className="flex flex-col items-center gap-8 text-center">
         <div className="flex flex-col gap-2">
-          <h2 className="text-xl font-medium text-white/80">Congratulations!</h2>
-          <h1 className="text-5xl font-bold text-yellow-300">Player {winner + 1} Wins!</h1>
-          {winnerLabel && (
+          <h2 className="text-xl font-medium text-white/80">
+            {match && lastRound ? `Round ${lastRound.roundNumber} Complete` : "Congratulations!"}
+          </h2>
+          <h1 className="text-5xl font-bold text-yellow-300">
+            {match && match.matchWinner !== null
+              ? `Player ${match.matchWinner + 1} Wins the Match!`
+              : `Player ${winner + 1} Wins${match ? " the Round" : ""}!`}
+          </h1>
+          {winnerLabel && !match && (
             <p className="text-lg text-white/60">({winnerLabel})</p>
           )}
         </div>
 
-        <div className="text-8xl">🏆</div>
+        {/* Placings (only interesting beyond a head-to-head game) */}
+        {finishingOrder && finishingOrder.length > 2 && (
+          <ol className="flex flex-col gap-1 text-lg text-white">
+            {finishingOrder.map((playerId, index) => (
+              <li key={playerId}>
+                <span className="font-bold text-yellow-300">{formatPlace(index + 1)}</span>{" "}
+                Player {playerId + 1}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {match && lastRound ? (
+          <div className="rounded-lg bg-black/30 px-6 py-4">
+            <table className="text-white">
+              <thead>
+                <tr className="text-sm text-white/60">
+                  <th className="px-4 py-1 text-left">Player</th>
+                  <th className="px-4 py-1 text-right">Round</th>
+                  <th className="px-4 py-1 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {match.scores.map((score, index) => (
+                  <tr
+                    key={index}
+                    className={index === match.matchWinner ? "font-bold text-yellow-300" : ""}
+                  >
+                    <td className="px-4 py-1 text-left">Player {index + 1}</td>
+                    <td className="px-4 py-1 text-right">+{lastRound.penalties[index]}</td>
+                    <td className="px-4 py-1 text-right">{score}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-2 text-sm text-white/60">
+              First to {match.targetScore} points ends the match - lowest score wins
+            </p>
+          </div>
+        ) : (
+          <div className="text-8xl">🏆</div>
+        )}
+
+        {matchOver ? (
+          <button
+            onClick={onPlayAgain}
+            className="rounded-xl bg-green-600 px-12 py-4 text-xl font-bold text-white shadow-lg transition-all hover:scale-105 hover:bg-green-500"
+          >
+            Play Again
+          </button>
+        ) : (
+          <button
+            onClick={onNextRound}
+            className="rounded-xl bg-green-600 px-12 py-4 text-xl font-bold text-white shadow-lg transition-all hover:scale-105 hover:bg-green-500"
+          >
+            Next Round
+          </button>
+        )}
 
-        <button
-          onClick={onPlayAgain}
-          className="rounded-xl bg-green-600 px-12 py-4 text-xl font-bold text-white shadow-lg transition-all hover:scale-105 hover:bg-green-500"
-        >
-          Play Again
-        </button>
+        {/* Replay of the game (or round) just played */}
+        {(onWatchReplay || onDownloadReplay) && (
+          <div className="flex gap-4">
+            {onWatchReplay && (
+              <button
+                onClick={onWatchReplay}
+                className="rounded-lg bg-black/30 px-6 py-2 text-white/80 transition-colors hover:bg-black/50 hover:text-white"
+              >
+                Watch Replay
+              </button>
+            )}
+            {onDownloadReplay && (
+              <button
+                onClick={onDownloadReplay}
+                className="rounded-lg bg-black/30 px-6 py-2 text-white/80 transition-colors hover:bg-black/50 hover:text-white"
+              >
+                Download Replay
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
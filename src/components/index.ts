@@ -5,6 +5,7 @@ export { PlayArea } from "./PlayArea";
 export { OrderStrip } from "./OrderStrip";
 export { SuitChooser } from "./SuitChooser";
 export { HandoffScreen } from "./HandoffScreen";
+export { TakebackScreen } from "./TakebackScreen";
 export { GameControls, LastCardButton } from "./GameControls";
 export { StatusBar } from "./StatusBar";
 export { WinScreen } from "./WinScreen";
@@ -15,3 +16,4 @@ export { Lobby } from "./Lobby";
 export { ConnectionOverlay } from "./ConnectionOverlay";
 export { ConnectionStatus } from "./ConnectionStatus";
 export { TurnTimer } from "./TurnTimer";
+export { ReplayViewer } from "./ReplayViewer";
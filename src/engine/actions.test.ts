@@ -0,0 +1,481 @@
+/**
+ * Action Reducer Tests
+ * Validation and follow-up transitions performed by applyAction
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  applyAction,
+  describeIllegalReason,
+  explainIllegalAction,
+  getActingPlayerIndex,
+  getLegalActions,
+  getLegalCards,
+  isActionLegal,
+} from "./actions";
+import { createRngState, nextRandom } from "./deck";
+import { initializeGame } from "./rules";
+import { DEFAULT_RULES } from "./ruleset";
+import { Card, cardEquals, GameAction, GameState, Suit } from "./types";
+
+const card = (rank: string, suit: Suit): Card => ({ rank: rank as Card["rank"], suit });
+
+function createTestState(overrides: Partial<GameState> = {}): GameState {
+  return {
+    rules: DEFAULT_RULES,
+    rng: createRngState(0),
+    players: [
+      { id: 0, hand: [], playerType: "human", declaredLastCard: false, lastCardPenalty: false },
+      { id: 1, hand: [], playerType: "human", declaredLastCard: false, lastCardPenalty: false },
+    ],
+    currentPlayerIndex: 0,
+    drawPile: [card("K", "clubs"), card("Q", "clubs"), card("J", "clubs")],
+    discardPile: [card("6", "diamonds")],
+    chosenSuit: null,
+    pendingEffects: { forcedDrawCount: 0, skipNextPlayer: false },
+    turnPhase: "playing",
+    winner: null,
+    finishingOrder: [],
+    lastPlayWasSpecial: false,
+    direction: "CW",
+    responsePhase: null,
+    responseChainRank: null,
+    respondingPlayerIndex: null,
+    sevenDispute: null,
+    lastCardClaim: null,
+    turnNumber: 0,
+    jackResponse: null,
+    aceResponse: null,
+    ...overrides,
+  };
+}
+
+function withHands(state: GameState, hands: Card[][]): GameState {
+  return { ...state, players: state.players.map((p, i) => ({ ...p, hand: hands[i] ?? p.hand })) };
+}
+
+describe("applyAction", () => {
+  it("should reject actions from a player who is not acting", () => {
+    const state = withHands(createTestState(), [[card("6", "hearts")], [card("6", "clubs")]]);
+    const result = applyAction(state, 1, { action: "play_cards", cards: [card("6", "clubs")] });
+    expect(result).toEqual({
+      ok: false,
+      error: "Not your turn",
+      reason: { code: "not_your_turn" },
+    });
+  });
+
+  it("should reject an illegal play without changing state", () => {
+    const state = withHands(createTestState(), [[card("9", "clubs"), card("3", "spades")], []]);
+    const result = applyAction(state, 0, { action: "play_cards", cards: [card("9", "clubs")] });
+    expect(result.ok).toBe(false);
+  });
+
+  it("should play and advance to the next player's handoff", () => {
+    const state = withHands(createTestState(), [
+      [card("6", "hearts"), card("3", "spades"), card("4", "spades")],
+      [card("K", "spades")],
+    ]);
+    const result = applyAction(state, 0, { action: "play_cards", cards: [card("6", "hearts")] });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.state.currentPlayerIndex).toBe(1);
+    expect(result.state.turnPhase).toBe("waiting");
+  });
+
+  it("should skip the handoff when autoConfirmHandoff is set", () => {
+    const state = withHands(createTestState(), [
+      [card("6", "hearts"), card("3", "spades"), card("4", "spades")],
+      [card("K", "spades")],
+    ]);
+    const result = applyAction(
+      state,
+      0,
+      { action: "play_cards", cards: [card("6", "hearts")] },
+      { autoConfirmHandoff: true }
+    );
+    expect(result.ok && result.state.turnPhase).toBe("playing");
+  });
+
+  it("should stay with the responder when a play opens a response window", () => {
+    const state = withHands(createTestState(), [
+      [card("2", "diamonds"), card("3", "spades"), card("4", "spades")],
+      [card("K", "spades")],
+    ]);
+    const result = applyAction(state, 0, {
+      action: "play_cards",
+      cards: [card("2", "diamonds")],
+      activateEffect: true,
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.state.responsePhase).toBe("responding");
+    expect(getActingPlayerIndex(result.state)).toBe(1);
+  });
+
+  it("should apply a forced draw and end the turn", () => {
+    const state = withHands(
+      createTestState({
+        turnPhase: "must-draw",
+        pendingEffects: { forcedDrawCount: 2, skipNextPlayer: false },
+      }),
+      [[card("3", "spades")], [card("K", "spades")]]
+    );
+    const result = applyAction(state, 0, { action: "draw" });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.state.players[0].hand).toHaveLength(3);
+    expect(result.state.currentPlayerIndex).toBe(1);
+  });
+
+  it("should reject a deflection with a card that is not a legal deflection", () => {
+    const state = withHands(
+      createTestState({
+        discardPile: [card("2", "diamonds")],
+        pendingEffects: { forcedDrawCount: 2, skipNextPlayer: false },
+        responsePhase: "responding",
+        responseChainRank: "2",
+        respondingPlayerIndex: 1,
+      }),
+      [[card("3", "spades")], [card("5", "diamonds"), card("2", "clubs")]]
+    );
+    expect(
+      applyAction(state, 1, { action: "deflect_response", card: card("5", "diamonds") }).ok
+    ).toBe(false);
+    expect(applyAction(state, 1, { action: "deflect_response", card: card("2", "clubs") }).ok).toBe(
+      true
+    );
+  });
+
+  it("should keep the current turn after accepting a Last Card dispute", () => {
+    const state = withHands(
+      createTestState({
+        sevenDispute: {
+          kind: "LAST_CARD",
+          lastCardClaimPlayerId: 1,
+          cancelled: true,
+          responderPlayerId: 1,
+        },
+        lastCardClaim: { playerId: 1, turnNumberCreated: 0 },
+      }),
+      [[card("3", "spades"), card("4", "spades")], [card("K", "spades")]]
+    );
+    const result = applyAction(state, 1, { action: "seven_dispute_accept" });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.state.currentPlayerIndex).toBe(0);
+    expect(result.state.turnPhase).toBe("playing");
+  });
+
+  it("should reject every action once the game is over", () => {
+    const state = createTestState({ winner: 0, turnPhase: "game-over" });
+    expect(applyAction(state, 0, { action: "draw" })).toEqual({
+      ok: false,
+      error: "Game is over",
+      reason: { code: "game_over" },
+    });
+  });
+});
+
+// Every non-play action that could be tried, legal or not
+function proposeNonPlayActions(state: GameState): GameAction[] {
+  const hand = state.players[getActingPlayerIndex(state)].hand;
+  const cardActions = [
+    "deflect_response",
+    "cancel_response",
+    "seven_cancel_effect",
+    "seven_cancel_last_card",
+    "seven_dispute_play",
+    "jack_cancel",
+    "ace_cancel",
+  ] as const;
+  return [
+    { action: "confirm_handoff" },
+    { action: "draw" },
+    { action: "end_turn" },
+    { action: "declare_last_card" },
+    { action: "resolve_response" },
+    { action: "seven_dispute_accept" },
+    { action: "jack_accept" },
+    { action: "ace_accept" },
+    ...cardActions.flatMap((action) => hand.map((c) => ({ action, card: c }) as GameAction)),
+  ];
+}
+
+function sameAction(a: GameAction, b: GameAction): boolean {
+  const action = (x: GameAction) =>
+    x.action === "cancel_response" ? "deflect_response" : x.action;
+  if (action(a) !== action(b)) return false;
+  return !("card" in a) || ("card" in b && cardEquals(a.card, b.card));
+}
+
+describe("getLegalActions", () => {
+  it("should list nothing for a player who is not acting", () => {
+    const state = withHands(createTestState(), [[card("6", "hearts")], [card("6", "clubs")]]);
+    expect(getLegalActions(state, 1)).toEqual([]);
+    expect(getLegalActions(createTestState({ winner: 0, turnPhase: "game-over" }), 0)).toEqual([]);
+  });
+
+  it("should list draws, Last Card and plays with their inactive variants", () => {
+    const state = withHands(createTestState(), [
+      [card("6", "hearts"), card("2", "diamonds"), card("9", "clubs")],
+      [card("K", "spades")],
+    ]);
+    expect(getLegalActions(state, 0)).toEqual([
+      { action: "declare_last_card" },
+      { action: "draw" },
+      { action: "play_cards", cards: [card("6", "hearts")], chosenSuit: undefined },
+      { action: "play_cards", cards: [card("2", "diamonds")], chosenSuit: undefined },
+      {
+        action: "play_cards",
+        cards: [card("2", "diamonds")],
+        chosenSuit: undefined,
+        activateEffect: false,
+      },
+    ]);
+  });
+
+  it("should only list an empty draw when there is no play", () => {
+    // Nothing to draw and nothing under the top card to recycle
+    const state = createTestState({ drawPile: [] });
+    const canPlay = withHands(state, [[card("6", "hearts")], [card("K", "spades")]]);
+    expect(getLegalActions(canPlay, 0)).not.toContainEqual({ action: "draw" });
+    expect(isActionLegal(canPlay, 0, { action: "draw" })).toBe(false);
+
+    const stuck = withHands(state, [[card("9", "clubs")], [card("K", "spades")]]);
+    expect(getLegalActions(stuck, 0)).toContainEqual({ action: "draw" });
+  });
+
+  it("should list the responses to a draw chain", () => {
+    const state = withHands(
+      createTestState({
+        discardPile: [card("2", "diamonds")],
+        pendingEffects: { forcedDrawCount: 2, skipNextPlayer: false },
+        turnPhase: "can-end",
+        responsePhase: "responding",
+        responseChainRank: "2",
+        respondingPlayerIndex: 1,
+      }),
+      [[card("3", "spades")], [card("2", "clubs"), card("7", "diamonds"), card("2", "clubs")]]
+    );
+    expect(getLegalActions(state, 1)).toEqual([
+      { action: "deflect_response", card: card("2", "clubs") },
+      { action: "seven_cancel_effect", card: card("7", "diamonds") },
+      { action: "resolve_response" },
+    ]);
+    expect(getLegalCards(state, 1, "deflect_response")).toEqual([card("2", "clubs")]);
+    // The attacker's "can-end" phase does not let the responder end the turn
+    expect(isActionLegal(state, 1, { action: "end_turn" })).toBe(false);
+    expect(applyAction(state, 1, { action: "end_turn" }).ok).toBe(false);
+  });
+
+  it("should agree with applyAction throughout random games", () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      let state = initializeGame(3, seed);
+      let rng = createRngState(seed);
+      for (let step = 0; step < 150 && state.winner === null; step++) {
+        const player = getActingPlayerIndex(state);
+        const legal = getLegalActions(state, player, { multiCardPlays: false });
+        expect(legal.length).toBeGreaterThan(0);
+
+        for (const action of proposeNonPlayActions(state)) {
+          const listed = legal.some((l) => sameAction(l, action));
+          expect(applyAction(state, player, action).ok).toBe(listed);
+        }
+
+        const [value, next] = nextRandom(rng);
+        rng = next;
+        const result = applyAction(state, player, legal[Math.floor(value * legal.length)]);
+        if (!result.ok) throw new Error(result.error);
+        state = result.state;
+      }
+    }
+  });
+});
+
+describe("action events", () => {
+  const eventsOf = (state: GameState, playerIndex: number, action: GameAction) => {
+    const result = applyAction(state, playerIndex, action);
+    if (!result.ok) throw new Error(result.error);
+    return result.events;
+  };
+
+  it("should report a play and the turn it passes to", () => {
+    const state = withHands(createTestState(), [
+      [card("6", "hearts"), card("3", "spades"), card("4", "spades")],
+      [card("K", "spades")],
+    ]);
+    expect(eventsOf(state, 0, { action: "play_cards", cards: [card("6", "hearts")] })).toEqual([
+      {
+        type: "CardsPlayed",
+        playerId: 0,
+        cards: [card("6", "hearts")],
+        chosenSuit: null,
+        activateEffect: true,
+      },
+      { type: "TurnStarted", playerId: 1 },
+    ]);
+  });
+
+  it("should report a draw that recycles the discard pile", () => {
+    const state = withHands(
+      createTestState({
+        drawPile: [],
+        discardPile: [card("K", "clubs"), card("Q", "clubs"), card("2", "hearts")],
+        pendingEffects: { forcedDrawCount: 2, skipNextPlayer: false },
+        turnPhase: "must-draw",
+      }),
+      [[card("9", "spades")], [card("3", "spades")]]
+    );
+    expect(eventsOf(state, 0, { action: "draw" })).toEqual([
+      { type: "CardsDrawn", playerId: 0, count: 2, forced: true, recycled: true },
+      { type: "TurnStarted", playerId: 1 },
+    ]);
+  });
+
+  it("should report a missed Last Card declaration as a penalty", () => {
+    const state = withHands(createTestState(), [
+      [card("6", "hearts"), card("3", "spades")],
+      [card("K", "spades")],
+    ]);
+    const events = eventsOf(state, 0, { action: "play_cards", cards: [card("6", "hearts")] });
+    expect(events).toContainEqual({
+      type: "PenaltyApplied",
+      playerId: 0,
+      drawCount: DEFAULT_RULES.lastCardPenaltyDraw,
+    });
+  });
+
+  it("should report a resolved skip", () => {
+    const state = withHands(createTestState(), [
+      [card("10", "diamonds"), card("3", "spades"), card("4", "spades")],
+      [card("K", "spades")],
+    ]);
+    const played = applyAction(state, 0, { action: "play_cards", cards: [card("10", "diamonds")] });
+    if (!played.ok) throw new Error(played.error);
+    expect(played.events.at(-1)).toEqual({
+      type: "ResponseOpened",
+      window: "chain",
+      responderPlayerId: 1,
+    });
+
+    expect(eventsOf(played.state, 1, { action: "resolve_response" })).toEqual([
+      { type: "EffectResolved", playerId: 1 },
+      { type: "PlayerSkipped", playerId: 1 },
+      { type: "TurnStarted", playerId: 0 },
+    ]);
+  });
+
+  it("should report a direction change when a Jack is accepted", () => {
+    const state = withHands(
+      createTestState({
+        players: [0, 1, 2].map((id) => ({
+          id,
+          hand: [],
+          playerType: "human" as const,
+          declaredLastCard: false,
+          lastCardPenalty: false,
+        })),
+        discardPile: [card("6", "clubs")],
+      }),
+      [[card("J", "clubs"), card("3", "spades"), card("4", "spades")], [card("K", "spades")], []]
+    );
+    const played = applyAction(state, 0, { action: "play_cards", cards: [card("J", "clubs")] });
+    if (!played.ok) throw new Error(played.error);
+
+    expect(eventsOf(played.state, 1, { action: "jack_accept" })).toEqual([
+      { type: "DirectionChanged", direction: "CCW" },
+      { type: "TurnStarted", playerId: 2 },
+    ]);
+  });
+
+  it("should report the finish and the win when the last card is played", () => {
+    const state = withHands(createTestState(), [[card("6", "hearts")], [card("K", "spades")]]);
+    const events = eventsOf(state, 0, { action: "play_cards", cards: [card("6", "hearts")] });
+    expect(events.map((e) => e.type)).toEqual(["CardsPlayed", "PlayerFinished", "GameWon"]);
+    expect(events[2]).toEqual({ type: "GameWon", playerId: 0 });
+  });
+});
+
+describe("explainIllegalAction", () => {
+  const play = (...cards: Card[]): GameAction => ({ action: "play_cards", cards });
+
+  it("should explain plays that break the card rules", () => {
+    const state = withHands(createTestState(), [
+      [card("6", "hearts"), card("6", "spades"), card("9", "clubs"), card("K", "hearts")],
+      [card("K", "spades")],
+    ]);
+    expect(explainIllegalAction(state, 0, play(card("9", "clubs")))).toEqual({
+      code: "no_match",
+      targetSuit: "diamonds",
+      targetRank: "6",
+    });
+    expect(explainIllegalAction(state, 0, play(card("6", "hearts"), card("9", "clubs")))).toEqual({
+      code: "mixed_cards",
+    });
+    expect(explainIllegalAction(state, 0, play(card("Q", "hearts")))).toEqual({
+      code: "card_not_in_hand",
+    });
+    expect(explainIllegalAction(state, 0, play())).toEqual({ code: "no_cards" });
+    expect(explainIllegalAction(state, 0, play(card("6", "hearts"), card("6", "spades")))).toBe(
+      null
+    );
+  });
+
+  it("should require the final play to be a single card", () => {
+    const state = withHands(createTestState(), [
+      [card("6", "hearts"), card("6", "spades")],
+      [card("K", "spades")],
+    ]);
+    const reason = explainIllegalAction(state, 0, play(card("6", "hearts"), card("6", "spades")));
+    expect(reason).toEqual({ code: "final_play_single_card" });
+    expect(describeIllegalReason(reason!)).toBe("Final play must be a single card");
+  });
+
+  it("should explain a play made under a Last Card penalty", () => {
+    const state = createTestState({ turnPhase: "must-draw" });
+    state.players[0] = { ...state.players[0], hand: [card("6", "hearts")], lastCardPenalty: true };
+    const reason = explainIllegalAction(state, 0, play(card("6", "hearts")));
+    expect(reason).toEqual({ code: "last_card_penalty", count: DEFAULT_RULES.lastCardPenaltyDraw });
+  });
+
+  it("should explain response cards that don't answer the window", () => {
+    const state = withHands(
+      createTestState({
+        discardPile: [card("2", "hearts")],
+        pendingEffects: { forcedDrawCount: 2, skipNextPlayer: false },
+        turnPhase: "can-end",
+        responsePhase: "responding",
+        responseChainRank: "2",
+        respondingPlayerIndex: 1,
+      }),
+      [[card("3", "spades")], [card("5", "clubs"), card("7", "clubs")]]
+    );
+    expect(
+      explainIllegalAction(state, 1, { action: "deflect_response", card: card("5", "clubs") })
+    ).toEqual({ code: "wrong_deflection", chainRank: "2", jokerAllowed: false });
+    expect(
+      explainIllegalAction(state, 1, { action: "seven_cancel_effect", card: card("7", "clubs") })
+    ).toEqual({ code: "seven_required", suit: "hearts" });
+    expect(explainIllegalAction(state, 1, { action: "draw" })).toEqual({
+      code: "action_unavailable",
+      action: "draw",
+    });
+    expect(explainIllegalAction(state, 0, { action: "resolve_response" })).toEqual({
+      code: "not_your_turn",
+    });
+  });
+
+  it("should report the reason through applyAction", () => {
+    const state = withHands(createTestState(), [
+      [card("9", "clubs"), card("3", "spades")],
+      [card("K", "spades")],
+    ]);
+    const result = applyAction(state, 0, play(card("9", "clubs")));
+    expect(result).toEqual({
+      ok: false,
+      error: "First card must match the suit (♦) or rank (6)",
+      reason: { code: "no_match", targetSuit: "diamonds", targetRank: "6" },
+    });
+  });
+});
@@ -0,0 +1,546 @@
+/**
+ * Action reducer for Last Card
+ * Validates and applies a single player action - shared by the local store and the server
+ */
+
+import {
+  applyAceAccept,
+  applyAceCancel,
+  applyCancel,
+  applyDeflect,
+  applyForcedDraw,
+  applyJackAccept,
+  applyJackCancel,
+  applyPlay,
+  applyResolve,
+  applySevenCancelEffect,
+  applySevenCancelLastCard,
+  applySevenDisputeAccept,
+  applySevenDisputePlay,
+  applyVoluntaryDraw,
+  canDraw,
+  confirmHandoff,
+  declareLastCard,
+  explainIllegalPlay,
+  getLegalAceCancels,
+  getLegalDeflections,
+  getLegalJackCancels,
+  getLegalSevenCancelsEffect,
+  getLegalSevenCancelsLastCard,
+  getLegalSevenDisputePlays,
+  getSevenCancelSuit,
+  hasLegalPlay,
+  isInAceResponse,
+  isInJackResponse,
+  isInResponsePhase,
+  isInSevenDispute,
+  isJackActive,
+  isSpecialCard,
+  iterateLegalPlays,
+  nextTurn,
+} from "./rules";
+import {
+  Card,
+  cardEquals,
+  GameAction,
+  GameEvent,
+  GameState,
+  IllegalReason,
+  suitToSymbol,
+} from "./types";
+
+export interface ApplyActionOptions {
+  // Skip the "waiting" handoff phase (online play has no shared device to pass)
+  autoConfirmHandoff?: boolean;
+}
+
+export interface LegalActionOptions {
+  // List multi-card plays too (default true) - a large hand can have thousands
+  multiCardPlays?: boolean;
+}
+
+// Actions that name a single card from the player's hand
+export type CardActionType = Extract<GameAction, { card: Card }>["action"];
+
+// Error reported when an action is not available in the current phase
+const ILLEGAL_ACTION_ERRORS: Record<GameAction["action"], string> = {
+  confirm_handoff: "No handoff pending",
+  play_cards: "Illegal play",
+  draw: "Cannot draw now",
+  end_turn: "Cannot end turn now",
+  declare_last_card: "Cannot declare Last Card now",
+  resolve_response: "No effect to resolve",
+  deflect_response: "Illegal deflection",
+  cancel_response: "Illegal cancel",
+  seven_cancel_effect: "Illegal 7 cancel",
+  seven_cancel_last_card: "Illegal 7 challenge",
+  seven_dispute_play: "Illegal 7 in dispute",
+  seven_dispute_accept: "No dispute to accept",
+  jack_accept: "No Jack to respond to",
+  jack_cancel: "Illegal Jack cancel",
+  ace_accept: "No Ace to respond to",
+  ace_cancel: "Illegal Ace cancel",
+};
+
+// On success, events lists what happened in order (including the follow-up transitions)
+export type ActionResult =
+  | { ok: true; state: GameState; events: GameEvent[] }
+  | { ok: false; error: string; reason?: IllegalReason };
+
+/**
+ * Get the index of the player who must act next
+ * (a responder while a response window or dispute is open, otherwise the current player)
+ */
+export function getActingPlayerIndex(state: GameState): number {
+  if (isInSevenDispute(state) && state.sevenDispute) {
+    return state.sevenDispute.responderPlayerId;
+  }
+  if (isInJackResponse(state) && state.jackResponse) {
+    return state.jackResponse.responderPlayerId;
+  }
+  if (isInAceResponse(state) && state.aceResponse) {
+    return state.aceResponse.responderPlayerId;
+  }
+  if (isInResponsePhase(state) && state.respondingPlayerIndex !== null) {
+    return state.respondingPlayerIndex;
+  }
+  return state.currentPlayerIndex;
+}
+
+/**
+ * Check whether any response window or dispute is open
+ */
+function hasOpenWindow(state: GameState): boolean {
+  return (
+    isInResponsePhase(state) ||
+    isInSevenDispute(state) ||
+    isInJackResponse(state) ||
+    isInAceResponse(state)
+  );
+}
+
+/**
+ * One action per distinct card (a second deck can put identical cards in a hand)
+ */
+function* cardActions(
+  cards: Card[],
+  toAction: (card: Card) => GameAction
+): Generator<GameAction, void> {
+  const seen: Card[] = [];
+  for (const card of cards) {
+    if (seen.some((c) => cardEquals(c, card))) continue;
+    seen.push(card);
+    yield toAction(card);
+  }
+}
+
+/**
+ * Every legal action except card plays, in the order a UI would offer them
+ */
+function* iterateNonPlayActions(
+  state: GameState,
+  playerIndex: number
+): Generator<GameAction, void> {
+  if (state.winner !== null || playerIndex !== getActingPlayerIndex(state)) return;
+
+  if (isInSevenDispute(state)) {
+    yield* cardActions(getLegalSevenDisputePlays(state, playerIndex), (card) => ({
+      action: "seven_dispute_play",
+      card,
+    }));
+    yield { action: "seven_dispute_accept" };
+    return;
+  }
+  if (isInJackResponse(state)) {
+    yield* cardActions(getLegalJackCancels(state, playerIndex), (card) => ({
+      action: "jack_cancel",
+      card,
+    }));
+    yield { action: "jack_accept" };
+    return;
+  }
+  if (isInAceResponse(state)) {
+    yield* cardActions(getLegalAceCancels(state, playerIndex), (card) => ({
+      action: "ace_cancel",
+      card,
+    }));
+    yield { action: "ace_accept" };
+    return;
+  }
+  if (isInResponsePhase(state)) {
+    yield* cardActions(getLegalDeflections(state), (card) => ({
+      action: "deflect_response",
+      card,
+    }));
+    yield* cardActions(getLegalSevenCancelsEffect(state, playerIndex), (card) => ({
+      action: "seven_cancel_effect",
+      card,
+    }));
+    yield { action: "resolve_response" };
+    return;
+  }
+
+  switch (state.turnPhase) {
+    case "waiting":
+      yield { action: "confirm_handoff" };
+      return;
+    case "must-draw":
+      yield { action: "draw" };
+      return;
+    case "can-end":
+      yield { action: "end_turn" };
+      return;
+    case "playing":
+      yield* cardActions(getLegalSevenCancelsLastCard(state, playerIndex), (card) => ({
+        action: "seven_cancel_last_card",
+        card,
+      }));
+      if (!state.players[playerIndex].declaredLastCard) {
+        yield { action: "declare_last_card" };
+      }
+      // With nothing left to draw, drawing only passes - offered when there's no play
+      if (canDraw(state) || !hasLegalPlay(state, playerIndex)) {
+        yield { action: "draw" };
+      }
+      return;
+  }
+}
+
+/**
+ * Check whether a play has an effect the player may leave inactive
+ * (2/5/10/Joker, a single Jack while Jacks are active, or a single Ace)
+ */
+function hasOptionalEffect(state: GameState, cards: Card[]): boolean {
+  if (cards.some(isSpecialCard)) return true;
+  if (cards.length !== 1) return false;
+  return cards[0].rank === "A" || (cards[0].rank === "J" && isJackActive(state));
+}
+
+/**
+ * Lazily enumerate every action a player can legally take right now: responses
+ * and accepts, draw, end turn, Last Card, handoff and card plays. Card plays
+ * come last (single cards first, as in iterateLegalPlays), each followed by
+ * its inactive variant when the effect is optional. Empty unless the player
+ * is the one who must act. cancel_response is accepted as an alias of
+ * deflect_response but not listed.
+ */
+export function* iterateLegalActions(
+  state: GameState,
+  playerIndex: number,
+  options: LegalActionOptions = {}
+): Generator<GameAction, void> {
+  yield* iterateNonPlayActions(state, playerIndex);
+
+  if (state.turnPhase !== "playing" || hasOpenWindow(state)) return;
+  if (state.winner !== null || playerIndex !== getActingPlayerIndex(state)) return;
+
+  for (const { play } of iterateLegalPlays(state, playerIndex)) {
+    // Single-card plays are enumerated before multi-card plays
+    if (play.cards.length > 1 && options.multiCardPlays === false) return;
+
+    yield { action: "play_cards", cards: play.cards, chosenSuit: play.chosenSuit };
+    if (hasOptionalEffect(state, play.cards)) {
+      yield {
+        action: "play_cards",
+        cards: play.cards,
+        chosenSuit: play.chosenSuit,
+        activateEffect: false,
+      };
+    }
+  }
+}
+
+/**
+ * Get every action a player can legally take right now (see iterateLegalActions)
+ */
+export function getLegalActions(
+  state: GameState,
+  playerIndex: number,
+  options: LegalActionOptions = {}
+): GameAction[] {
+  return Array.from(iterateLegalActions(state, playerIndex, options));
+}
+
+/**
+ * Get the distinct cards a player can use for one kind of card action right now
+ */
+export function getLegalCards(
+  state: GameState,
+  playerIndex: number,
+  action: CardActionType
+): Card[] {
+  const cards: Card[] = [];
+  for (const legal of iterateNonPlayActions(state, playerIndex)) {
+    if (legal.action === action) cards.push(legal.card);
+  }
+  return cards;
+}
+
+/**
+ * Explain why a card can't be used for a card action (null if that action's
+ * window isn't open, or the card itself is fine and the timing is what's wrong)
+ */
+function explainIllegalCard(
+  state: GameState,
+  playerIndex: number,
+  action: CardActionType,
+  card: Card
+): IllegalReason | null {
+  let reason: IllegalReason;
+  switch (action) {
+    case "seven_dispute_play":
+      if (!isInSevenDispute(state)) return null;
+      reason = { code: "seven_required", suit: null };
+      break;
+    case "jack_cancel":
+      if (!state.jackResponse) return null;
+      reason = { code: "jack_cancel_required", suit: state.jackResponse.jackSuit };
+      break;
+    case "ace_cancel":
+      if (!state.aceResponse) return null;
+      reason = { code: "seven_required", suit: state.aceResponse.aceSuit };
+      break;
+    case "deflect_response":
+    case "cancel_response": {
+      const chainRank = state.responseChainRank;
+      if (!isInResponsePhase(state) || !chainRank) return null;
+      reason = {
+        code: "wrong_deflection",
+        chainRank,
+        jokerAllowed: state.rules.jokers && chainRank !== "10",
+      };
+      break;
+    }
+    case "seven_cancel_effect":
+      if (!isInResponsePhase(state)) return null;
+      reason = { code: "seven_required", suit: getSevenCancelSuit(state) };
+      break;
+    case "seven_cancel_last_card": {
+      const suit = getSevenCancelSuit(state);
+      if (!state.lastCardClaim || (card.rank === "7" && (suit === null || card.suit === suit))) {
+        return null;
+      }
+      reason = { code: "seven_required", suit };
+      break;
+    }
+  }
+
+  const inHand = state.players[playerIndex].hand.some((c) => cardEquals(c, card));
+  return inHand ? reason : { code: "card_not_in_hand" };
+}
+
+/**
+ * Explain why an action is not legal for a player right now. Agrees exactly
+ * with getLegalActions, but validates card plays directly instead of
+ * enumerating them.
+ * @returns The reason the action is rejected, or null if it is legal
+ */
+export function explainIllegalAction(
+  state: GameState,
+  playerIndex: number,
+  action: GameAction
+): IllegalReason | null {
+  if (state.winner !== null) return { code: "game_over" };
+  if (playerIndex !== getActingPlayerIndex(state)) return { code: "not_your_turn" };
+
+  if (action.action === "play_cards") {
+    const canPlay = state.turnPhase === "playing" && !hasOpenWindow(state);
+    // A pending draw explains the rejection better than the phase does
+    const reason =
+      canPlay || state.turnPhase === "must-draw"
+        ? explainIllegalPlay(state, playerIndex, action)
+        : null;
+    if (reason) return reason;
+    return canPlay ? null : { code: "action_unavailable", action: "play_cards" };
+  }
+
+  const wanted = action.action === "cancel_response" ? "deflect_response" : action.action;
+  const card = "card" in action ? action.card : null;
+  for (const legal of iterateNonPlayActions(state, playerIndex)) {
+    if (legal.action !== wanted) continue;
+    if (!card || ("card" in legal && cardEquals(legal.card, card))) return null;
+  }
+
+  const cardReason = card && explainIllegalCard(state, playerIndex, wanted as CardActionType, card);
+  return cardReason || { code: "action_unavailable", action: action.action };
+}
+
+/**
+ * Check whether an action is legal for a player right now (see explainIllegalAction)
+ */
+export function isActionLegal(state: GameState, playerIndex: number, action: GameAction): boolean {
+  return explainIllegalAction(state, playerIndex, action) === null;
+}
+
+const RANK_NAMES: Record<string, string> = { J: "Jack", Q: "Queen", K: "King", A: "Ace" };
+
+/**
+ * Describe an illegal-action reason as a message for the player
+ */
+export function describeIllegalReason(reason: IllegalReason): string {
+  switch (reason.code) {
+    case "game_over":
+      return "Game is over";
+    case "not_your_turn":
+      return "Not your turn";
+    case "action_unavailable":
+      return ILLEGAL_ACTION_ERRORS[reason.action] ?? "Unknown action";
+    case "must_draw":
+      return `You must draw ${reason.count} card${reason.count === 1 ? "" : "s"} first`;
+    case "last_card_penalty":
+      return `You are under a Last Card penalty - draw ${reason.count} first`;
+    case "no_cards":
+      return "Select at least one card";
+    case "card_not_in_hand":
+      return "That card is not in your hand";
+    case "suit_choice_required":
+      return "Choose a suit for the Ace";
+    case "suit_choice_not_allowed":
+      return "Only a play ending on an Ace can choose a suit";
+    case "no_match":
+      return `First card must match the suit (${suitToSymbol(reason.targetSuit)}) or rank (${
+        RANK_NAMES[reason.targetRank] ?? reason.targetRank
+      })`;
+    case "ace_on_ace":
+      return `An Ace can only go on an Ace of the same suit (${suitToSymbol(reason.targetSuit)})`;
+    case "too_many_cards":
+      return `You can play at most ${reason.max} cards at once`;
+    case "final_play_single_card":
+      return "Final play must be a single card";
+    case "joker_not_alone":
+      return "A Joker must be played on its own";
+    case "mixed_cards":
+      return "Cards played together must share a rank or a suit";
+    case "wrong_deflection":
+      return `Only a ${RANK_NAMES[reason.chainRank] ?? reason.chainRank}${
+        reason.jokerAllowed ? " or a Joker" : ""
+      } can pass this on`;
+    case "seven_required":
+      return reason.suit ? `You need the 7 of ${suitToSymbol(reason.suit)}` : "You need a 7";
+    case "jack_cancel_required":
+      return `Cancel with the 7 of ${suitToSymbol(reason.suit)} or any Jack`;
+  }
+}
+
+/**
+ * Apply a player action, validating it against the current state first
+ * (with explainIllegalAction, so it accepts exactly what getLegalActions lists).
+ * Handles the follow-up transitions (advancing the turn after a play or draw,
+ * after a cancelled effect dispute) so callers only dispatch.
+ */
+export function applyAction(
+  state: GameState,
+  playerIndex: number,
+  action: GameAction,
+  options: ApplyActionOptions = {}
+): ActionResult {
+  const reason = explainIllegalAction(state, playerIndex, action);
+  if (reason) {
+    return { ok: false, error: describeIllegalReason(reason), reason };
+  }
+
+  const events: GameEvent[] = [];
+  let next: GameState;
+
+  switch (action.action) {
+    case "confirm_handoff":
+      next = confirmHandoff(state);
+      break;
+
+    case "play_cards":
+      next = applyPlay(
+        state,
+        {
+          cards: action.cards,
+          chosenSuit: action.chosenSuit,
+          activateEffect: action.activateEffect,
+        },
+        events
+      );
+
+      // Auto-advance turn unless the play opened a response window or won
+      if (next.winner === null && !hasOpenWindow(next)) {
+        next = nextTurn(next, events);
+      }
+      break;
+
+    case "draw": {
+      const player = state.players[playerIndex];
+      next =
+        state.pendingEffects.forcedDrawCount > 0 || player.lastCardPenalty
+          ? applyForcedDraw(state, events)
+          : applyVoluntaryDraw(state, events);
+
+      // Auto-advance turn after drawing
+      next = nextTurn(next, events);
+      break;
+    }
+
+    case "end_turn":
+      next = nextTurn(state, events);
+      break;
+
+    case "declare_last_card":
+      next = declareLastCard(state, events);
+      break;
+
+    case "resolve_response":
+      next = applyResolve(state, events);
+      break;
+
+    case "deflect_response":
+      next = applyDeflect(state, action.card, events);
+      break;
+
+    case "cancel_response":
+      next = applyCancel(state, action.card, events);
+      break;
+
+    case "seven_cancel_effect":
+      next = applySevenCancelEffect(state, action.card, events);
+      break;
+
+    case "seven_cancel_last_card":
+      next = applySevenCancelLastCard(state, action.card, events);
+      break;
+
+    case "seven_dispute_play":
+      next = applySevenDisputePlay(state, action.card, events);
+      break;
+
+    case "seven_dispute_accept":
+      next = applySevenDisputeAccept(state, events);
+
+      // A cancelled EFFECT dispute leaves the attacker's turn finished (as does
+      // going out with the last 7 of a Last Card dispute)
+      if (next.turnPhase === "can-end" && next.winner === null) {
+        next = nextTurn(next, events);
+      }
+      break;
+
+    case "jack_accept":
+      next = applyJackAccept(state, events);
+      break;
+
+    case "jack_cancel":
+      next = applyJackCancel(state, action.card, events);
+      break;
+
+    case "ace_accept":
+      next = applyAceAccept(state, events);
+      break;
+
+    case "ace_cancel":
+      next = applyAceCancel(state, action.card, events);
+      break;
+
+    default:
+      return { ok: false, error: "Unknown action" };
+  }
+
+  if (options.autoConfirmHandoff && next.turnPhase === "waiting" && next.winner === null) {
+    next = confirmHandoff(next);
+  }
+
+  return { ok: true, state: next, events };
+}
@@ -0,0 +1,276 @@
+/**
+ * AI Strategy Tests
+ * Every strategy must only choose legal actions and finish games; the levels
+ * differ in how they respond and which play they pick
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  AI_DIFFICULTIES,
+  AIStrategy,
+  createExpertAI,
+  easyAI,
+  getAIStrategy,
+  hardAI,
+  normalAI,
+} from "./ai";
+import { applyAction, getActingPlayerIndex, isActionLegal } from "./actions";
+import { createRngState, nextRandom } from "./deck";
+import { assertInvariants } from "./invariants";
+import { initializeGame } from "./rules";
+import { DEFAULT_RULES } from "./ruleset";
+import { Card, GameState, RngState, Suit } from "./types";
+
+const card = (rank: string, suit: Suit): Card => ({ rank: rank as Card["rank"], suit });
+
+function createTestState(overrides: Partial<GameState> = {}): GameState {
+  return {
+    rules: DEFAULT_RULES,
+    rng: createRngState(0),
+    players: [
+      { id: 0, hand: [], playerType: "ai", declaredLastCard: false, lastCardPenalty: false },
+      { id: 1, hand: [], playerType: "ai", declaredLastCard: false, lastCardPenalty: false },
+    ],
+    currentPlayerIndex: 0,
+    drawPile: [card("K", "clubs"), card("Q", "clubs"), card("J", "clubs")],
+    discardPile: [card("6", "diamonds")],
+    chosenSuit: null,
+    pendingEffects: { forcedDrawCount: 0, skipNextPlayer: false },
+    turnPhase: "playing",
+    winner: null,
+    finishingOrder: [],
+    lastPlayWasSpecial: false,
+    direction: "CW",
+    responsePhase: null,
+    responseChainRank: null,
+    respondingPlayerIndex: null,
+    sevenDispute: null,
+    lastCardClaim: null,
+    turnNumber: 0,
+    jackResponse: null,
+    aceResponse: null,
+    ...overrides,
+  };
+}
+
+function withHands(state: GameState, hands: Card[][]): GameState {
+  return { ...state, players: state.players.map((p, i) => ({ ...p, hand: hands[i] ?? p.hand })) };
+}
+
+// Deterministic stand-in for Math.random
+function seededRandom(seed: number): () => number {
+  let rng: RngState = createRngState(seed);
+  return () => {
+    const [value, next] = nextRandom(rng);
+    rng = next;
+    return value;
+  };
+}
+
+// Play a game with one strategy for every player, checking each action and state
+function playGame(strategy: AIStrategy, seed: number, playerCount: number): GameState {
+  const random = seededRandom(seed);
+  let state = initializeGame(playerCount, seed, undefined, { jokers: true });
+  for (let step = 0; step < 3000 && state.winner === null; step++) {
+    const player = getActingPlayerIndex(state);
+    const action = strategy.chooseAction(state, player, random);
+    expect(action).not.toBeNull();
+    expect(isActionLegal(state, player, action!)).toBe(true);
+
+    const result = applyAction(state, player, action!);
+    if (!result.ok) throw new Error(result.error);
+    state = result.state;
+    assertInvariants(state);
+  }
+  return state;
+}
+
+// A 2 on the discard pile, with player 1 asked to respond
+const drawChain = createTestState({
+  discardPile: [card("2", "diamonds")],
+  pendingEffects: { forcedDrawCount: 2, skipNextPlayer: false },
+  turnPhase: "can-end",
+  responsePhase: "responding",
+  responseChainRank: "2",
+  respondingPlayerIndex: 1,
+});
+
+describe("AI strategies", () => {
+  it.each(["easy", "normal", "hard"] as const)(
+    "%s should play complete games with legal actions only",
+    (level) => {
+      for (let seed = 1; seed <= 5; seed++) {
+        expect(playGame(getAIStrategy(level), seed, 3).winner).not.toBeNull();
+      }
+    }
+  );
+
+  it("should only act for the player who must act", () => {
+    const state = withHands(createTestState(), [[card("6", "hearts")], [card("6", "clubs")]]);
+    for (const level of AI_DIFFICULTIES) {
+      expect(getAIStrategy(level).chooseAction(state, 1)).toBeNull();
+    }
+  });
+
+  it("should accept a draw chain on Easy but deflect it on Normal and Hard", () => {
+    const state = withHands(drawChain, [[card("3", "spades")], [card("2", "clubs")]]);
+    expect(easyAI.chooseAction(state, 1)).toEqual({ action: "resolve_response" });
+    const deflect = { action: "deflect_response", card: card("2", "clubs") };
+    expect(normalAI.chooseAction(state, 1)).toEqual(deflect);
+    expect(hardAI.chooseAction(state, 1)).toEqual(deflect);
+  });
+
+  it("should declare Last Card before a play that leaves one card", () => {
+    const state = withHands(createTestState(), [
+      [card("6", "hearts"), card("9", "spades")],
+      [card("3", "clubs")],
+    ]);
+    expect(normalAI.chooseAction(state, 0)).toEqual({ action: "declare_last_card" });
+    expect(hardAI.chooseAction(state, 0)).toEqual({ action: "declare_last_card" });
+  });
+
+  it("should shed a set and keep its 7 on Hard", () => {
+    const state = withHands(createTestState(), [
+      [card("7", "diamonds"), card("8", "diamonds"), card("8", "clubs"), card("K", "spades")],
+      [card("3", "clubs")],
+    ]);
+    const action = hardAI.chooseAction(state, 0);
+    expect(action?.action).toBe("play_cards");
+    if (action?.action !== "play_cards") return;
+    expect(action.cards).toHaveLength(2);
+    expect(action.cards.every((c) => c.rank === "8")).toBe(true);
+  });
+
+  it("should choose the Ace suit it holds most of on Hard", () => {
+    const state = withHands(createTestState(), [
+      [card("A", "diamonds"), card("4", "spades"), card("9", "spades"), card("K", "hearts")],
+      [card("3", "clubs")],
+    ]);
+    expect(hardAI.chooseAction(state, 0)).toEqual({
+      action: "play_cards",
+      cards: [card("A", "diamonds")],
+      chosenSuit: "spades",
+    });
+  });
+});
+
+describe("response heuristics", () => {
+  it("should spend a 7 only on a big pick-up", () => {
+    const hands = [
+      [card("3", "spades"), card("5", "clubs"), card("6", "clubs")],
+      [card("7", "diamonds"), card("K", "clubs"), card("4", "hearts"), card("9", "hearts")],
+    ];
+    const small = withHands(drawChain, hands);
+    expect(normalAI.chooseAction(small, 1)).toEqual({ action: "resolve_response" });
+
+    const big = { ...small, pendingEffects: { forcedDrawCount: 4, skipNextPlayer: false } };
+    expect(normalAI.chooseAction(big, 1)).toEqual({
+      action: "seven_cancel_effect",
+      card: card("7", "diamonds"),
+    });
+  });
+
+  it("should keep its last 7 while an opponent is close to going out", () => {
+    const state = withHands(
+      { ...drawChain, pendingEffects: { forcedDrawCount: 4, skipNextPlayer: false } },
+      [
+        [card("3", "spades"), card("5", "clubs")],
+        [card("7", "diamonds"), card("K", "clubs"), card("4", "hearts"), card("9", "hearts")],
+      ]
+    );
+    expect(hardAI.chooseAction(state, 1)).toEqual({ action: "resolve_response" });
+  });
+
+  it("should cancel a Jack with another Jack rather than a 7", () => {
+    const state = withHands(
+      createTestState({
+        discardPile: [card("J", "diamonds")],
+        turnPhase: "can-end",
+        jackResponse: { jackPlayerId: 0, responderPlayerId: 1, jackSuit: "diamonds" },
+      }),
+      [
+        [card("3", "spades"), card("5", "clubs"), card("6", "clubs")],
+        [card("7", "diamonds"), card("J", "spades"), card("4", "hearts")],
+      ]
+    );
+    expect(normalAI.chooseAction(state, 1)).toEqual({
+      action: "jack_cancel",
+      card: card("J", "spades"),
+    });
+  });
+
+  it("should cancel an Ace only when it can't follow the new suit", () => {
+    const aceState = (hand: Card[]) =>
+      withHands(
+        createTestState({
+          discardPile: [card("A", "diamonds")],
+          chosenSuit: "spades",
+          turnPhase: "can-end",
+          aceResponse: {
+            acePlayerId: 0,
+            responderPlayerId: 1,
+            aceSuit: "diamonds",
+            chosenSuit: "spades",
+          },
+        }),
+        [[card("3", "hearts"), card("5", "clubs"), card("6", "clubs")], hand]
+      );
+    const cancel = { action: "ace_cancel", card: card("7", "diamonds") };
+    expect(hardAI.chooseAction(aceState([card("7", "diamonds"), card("4", "hearts")]), 1)).toEqual(
+      cancel
+    );
+    expect(hardAI.chooseAction(aceState([card("7", "diamonds"), card("4", "spades")]), 1)).toEqual({
+      action: "ace_accept",
+    });
+  });
+
+  it("should always challenge a Last Card claim", () => {
+    const state = withHands(
+      createTestState({
+        discardPile: [card("9", "diamonds")],
+        lastCardClaim: { playerId: 1, turnNumberCreated: 0 },
+        turnNumber: 1,
+      }),
+      [[card("7", "diamonds"), card("9", "clubs")], [card("3", "clubs")]]
+    );
+    expect(normalAI.chooseAction(state, 0)).toEqual({
+      action: "seven_cancel_last_card",
+      card: card("7", "diamonds"),
+    });
+  });
+});
+
+describe("expert AI", () => {
+  // Small fixed budget so results don't depend on machine speed
+  const expert = createExpertAI({ iterations: 12, timeBudgetMs: Infinity, maxPlayoutSteps: 80 });
+
+  it("should play a complete game with legal actions only", () => {
+    expect(playGame(expert, 3, 2).winner).not.toBeNull();
+  });
+
+  it("should choose the same action whatever the hidden cards are", () => {
+    const hands = [
+      [card("6", "hearts"), card("9", "diamonds"), card("K", "spades")],
+      [card("3", "clubs"), card("4", "clubs")],
+    ];
+    const state = withHands(createTestState(), hands);
+    const swapped = withHands(
+      { ...state, drawPile: [card("Q", "clubs"), card("J", "clubs"), card("K", "clubs")] },
+      [hands[0], [card("J", "clubs"), card("K", "clubs")]]
+    );
+    expect(expert.chooseAction(swapped, 0, seededRandom(5))).toEqual(
+      expert.chooseAction(state, 0, seededRandom(5))
+    );
+  });
+
+  it("should go out when it can", () => {
+    const state = withHands(createTestState(), [
+      [card("9", "diamonds")],
+      [card("3", "clubs"), card("4", "clubs")],
+    ]);
+    expect(expert.chooseAction(state, 0, seededRandom(1))).toEqual({
+      action: "play_cards",
+      cards: [card("9", "diamonds")],
+    });
+  });
+});
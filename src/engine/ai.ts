@@ -0,0 +1,417 @@
+/**
+ * AI strategies for Last Card
+ * Each strategy picks one legal action at a time for whoever must act, so the
+ * local store and the game server drive AI players identically. A turn that
+ * declares Last Card and then plays takes two calls.
+ */
+
+import { applyAction, getActingPlayerIndex, iterateLegalActions } from "./actions";
+import { canDeclareLastCard, getNextPlayerIndex, isSpecialCard } from "./rules";
+import { Card, GameAction, GameState, Suit } from "./types";
+import { getPlayerView, PlayerView, sampleGameState } from "./view";
+
+export type AIDifficulty = "easy" | "normal" | "hard" | "expert";
+
+export const AI_DIFFICULTIES: AIDifficulty[] = ["easy", "normal", "hard", "expert"];
+
+export interface AIStrategy {
+  difficulty: AIDifficulty;
+  /**
+   * Choose the next action for a player (null if it isn't their move)
+   * @param random Source of randomness in [0, 1), for strategies that use it
+   */
+  chooseAction(state: GameState, playerIndex: number, random?: () => number): GameAction | null;
+}
+
+type ActionType = GameAction["action"];
+type PlayAction = Extract<GameAction, { action: "play_cards" }>;
+
+// Plays scored per decision - enumerating every ordering of a big hand is too slow
+const MAX_SCORED_PLAYS = 200;
+
+/**
+ * Collect a player's legal actions, keeping at most maxPlays card plays
+ * (single cards come first, so a limit of 1 means a single-card play if there is one)
+ */
+function collectActions(state: GameState, playerIndex: number, maxPlays: number): GameAction[] {
+  if (playerIndex !== getActingPlayerIndex(state)) return [];
+
+  const actions: GameAction[] = [];
+  let plays = 0;
+  for (const action of iterateLegalActions(state, playerIndex)) {
+    if (action.action === "play_cards" && plays++ >= maxPlays) break;
+    actions.push(action);
+  }
+  return actions;
+}
+
+function findAction(actions: GameAction[], types: readonly ActionType[]): GameAction | null {
+  for (const type of types) {
+    const action = actions.find((a) => a.action === type);
+    if (action) return action;
+  }
+  return null;
+}
+
+function getPlays(actions: GameAction[]): PlayAction[] {
+  return actions.filter((a): a is PlayAction => a.action === "play_cards");
+}
+
+/**
+ * Declare Last Card first if the play would leave exactly one card
+ */
+function withDeclaration(state: GameState, actions: GameAction[], play: PlayAction): GameAction {
+  const declare = actions.find((a) => a.action === "declare_last_card");
+  return declare && canDeclareLastCard(state, play.cards) ? declare : play;
+}
+
+// Actions that simply move the game along when nothing else is wanted
+const PROCEED = ["confirm_handoff", "end_turn"] as const;
+
+// Accepting every response window, for strategies that never contest one
+const ACCEPT = ["seven_dispute_accept", "jack_accept", "ace_accept", "resolve_response"] as const;
+
+// A pending pick-up this big is worth spending a 7 on
+const SEVEN_CANCEL_DRAW_THRESHOLD = 4;
+
+/**
+ * Whether a player should hold on to their only 7: an opponent close to going
+ * out may claim Last Card, and a 7 is the only way to challenge it
+ */
+function shouldKeepSeven(state: GameState, playerIndex: number): boolean {
+  const sevens = state.players[playerIndex].hand.filter((c) => c.rank === "7").length;
+  const opponentClose = state.players.some(
+    (p) => p.id !== playerIndex && p.hand.length > 0 && p.hand.length <= 2
+  );
+  return sevens <= 1 && opponentClose;
+}
+
+function findCardAction(
+  actions: GameAction[],
+  type: ActionType,
+  prefer: (card: Card) => boolean = () => true
+): GameAction | null {
+  const options = actions.filter((a) => a.action === type && "card" in a);
+  return options.find((a) => "card" in a && prefer(a.card)) ?? options[0] ?? null;
+}
+
+/**
+ * Respond to an open window or a Last Card claim using the same judgement a
+ * careful player would (null if there is nothing to respond to):
+ * - always keep a 7 dispute going and always challenge a Last Card claim
+ * - deflect 2/5/10/Joker chains when possible; spend a 7 on a pending effect
+ *   only for a big pick-up, or any effect when close to going out
+ * - cancel Jacks (with another Jack rather than a 7 when possible)
+ * - cancel an Ace's suit change only when holding nothing of the new suit
+ * A 7 is kept back instead when it's the last one and an opponent is close to out.
+ */
+function chooseResponse(
+  state: GameState,
+  playerIndex: number,
+  actions: GameAction[]
+): GameAction | null {
+  const hand = state.players[playerIndex].hand;
+  const keepSeven = shouldKeepSeven(state, playerIndex);
+
+  if (state.sevenDispute) {
+    return findAction(actions, ["seven_dispute_play", "seven_dispute_accept"]);
+  }
+  if (state.jackResponse) {
+    const cancel = findCardAction(actions, "jack_cancel", (card) => card.rank === "J");
+    const isSeven = cancel && "card" in cancel && cancel.card.rank === "7";
+    return cancel && !(isSeven && keepSeven) ? cancel : findAction(actions, ["jack_accept"]);
+  }
+  if (state.aceResponse) {
+    const { chosenSuit } = state.aceResponse;
+    const canFollow = hand.some((c) => c.suit === chosenSuit || c.rank === "A");
+    const cancel = findAction(actions, ["ace_cancel"]);
+    return cancel && !canFollow && !keepSeven ? cancel : findAction(actions, ["ace_accept"]);
+  }
+  if (state.responsePhase) {
+    const deflect = findAction(actions, ["deflect_response"]);
+    if (deflect) return deflect;
+    const { forcedDrawCount } = state.pendingEffects;
+    const worthASeven = forcedDrawCount >= SEVEN_CANCEL_DRAW_THRESHOLD || hand.length <= 3;
+    const cancel = findAction(actions, ["seven_cancel_effect"]);
+    return cancel && worthASeven && !keepSeven ? cancel : findAction(actions, ["resolve_response"]);
+  }
+  return findAction(actions, ["seven_cancel_last_card"]);
+}
+
+/**
+ * Easy: accepts everything, plays a random legal card, draws a fifth of the
+ * time it could play, and forgets to declare Last Card half the time
+ */
+export const easyAI: AIStrategy = {
+  difficulty: "easy",
+  chooseAction(state, playerIndex, random = Math.random) {
+    const actions = collectActions(state, playerIndex, MAX_SCORED_PLAYS);
+    const response = findAction(actions, [...ACCEPT, ...PROCEED]);
+    if (response) return response;
+
+    const plays = getPlays(actions).filter((p) => p.cards.length === 1);
+    const draw = findAction(actions, ["draw"]);
+    if (plays.length === 0 || (draw && random() < 0.2)) return draw;
+
+    const play = plays[Math.floor(random() * plays.length)];
+    return random() < 0.5 ? withDeclaration(state, actions, play) : play;
+  },
+};
+
+/**
+ * Normal: responds with the shared heuristics (see chooseResponse) and plays
+ * the first legal play (single cards first)
+ */
+export const normalAI: AIStrategy = {
+  difficulty: "normal",
+  chooseAction(state, playerIndex) {
+    const actions = collectActions(state, playerIndex, 1);
+    const response = chooseResponse(state, playerIndex, actions) ?? findAction(actions, PROCEED);
+    if (response) return response;
+
+    const [play] = getPlays(actions);
+    if (play) return withDeclaration(state, actions, play);
+    return findAction(actions, ["draw"]);
+  },
+};
+
+function countSuit(cards: Card[], suit: Suit): number {
+  return cards.filter((c) => c.suit === suit).length;
+}
+
+/**
+ * Score a play for the Hard strategy: shed as many cards as possible, keep 7s,
+ * Aces and pick-up cards back for defence unless the next player is close to
+ * going out, and leave a top card (or Ace suit) the rest of the hand can follow
+ */
+function scorePlay(state: GameState, playerIndex: number, play: PlayAction): number {
+  const hand = state.players[playerIndex].hand;
+  const remaining = [...hand];
+  for (const card of play.cards) {
+    const index = remaining.findIndex((c) => c.rank === card.rank && c.suit === card.suit);
+    if (index >= 0) remaining.splice(index, 1);
+  }
+  if (remaining.length === 0) return 1000; // Going out
+
+  const next = state.players[getNextPlayerIndex(state, playerIndex)];
+  const nextIsClose = next.hand.length <= 2;
+
+  let score = play.cards.length * 10;
+  for (const card of play.cards) {
+    if (card.rank === "7") score -= 8;
+    if (card.rank === "A") score -= 6;
+    if (isSpecialCard(card)) score += nextIsClose ? 15 : -4;
+  }
+  // Leaving an effect unused only makes sense for the player who benefits from it
+  if (play.activateEffect === false) score -= 20;
+
+  const top = play.cards[play.cards.length - 1];
+  const suit = play.chosenSuit ?? top.suit;
+  score += countSuit(remaining, suit) * 2;
+  if (!play.chosenSuit) score += remaining.filter((c) => c.rank === top.rank).length;
+  return score;
+}
+
+/**
+ * Hard: responds with the shared heuristics (see chooseResponse), always
+ * declares Last Card and picks the best-scoring play (multi-card plays included)
+ */
+export const hardAI: AIStrategy = {
+  difficulty: "hard",
+  chooseAction(state, playerIndex) {
+    const actions = collectActions(state, playerIndex, MAX_SCORED_PLAYS);
+    const response = chooseResponse(state, playerIndex, actions) ?? findAction(actions, PROCEED);
+    if (response) return response;
+
+    let best: PlayAction | null = null;
+    let bestScore = -Infinity;
+    for (const play of getPlays(actions)) {
+      const score = scorePlay(state, playerIndex, play);
+      if (score > bestScore) {
+        best = play;
+        bestScore = score;
+      }
+    }
+    if (best) return withDeclaration(state, actions, best);
+    return findAction(actions, ["draw"]);
+  },
+};
+
+export interface ExpertOptions {
+  iterations?: number; // Playouts per decision (default 300)
+  timeBudgetMs?: number; // Stop after this long once each option has a playout (default 250)
+  maxPlayoutSteps?: number; // Playouts still going after this many actions score by hand size
+}
+
+const DEFAULT_EXPERT_ITERATIONS = 300;
+const DEFAULT_EXPERT_TIME_BUDGET_MS = 250;
+const DEFAULT_MAX_PLAYOUT_STEPS = 300;
+
+// Plays the Expert simulates per decision, best Hard scores first
+const MAX_EXPERT_PLAYS = 12;
+
+/**
+ * Apply a candidate action in a simulation, declaring Last Card first when the
+ * play calls for it (as withDeclaration does for real)
+ */
+function applyCandidate(state: GameState, playerIndex: number, action: GameAction): GameState {
+  if (
+    action.action === "play_cards" &&
+    canDeclareLastCard(state, action.cards) &&
+    state.currentPlayerIndex === playerIndex
+  ) {
+    const declared = applyAction(state, playerIndex, { action: "declare_last_card" });
+    if (declared.ok) state = declared.state;
+  }
+  const result = applyAction(state, playerIndex, action, { autoConfirmHandoff: true });
+  if (!result.ok) throw new Error(`Expert AI candidate was rejected: ${result.error}`);
+  return result.state;
+}
+
+/**
+ * Score a finished (or abandoned) playout for a player: 1 for first place down
+ * to 0 for last, or under 0.5 by hand size if nobody has won yet
+ */
+function scorePlayout(state: GameState, playerIndex: number): number {
+  const place = state.finishingOrder.indexOf(playerIndex);
+  if (place >= 0) return 1 - place / (state.players.length - 1);
+
+  const mine = state.players[playerIndex].hand.length;
+  const others = state.players.filter((p) => p.id !== playerIndex && p.hand.length > 0);
+  const fewest = Math.min(...others.map((p) => p.hand.length));
+  return 0.5 * (fewest / (mine + fewest));
+}
+
+/**
+ * Play a sampled game out with the Normal strategy for every player
+ */
+function playout(
+  state: GameState,
+  playerIndex: number,
+  maxSteps: number,
+  random: () => number
+): number {
+  for (let step = 0; step < maxSteps && state.winner === null; step++) {
+    const actor = getActingPlayerIndex(state);
+    const action = normalAI.chooseAction(state, actor, random);
+    if (!action) break;
+    const result = applyAction(state, actor, action, { autoConfirmHandoff: true });
+    if (!result.ok) break;
+    state = result.state;
+  }
+  return scorePlayout(state, playerIndex);
+}
+
+/**
+ * Narrow a player's legal actions to the ones the Expert weighs: everything
+ * but plays and declarations, then the best plays by the Hard score
+ * (declaring Last Card comes with the play, see applyCandidate)
+ */
+function selectCandidates(
+  state: GameState,
+  playerIndex: number,
+  actions: GameAction[]
+): GameAction[] {
+  const plays = getPlays(actions)
+    .map((play) => ({ play, score: scorePlay(state, playerIndex, play) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_EXPERT_PLAYS)
+    .map(({ play }) => play);
+  return [
+    ...actions.filter((a) => a.action !== "play_cards" && a.action !== "declare_last_card"),
+    ...plays,
+  ];
+}
+
+/**
+ * The actions the Expert chooses between for the acting player
+ */
+export function getExpertCandidates(state: GameState, playerIndex: number): GameAction[] {
+  return selectCandidates(state, playerIndex, collectActions(state, playerIndex, MAX_SCORED_PLAYS));
+}
+
+/**
+ * Take an action in a (sampled) game and play the rest out with the Normal
+ * strategy, scoring the result for the player: 1 for first place down to 0
+ * for last, which is the chance of winning in a two-player game
+ */
+export function evaluateAction(
+  state: GameState,
+  playerIndex: number,
+  action: GameAction,
+  random: () => number,
+  maxSteps: number = DEFAULT_MAX_PLAYOUT_STEPS
+): number {
+  return playout(applyCandidate(state, playerIndex, action), playerIndex, maxSteps, random);
+}
+
+/**
+ * Choose an action from a player's view alone: each iteration samples the
+ * hidden cards (other hands, draw pile order and future shuffles), applies one
+ * candidate and plays the game out, and the candidate with the best average wins
+ */
+function searchView(view: PlayerView, options: ExpertOptions, random: () => number): GameAction {
+  const playerIndex = view.viewerIndex;
+  // The acting player's options depend only on their own hand and public state,
+  // so any sample lists them
+  const sample = sampleGameState(view, random);
+  const actions = collectActions(sample, playerIndex, MAX_SCORED_PLAYS);
+  const candidates = selectCandidates(sample, playerIndex, actions);
+
+  if (candidates.length > 1) {
+    const iterations = options.iterations ?? DEFAULT_EXPERT_ITERATIONS;
+    const maxSteps = options.maxPlayoutSteps ?? DEFAULT_MAX_PLAYOUT_STEPS;
+    const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_EXPERT_TIME_BUDGET_MS);
+    const totals = candidates.map(() => 0);
+    const counts = candidates.map(() => 0);
+
+    for (let i = 0; i < candidates.length || (i < iterations && Date.now() < deadline); i++) {
+      const c = i % candidates.length;
+      const state = sampleGameState(view, random);
+      totals[c] += evaluateAction(state, playerIndex, candidates[c], random, maxSteps);
+      counts[c]++;
+    }
+
+    let best = 0;
+    for (let c = 1; c < candidates.length; c++) {
+      if (totals[c] / counts[c] > totals[best] / counts[best]) best = c;
+    }
+    candidates.unshift(candidates.splice(best, 1)[0]);
+  }
+
+  const [choice] = candidates;
+  return choice.action === "play_cards" ? withDeclaration(sample, actions, choice) : choice;
+}
+
+/**
+ * Create an Expert strategy: information-set Monte Carlo search that only
+ * ever sees the acting player's view of the game (see searchView)
+ */
+export function createExpertAI(options: ExpertOptions = {}): AIStrategy {
+  return {
+    difficulty: "expert",
+    chooseAction(state, playerIndex, random = Math.random) {
+      if (state.winner !== null || playerIndex !== getActingPlayerIndex(state)) return null;
+      return searchView(getPlayerView(state, playerIndex), options, random);
+    },
+  };
+}
+
+/**
+ * Expert: Monte Carlo search over sampled hidden hands, with the default budget
+ */
+export const expertAI: AIStrategy = createExpertAI();
+
+const STRATEGIES: Record<AIDifficulty, AIStrategy> = {
+  easy: easyAI,
+  normal: normalAI,
+  hard: hardAI,
+  expert: expertAI,
+};
+
+/**
+ * Get the strategy for a difficulty level
+ */
+export function getAIStrategy(difficulty: AIDifficulty): AIStrategy {
+  return STRATEGIES[difficulty];
+}
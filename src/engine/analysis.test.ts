@@ -0,0 +1,98 @@
+/**
+ * Post-Game Analysis Tests
+ * Decisions that throw a game away are flagged with the better option, and
+ * plays that forget to declare Last Card are called out
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyAction, getActingPlayerIndex, getLegalActions } from "./actions";
+import { easyAI, normalAI } from "./ai";
+import { createSeededRng } from "./deck";
+import { analyzeReplay, analyzeStep } from "./analysis";
+import {
+  createReplay,
+  getReplayInitialState,
+  getReplayStates,
+  recordReplayStep,
+  Replay,
+} from "./replay";
+import { initializeGame, isSpecialCard } from "./rules";
+import { GameAction, RuleSet } from "./types";
+
+// A two-player replay whose first player can open with a plain (non-special) card
+function findOpening(rules: Partial<RuleSet>): { replay: Replay; play: GameAction } {
+  for (let seed = 1; ; seed++) {
+    const replay = createReplay(initializeGame(2, seed, ["human", "ai"], rules), undefined, 0);
+    const play = getLegalActions(getReplayInitialState(replay), 0).find(
+      (a) => a.action === "play_cards" && a.cards.length === 1 && !isSpecialCard(a.cards[0])
+    );
+    if (play) return { replay, play };
+  }
+}
+
+const analyze = (replay: Replay) => analyzeStep(replay, getReplayStates(replay), 0, { samples: 6 });
+
+describe("analyzeStep", () => {
+  it("should flag drawing when the last card could go out", () => {
+    const { replay, play } = findOpening({ initialHandSize: 1 });
+
+    const drew = recordReplayStep(replay, 0, { action: "draw" }, 0);
+    const [annotation] = analyze(drew);
+    expect(annotation.kind).toBe("weaker_action");
+    expect(annotation.best).toEqual(play);
+    expect(annotation.loss).toBeGreaterThan(0.3);
+    expect(annotation.message).toMatch(
+      /^Drawing here lost ~\d+% win probability - should have played/
+    );
+
+    expect(analyze(recordReplayStep(replay, 0, play, 0))).toEqual([]);
+  });
+
+  it("should call out a play that forgot to declare Last Card", () => {
+    const { replay, play } = findOpening({ initialHandSize: 2 });
+
+    const forgot = analyze(recordReplayStep(replay, 0, play, 0));
+    expect(forgot.map((a) => a.kind)).toContain("missed_last_card");
+    expect(forgot.find((a) => a.kind === "missed_last_card")?.message).toMatch(
+      /^Forgot to declare Last Card before playing /
+    );
+
+    const declared = recordReplayStep(
+      recordReplayStep(replay, 0, { action: "declare_last_card" }, 0),
+      0,
+      play,
+      0
+    );
+    const afterDeclaring = analyzeStep(declared, getReplayStates(declared), 1, { samples: 6 });
+    expect(afterDeclaring.some((a) => a.kind === "missed_last_card")).toBe(false);
+  });
+});
+
+describe("analyzeReplay", () => {
+  it("should analyse only the human seats, the same way every time", () => {
+    // The human seat is played by the Easy AI, which makes mistakes to find
+    const random = createSeededRng(3);
+    let state = initializeGame(2, 3, ["human", "ai"]);
+    let replay = createReplay(state, undefined, 0);
+    while (state.winner === null) {
+      const player = getActingPlayerIndex(state);
+      const action: GameAction =
+        state.turnPhase === "waiting"
+          ? { action: "confirm_handoff" }
+          : (player === 0 ? easyAI : normalAI).chooseAction(state, player, random)!;
+      const result = applyAction(state, player, action);
+      if (!result.ok) throw new Error(result.error);
+      replay = recordReplayStep(replay, player, action, 0);
+      state = result.state;
+    }
+
+    const annotations = analyzeReplay(replay, { samples: 8 });
+    expect(annotations.length).toBeGreaterThan(0);
+    expect(annotations.every((a) => a.player === 0 && replay.steps[a.step].player === 0)).toBe(
+      true
+    );
+    expect(analyzeReplay(replay, { samples: 8 })).toEqual(annotations);
+    const aiSeat = analyzeReplay(replay, { samples: 8, players: [1] });
+    expect(aiSeat.every((a) => a.player === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Post-game analysis for Last Card
+ * Replays a recorded game and weighs each decision a player made against the
+ * alternatives the Expert AI would consider, using the same sampled deals and
+ * playouts for every option so they are compared fairly. Decisions that gave
+ * away enough of the player's chances, and plays that forgot to declare Last
+ * Card, are returned as annotations for the replay viewer.
+ */
+
+import { evaluateAction, getExpertCandidates } from "./ai";
+import { createSeededRng } from "./deck";
+import { getReplayStates, Replay } from "./replay";
+import { canDeclareLastCard } from "./rules";
+import { cardToString, GameAction, GameState, suitToSymbol } from "./types";
+import { getPlayerView, sampleGameState } from "./view";
+
+export interface AnalysisOptions {
+  players?: number[]; // Seats to analyse (default: the human seats)
+  samples?: number; // Sampled deals each option is played out on (default 100)
+  threshold?: number; // Smallest loss of win probability worth flagging (default 0.1)
+  seed?: number; // Seeds the sampling, so an analysis can be repeated (default: the game's seed)
+  maxPlayoutSteps?: number;
+}
+
+export type AnnotationKind = "weaker_action" | "missed_last_card";
+
+export interface Annotation {
+  step: number; // Index into replay.steps of the action annotated
+  player: number;
+  kind: AnnotationKind;
+  loss: number; // Win probability given up against the best option (0 for missed_last_card)
+  best: GameAction | null; // The option that scored best (null for missed_last_card)
+  message: string;
+}
+
+const DEFAULT_SAMPLES = 100;
+const DEFAULT_THRESHOLD = 0.1;
+
+// Declarations are judged with the play they go with, and handoffs aren't decisions
+const UNSCORED: GameAction["action"][] = ["declare_last_card", "confirm_handoff"];
+
+/**
+ * Whether two actions do the same thing (a play left to its default effect
+ * matches one that activates it explicitly)
+ */
+function isSameAction(a: GameAction, b: GameAction): boolean {
+  if (a.action !== b.action) return false;
+  if (a.action === "play_cards" && b.action === "play_cards") {
+    return (
+      a.cards.length === b.cards.length &&
+      a.cards.every((c, i) => c.rank === b.cards[i].rank && c.suit === b.cards[i].suit) &&
+      (a.chosenSuit ?? null) === (b.chosenSuit ?? null) &&
+      (a.activateEffect !== false) === (b.activateEffect !== false)
+    );
+  }
+  const cardA = "card" in a ? a.card : null;
+  const cardB = "card" in b ? b.card : null;
+  return cardA?.rank === cardB?.rank && cardA?.suit === cardB?.suit;
+}
+
+function describeCards(action: Extract<GameAction, { action: "play_cards" }>): string {
+  const suit = action.chosenSuit ? ` calling ${suitToSymbol(action.chosenSuit)}` : "";
+  return `${action.cards.map(cardToString).join(" ")}${suit}`;
+}
+
+// What the player did, as the subject of a sentence ("Drawing here")
+function describeChoice(action: GameAction): string {
+  switch (action.action) {
+    case "play_cards":
+      return `Playing ${describeCards(action)}`;
+    case "draw":
+      return "Drawing here";
+    case "end_turn":
+      return "Ending the turn";
+    case "resolve_response":
+      return "Taking the effect";
+    case "seven_dispute_accept":
+    case "jack_accept":
+    case "ace_accept":
+      return "Letting it stand";
+    default:
+      return "card" in action ? `Answering with ${cardToString(action.card)}` : "This";
+  }
+}
+
+// What the player should have done instead ("should have deflected the 5 with your 5♣")
+function describeBest(state: GameState, action: GameAction): string {
+  switch (action.action) {
+    case "play_cards":
+      return `should have played ${describeCards(action)}`;
+    case "draw":
+      return "should have drawn";
+    case "end_turn":
+      return "should have ended the turn";
+    case "deflect_response": {
+      const card = cardToString(action.card);
+      return `should have deflected the ${state.responseChainRank} with your ${card}`;
+    }
+    case "cancel_response":
+    case "seven_cancel_effect":
+    case "jack_cancel":
+    case "ace_cancel":
+      return `should have cancelled it with your ${cardToString(action.card)}`;
+    case "seven_cancel_last_card":
+      return `should have challenged Last Card with your ${cardToString(action.card)}`;
+    case "seven_dispute_play":
+      return `should have kept the dispute going with your ${cardToString(action.card)}`;
+    default:
+      return "should have let it stand";
+  }
+}
+
+/**
+ * Analyse one step of a game: whether the action gave away win probability
+ * against the best option, and whether a play forgot to declare Last Card
+ * @param states The states of the game, from getReplayStates
+ */
+export function analyzeStep(
+  replay: Replay,
+  states: GameState[],
+  step: number,
+  options: AnalysisOptions = {}
+): Annotation[] {
+  const { player, action } = replay.steps[step];
+  const before = states[step];
+  const annotations: Annotation[] = [];
+
+  if (
+    action.action === "play_cards" &&
+    before.currentPlayerIndex === player &&
+    canDeclareLastCard(before, action.cards)
+  ) {
+    annotations.push({
+      step,
+      player,
+      kind: "missed_last_card",
+      loss: 0,
+      best: null,
+      message: `Forgot to declare Last Card before playing ${describeCards(action)}`,
+    });
+  }
+  if (UNSCORED.includes(action.action)) return annotations;
+
+  const candidates = getExpertCandidates(before, player);
+  if (!candidates.some((c) => isSameAction(c, action))) candidates.push(action);
+  if (candidates.length < 2) return annotations;
+
+  // Every option is played out on the same sampled deals with the same luck. The
+  // sample seeds are drawn from one stream per step: neighbouring seeds start out alike
+  const view = getPlayerView(before, player);
+  const seeds = createSeededRng((options.seed ?? replay.seed) ^ Math.imul(step + 1, 0x9e3779b9));
+  const sampleSeeds = Array.from({ length: options.samples ?? DEFAULT_SAMPLES }, () =>
+    Math.floor(seeds() * 0x100000000)
+  );
+  const scores = candidates.map((candidate) => {
+    let total = 0;
+    for (const sampleSeed of sampleSeeds) {
+      const random = createSeededRng(sampleSeed);
+      const sample = sampleGameState(view, random);
+      total += evaluateAction(sample, player, candidate, random, options.maxPlayoutSteps);
+    }
+    return total / sampleSeeds.length;
+  });
+
+  const chosen = scores[candidates.findIndex((c) => isSameAction(c, action))];
+  const bestIndex = scores.indexOf(Math.max(...scores));
+  const loss = scores[bestIndex] - chosen;
+  if (loss >= (options.threshold ?? DEFAULT_THRESHOLD)) {
+    const best = candidates[bestIndex];
+    annotations.push({
+      step,
+      player,
+      kind: "weaker_action",
+      loss,
+      best,
+      message:
+        `${describeChoice(action)} lost ~${Math.round(loss * 100)}% win probability - ` +
+        describeBest(before, best),
+    });
+  }
+  return annotations;
+}
+
+/**
+ * Analyse every decision the chosen players made in a game
+ * @throws Error if a step of the replay is not legal
+ */
+export function analyzeReplay(replay: Replay, options: AnalysisOptions = {}): Annotation[] {
+  const states = getReplayStates(replay);
+  const players =
+    options.players ?? replay.seats.flatMap((seat, i) => (seat.playerType === "human" ? [i] : []));
+  return replay.steps.flatMap((step, i) =>
+    players.includes(step.player) ? analyzeStep(replay, states, i, options) : []
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * Rule-Variant Comparison Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { AIDifficulty } from "./ai";
+import {
+  compareVariants,
+  formatComparisonCsv,
+  formatComparisonJson,
+  HOUSE_RULE_VARIANTS,
+} from "./compare";
+
+describe("compareVariants", () => {
+  const players: AIDifficulty[] = ["normal", "normal"];
+
+  it("should report intervals around each estimate and differences from the baseline", () => {
+    const report = compareVariants({
+      variants: HOUSE_RULE_VARIANTS.slice(0, 3),
+      games: 8,
+      players,
+    });
+    expect(report.baseline).toBe("standard");
+    expect(report.confidence).toBe(0.95);
+    expect(report.variants.map((v) => v.name)).toEqual(["standard", "2-player jacks", "5s draw 3"]);
+    expect(report.variants[0].differences).toBeNull();
+
+    for (const variant of report.variants) {
+      for (const metric of Object.values(variant.metrics)) {
+        expect(metric.low).toBeLessThanOrEqual(metric.estimate);
+        expect(metric.high).toBeGreaterThanOrEqual(metric.estimate);
+      }
+      expect(variant.metrics.gameLength.estimate).toBe(variant.summary.averageTurns);
+      expect(variant.metrics.firstPlayerAdvantage.estimate).toBeCloseTo(
+        variant.summary.winRateBySeat[0] - 0.5
+      );
+    }
+
+    const [standard, jacks] = report.variants;
+    expect(jacks.differences?.gameLength.estimate).toBeCloseTo(
+      jacks.metrics.gameLength.estimate - standard.metrics.gameLength.estimate
+    );
+  });
+
+  it("should find a difference that is certainly there", () => {
+    const report = compareVariants({
+      variants: [
+        { name: "7 cards", rules: { initialHandSize: 7 } },
+        { name: "2 cards", rules: { initialHandSize: 2 } },
+      ],
+      games: 20,
+      players,
+    });
+    const length = report.variants[1].differences!.gameLength;
+    expect(length.significant).toBe(true);
+    expect(length.high).toBeLessThan(0);
+  });
+
+  it("should widen intervals at a higher confidence level", () => {
+    const options = { variants: HOUSE_RULE_VARIANTS.slice(0, 2), games: 6, players };
+    const width = (confidence: 0.9 | 0.99) => {
+      const { gameLength } = compareVariants({ ...options, confidence }).variants[0].metrics;
+      return gameLength.high - gameLength.low;
+    };
+    expect(width(0.99)).toBeGreaterThan(width(0.9));
+  });
+
+  it("should format the comparison as JSON and CSV", () => {
+    const report = compareVariants({
+      variants: HOUSE_RULE_VARIANTS.slice(0, 2),
+      games: 2,
+      players,
+    });
+    expect(JSON.parse(formatComparisonJson(report))).toEqual(report);
+
+    const [header, baseline, variant] = formatComparisonCsv(report).trim().split("\n");
+    expect(header.split(",")).toHaveLength(2 + 3 * 3 + 3 * 4);
+    expect(baseline.startsWith("standard,2,")).toBe(true);
+    expect(baseline.endsWith(",,,")).toBe(true);
+    expect(variant.split(",")).toHaveLength(header.split(",").length);
+  });
+
+  it("should need a baseline and at least one variant", () => {
+    expect(() =>
+      compareVariants({ variants: HOUSE_RULE_VARIANTS.slice(0, 1), games: 1, players })
+    ).toThrow(/at least two variants/);
+  });
+});
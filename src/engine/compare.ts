@@ -0,0 +1,234 @@
+/**
+ * Rule-variant balance comparison for Last Card
+ * Runs the simulator once per rule configuration on the same seeds and
+ * compares game length, comeback frequency and first-player advantage against
+ * the first (baseline) variant, with confidence intervals on every figure.
+ */
+
+import { RuleSet } from "./types";
+import {
+  SimulatedGame,
+  SimulationPlayer,
+  SimulationReport,
+  simulateGames,
+  summarizeGames,
+} from "./simulate";
+
+export interface RuleVariant {
+  name: string;
+  rules: Partial<RuleSet>;
+  players?: SimulationPlayer[]; // Overrides ComparisonOptions.players (e.g. a 2-player variant)
+}
+
+// The standard rules against popular house rules (what npm run compare plays by default)
+export const HOUSE_RULE_VARIANTS: RuleVariant[] = [
+  { name: "standard", rules: {} },
+  { name: "2-player jacks", rules: { jackMinPlayers: 2 } },
+  { name: "5s draw 3", rules: { drawFiveAmount: 3 } },
+  { name: "draw until playable", rules: { drawUntilPlayable: true } },
+];
+
+export interface ComparisonOptions {
+  variants: RuleVariant[]; // The first is the baseline the others are compared with
+  games: number; // Per variant
+  players: SimulationPlayer[];
+  firstSeed?: number;
+  maxSteps?: number;
+  confidence?: ConfidenceLevel; // Defaults to 0.95
+}
+
+export type ConfidenceLevel = 0.9 | 0.95 | 0.99;
+
+// Two-sided critical values of the standard normal distribution
+const Z_SCORES: Record<ConfidenceLevel, number> = { 0.9: 1.645, 0.95: 1.96, 0.99: 2.576 };
+
+export interface Interval {
+  estimate: number;
+  low: number;
+  high: number;
+}
+
+export interface Difference extends Interval {
+  significant: boolean; // The interval excludes zero
+}
+
+export interface VariantMetrics {
+  gameLength: Interval; // Mean turns per finished game
+  comebackRate: Interval; // Share of finished games won from COMEBACK_DEFICIT cards behind
+  firstPlayerAdvantage: Interval; // Seat 1's win rate less an equal share (1 / players)
+}
+
+export interface VariantResult {
+  name: string;
+  summary: SimulationReport;
+  metrics: VariantMetrics;
+  // This variant less the baseline (null for the baseline itself)
+  differences: Record<keyof VariantMetrics, Difference> | null;
+}
+
+export interface ComparisonReport {
+  games: number;
+  confidence: ConfidenceLevel;
+  baseline: string;
+  variants: VariantResult[];
+}
+
+// A sample mean with its standard error
+interface Estimate {
+  value: number;
+  standardError: number;
+}
+
+function meanEstimate(values: number[]): Estimate {
+  const n = values.length;
+  if (n === 0) return { value: 0, standardError: 0 };
+  const mean = values.reduce((total, value) => total + value, 0) / n;
+  if (n === 1) return { value: mean, standardError: 0 };
+  const variance = values.reduce((total, value) => total + (value - mean) ** 2, 0) / (n - 1);
+  return { value: mean, standardError: Math.sqrt(variance / n) };
+}
+
+function interval({ value, standardError }: Estimate, z: number): Interval {
+  return { estimate: value, low: value - z * standardError, high: value + z * standardError };
+}
+
+/**
+ * Wilson score interval for a proportion (stays inside [0, 1] for small counts)
+ */
+function proportionInterval(successes: number, n: number, z: number): Interval {
+  if (n === 0) return { estimate: 0, low: 0, high: 0 };
+  const p = successes / n;
+  const denominator = 1 + (z * z) / n;
+  const centre = (p + (z * z) / (2 * n)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denominator;
+  return { estimate: p, low: Math.max(0, centre - margin), high: Math.min(1, centre + margin) };
+}
+
+function shift(range: Interval, by: number): Interval {
+  return { estimate: range.estimate + by, low: range.low + by, high: range.high + by };
+}
+
+/**
+ * Difference of two independent estimates (normal approximation)
+ */
+function difference(a: Estimate, b: Estimate, z: number): Difference {
+  const estimate = a.value - b.value;
+  const margin = z * Math.hypot(a.standardError, b.standardError);
+  const low = estimate - margin;
+  const high = estimate + margin;
+  return { estimate, low, high, significant: low > 0 || high < 0 };
+}
+
+// Per-game samples behind each metric, as 0/1 indicators for the rates
+function getSamples(
+  results: SimulatedGame[],
+  playerCount: number
+): Record<keyof VariantMetrics, Estimate> {
+  const finished = results.filter((r) => r.winner !== null);
+  return {
+    gameLength: meanEstimate(finished.map((r) => r.turns)),
+    comebackRate: meanEstimate(finished.map((r) => (r.comeback ? 1 : 0))),
+    firstPlayerAdvantage: meanEstimate(
+      results.map((r) => (r.winner === 0 ? 1 : 0) - 1 / playerCount)
+    ),
+  };
+}
+
+/**
+ * Play every variant on the same seeds and compare each with the baseline
+ */
+export function compareVariants(options: ComparisonOptions): ComparisonReport {
+  if (options.variants.length < 2) throw new Error("A comparison needs at least two variants");
+  const confidence = options.confidence ?? 0.95;
+  const z = Z_SCORES[confidence];
+  if (z === undefined) throw new Error(`Unsupported confidence level ${confidence}`);
+
+  const runs = options.variants.map((variant) => {
+    const simulation = {
+      games: options.games,
+      players: variant.players ?? options.players,
+      firstSeed: options.firstSeed,
+      rules: variant.rules,
+      maxSteps: options.maxSteps,
+    };
+    const results = simulateGames(simulation);
+    const playerCount = simulation.players.length;
+    const finished = results.filter((r) => r.winner !== null);
+    const samples = getSamples(results, playerCount);
+    const metrics: VariantMetrics = {
+      gameLength: interval(samples.gameLength, z),
+      comebackRate: proportionInterval(
+        finished.filter((r) => r.comeback).length,
+        finished.length,
+        z
+      ),
+      firstPlayerAdvantage: shift(
+        proportionInterval(results.filter((r) => r.winner === 0).length, results.length, z),
+        -1 / playerCount
+      ),
+    };
+    return {
+      name: variant.name,
+      summary: summarizeGames(results, simulation),
+      metrics,
+      samples,
+    };
+  });
+
+  const [baseline] = runs;
+  return {
+    games: options.games,
+    confidence,
+    baseline: baseline.name,
+    variants: runs.map((run, i) => ({
+      name: run.name,
+      summary: run.summary,
+      metrics: run.metrics,
+      differences:
+        i === 0
+          ? null
+          : {
+              gameLength: difference(run.samples.gameLength, baseline.samples.gameLength, z),
+              comebackRate: difference(run.samples.comebackRate, baseline.samples.comebackRate, z),
+              firstPlayerAdvantage: difference(
+                run.samples.firstPlayerAdvantage,
+                baseline.samples.firstPlayerAdvantage,
+                z
+              ),
+            },
+    })),
+  };
+}
+
+export function formatComparisonJson(report: ComparisonReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Format a comparison as CSV, one row per variant. Difference columns are
+ * empty for the baseline.
+ */
+export function formatComparisonCsv(report: ComparisonReport): string {
+  const metrics: (keyof VariantMetrics)[] = ["gameLength", "comebackRate", "firstPlayerAdvantage"];
+  const columns = ["game_length", "comeback_rate", "first_player_advantage"];
+  const header = [
+    "variant",
+    "games",
+    ...columns.flatMap((c) => [c, `${c}_low`, `${c}_high`]),
+    ...columns.flatMap((c) => [`${c}_diff`, `${c}_diff_low`, `${c}_diff_high`, `${c}_significant`]),
+  ];
+
+  const rows = report.variants.map((variant): (string | number | boolean)[] => [
+    /[",]/.test(variant.name) ? `"${variant.name.replace(/"/g, '""')}"` : variant.name,
+    variant.summary.games,
+    ...metrics.flatMap((m) => {
+      const { estimate, low, high } = variant.metrics[m];
+      return [estimate, low, high];
+    }),
+    ...metrics.flatMap((m): (string | number | boolean)[] => {
+      const diff = variant.differences?.[m];
+      return diff ? [diff.estimate, diff.low, diff.high, diff.significant] : ["", "", "", ""];
+    }),
+  ]);
+  return [header, ...rows].map((row) => row.join(",")).join("\n") + "\n";
+}
@@ -2,19 +2,26 @@
  * Deck utilities for Last Card
  */
 
-import { Card, Rank, Suit } from "./types";
+import { Card, Rank, RngState, Suit } from "./types";
 
 const SUITS: Suit[] = ["hearts", "diamonds", "clubs", "spades"];
 const RANKS: Rank[] = ["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"];
 
 /**
- * Creates a fresh, unshuffled 52-card deck
+ * Creates a fresh, unshuffled deck of 52 cards per deck
+ * @param deckCount Number of standard decks to combine (defaults to 1)
+ * @param includeJokers Add a red and a black Joker to each deck
  */
-export function createDeck(): Card[] {
+export function createDeck(deckCount = 1, includeJokers = false): Card[] {
   const deck: Card[] = [];
-  for (const suit of SUITS) {
-    for (const rank of RANKS) {
-      deck.push({ rank, suit });
+  for (let d = 0; d < deckCount; d++) {
+    for (const suit of SUITS) {
+      for (const rank of RANKS) {
+        deck.push({ rank, suit });
+      }
+    }
+    if (includeJokers) {
+      deck.push({ rank: "Joker", suit: "hearts" }, { rank: "Joker", suit: "spades" });
     }
   }
   return deck;
@@ -46,6 +53,47 @@ export function createSeededRng(seed: number): () => number {
   };
 }
 
+/**
+ * Creates an RNG state from a seed (truncated to 32 bits)
+ */
+export function createRngState(seed: number): RngState {
+  return { seed: seed >>> 0, counter: 0 };
+}
+
+/**
+ * Picks a random 32-bit seed using Math.random (for games without an explicit seed)
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Returns the next random value (0-1) and the advanced RNG state.
+ * Counter-based (splitmix32 over seed + counter), so the state is plain data
+ * and the same (seed, counter) always yields the same value.
+ */
+export function nextRandom(rng: RngState): [number, RngState] {
+  let z = (rng.seed + Math.imul(rng.counter + 1, 0x9e3779b9)) >>> 0;
+  z = Math.imul(z ^ (z >>> 16), 0x85ebca6b) >>> 0;
+  z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35) >>> 0;
+  z = (z ^ (z >>> 16)) >>> 0;
+  return [z / 0x100000000, { seed: rng.seed, counter: rng.counter + 1 }];
+}
+
+/**
+ * Fisher-Yates shuffle driven by an RNG state; returns the shuffled copy and
+ * the advanced state
+ */
+export function shuffleWithState<T>(array: T[], rng: RngState): { result: T[]; rng: RngState } {
+  let current = rng;
+  const result = shuffle(array, () => {
+    const [value, next] = nextRandom(current);
+    current = next;
+    return value;
+  });
+  return { result, rng: current };
+}
+
 /**
  * Creates and shuffles a new deck
  */
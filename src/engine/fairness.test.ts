@@ -0,0 +1,156 @@
+/**
+ * Provably Fair Shuffle Tests
+ * SHA-256 matches the standard test vectors, a game verifies against its
+ * commitment only if every round was really dealt from the committed seed, and
+ * one round's seed doesn't give away the next
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyAction, getActingPlayerIndex } from "./actions";
+import { normalAI } from "./ai";
+import { createSeededRng } from "./deck";
+import {
+  commitToSecret,
+  createClientEntropy,
+  createServerSecret,
+  deriveGameSeed,
+  deriveRoundSeed,
+  FairnessReveal,
+  isValidEntropy,
+  sha256Hex,
+  verifyShuffles,
+} from "./fairness";
+import { createMatch, dealRound, getRoundSeed, scoreRound } from "./match";
+import { createReplay, getReplayStates, recordReplayStep, Replay } from "./replay";
+import { confirmHandoff, initializeGame } from "./rules";
+import { GameState } from "./types";
+
+// Play a game out with the Normal AI, recording it as the server does
+function playOut(initial: GameState): { replay: Replay; final: GameState } {
+  const random = createSeededRng(initial.rng.seed);
+  let state = initial;
+  let replay = createReplay(initial, undefined, 0);
+  while (state.winner === null) {
+    const player = getActingPlayerIndex(state);
+    const action = normalAI.chooseAction(state, player, random)!;
+    const result = applyAction(state, player, action, { autoConfirmHandoff: true });
+    if (!result.ok) throw new Error(result.error);
+    replay = recordReplayStep(replay, player, action, 0);
+    state = result.state;
+  }
+  return { replay, final: state };
+}
+
+// Work a match seed back from a round seed dealt by getRoundSeed, undoing each
+// step of nextRandom's finalizer (0x7ed1b41d and 0xa5cb9243 are the inverses
+// of its multipliers)
+function recoverMatchSeed(roundSeed: number, roundNumber: number): number {
+  let z = (roundSeed ^ (roundSeed >>> 16)) >>> 0;
+  z = Math.imul(z, 0x7ed1b41d) >>> 0;
+  z = (z ^ (z >>> 13) ^ (z >>> 26)) >>> 0;
+  z = Math.imul(z, 0xa5cb9243) >>> 0;
+  z = (z ^ (z >>> 16)) >>> 0;
+  return (z - Math.imul(roundNumber, 0x9e3779b9)) >>> 0;
+}
+
+describe("sha256Hex", () => {
+  it("should match the standard test vectors", () => {
+    expect(sha256Hex("")).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+    expect(sha256Hex("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+    expect(sha256Hex("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")).toBe(
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1"
+    );
+    expect(sha256Hex("a".repeat(1000))).toBe(
+      "41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3"
+    );
+  });
+});
+
+describe("verifyShuffles", () => {
+  const serverSecret = createServerSecret();
+  const clientEntropy = [createClientEntropy(), createClientEntropy()];
+  const reveal: FairnessReveal = {
+    commitment: commitToSecret(serverSecret),
+    clientEntropy,
+    serverSecret,
+  };
+  const seed = deriveGameSeed(serverSecret, clientEntropy);
+
+  it("should verify a game dealt from the committed seed", () => {
+    const { replay } = playOut(confirmHandoff(initializeGame(3, seed)));
+    const observedHands = [getReplayStates(replay).map((s) => s.players[1].hand)];
+
+    const check = verifyShuffles(reveal, [replay], {
+      entropy: clientEntropy[1],
+      seat: 1,
+      observedHands,
+    });
+    expect(check).toEqual({ ok: true, seed, shuffles: expect.any(Number) });
+    expect(check.ok && check.shuffles).toBeGreaterThanOrEqual(1);
+  });
+
+  it("should verify every round of a match", () => {
+    let match = createMatch(2, { seed, targetScore: 1000 });
+    const replays: Replay[] = [];
+    for (let round = 0; round < 2; round++) {
+      const roundSeed = deriveRoundSeed(serverSecret, clientEntropy, match.roundNumber);
+      const { replay, final } = playOut(confirmHandoff(dealRound(match, roundSeed)));
+      replays.push(replay);
+      match = scoreRound(match, final);
+    }
+    expect(verifyShuffles(reveal, replays, { match: true }).ok).toBe(true);
+    expect(verifyShuffles(reveal, replays.slice(1), { match: true })).toEqual({
+      ok: false,
+      error: "Round 1 wasn't dealt from the committed seed",
+    });
+  });
+
+  it("should not let a round's replay predict the next round", () => {
+    // A round dealt from the match seed gives the match seed away...
+    const engineRound1 = getRoundSeed(seed, 1);
+    expect(recoverMatchSeed(engineRound1, 1)).toBe(seed);
+    expect(getRoundSeed(recoverMatchSeed(engineRound1, 1), 2)).toBe(getRoundSeed(seed, 2));
+
+    // ...but a round seed hashed from the secret doesn't lead to the next one
+    const round1 = deriveRoundSeed(serverSecret, clientEntropy, 1);
+    const round2 = deriveRoundSeed(serverSecret, clientEntropy, 2);
+    expect(getRoundSeed(recoverMatchSeed(round1, 1), 2)).not.toBe(round2);
+    expect([getRoundSeed(seed, 1), getRoundSeed(seed, 2)]).not.toContain(round2);
+
+    const match = createMatch(2, { seed, targetScore: 1000 });
+    const round1Replay = playOut(confirmHandoff(dealRound(match, round1))).replay;
+    expect(round1Replay.seed).toBe(round1);
+    expect(
+      verifyShuffles(reveal, [{ ...round1Replay, seed: getRoundSeed(seed, 1) }], {
+        match: true,
+      })
+    ).toEqual({ ok: false, error: "Round 1 wasn't dealt from the committed seed" });
+  });
+
+  it("should catch a secret, seed or hand that doesn't add up", () => {
+    const { replay } = playOut(confirmHandoff(initializeGame(2, seed)));
+    const error = (check: ReturnType<typeof verifyShuffles>) => (check.ok ? null : check.error);
+
+    expect(
+      error(verifyShuffles({ ...reveal, serverSecret: createServerSecret() }, [replay]))
+    ).toMatch(/doesn't match the commitment/);
+    expect(error(verifyShuffles(reveal, [replay], { entropy: "abc123" }))).toMatch(/entropy/);
+    const rigged = playOut(confirmHandoff(initializeGame(2, seed + 1))).replay;
+    expect(error(verifyShuffles(reveal, [rigged]))).toMatch(/committed seed/);
+    expect(error(verifyShuffles(reveal, [{ ...rigged, seed }]))).toMatch(/step \d+ doesn't follow/);
+
+    const fakeHand = [[{ rank: "A" as const, suit: "spades" as const }]];
+    expect(error(verifyShuffles(reveal, [replay], { seat: 0, observedHands: [fakeHand] }))).toMatch(
+      /didn't deal/
+    );
+  });
+
+  it("should only accept hex entropy", () => {
+    expect(isValidEntropy(createClientEntropy())).toBe(true);
+    expect(isValidEntropy("")).toBe(false);
+    expect(isValidEntropy("not hex")).toBe(false);
+    expect(isValidEntropy("a".repeat(65))).toBe(false);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Provably fair shuffles for Last Card (commit-reveal)
+ * An online game's seed comes from a secret the server picks when the room is
+ * created, mixed with entropy the players send when they join. The server
+ * publishes the SHA-256 hash of its secret (the commitment) before anyone
+ * joins and reveals the secret when the game ends. Every shuffle - the deal
+ * and each time the discard pile is recycled - follows from the seed, so a
+ * player can then re-derive them all from the recorded actions and check that
+ * the cards they were dealt came from the committed seed.
+ *
+ * The commitment covers a 256-bit secret rather than the 32-bit game seed,
+ * which would be quick to find by trying every value against the hash. For
+ * the same reason each round of a match is seeded from its own hash of the
+ * secret: the engine's round seeds can be worked back to the match seed, and
+ * from there to the deals of the rounds still to come.
+ */
+
+import { applyAction } from "./actions";
+import { getReplayInitialState, Replay } from "./replay";
+import { Card, GameState } from "./types";
+
+export interface FairnessCommitment {
+  commitment: string; // SHA-256 of the server secret, hex
+  clientEntropy: string[]; // Player contributions mixed into the seed, in seat order
+}
+
+export interface FairnessReveal extends FairnessCommitment {
+  serverSecret: string; // Hex, revealed once the game is over
+}
+
+export type FairnessCheck =
+  | { ok: true; seed: number; shuffles: number } // Shuffles: each deal and each recycle
+  | { ok: false; error: string };
+
+export interface FairnessCheckOptions {
+  match?: boolean; // The replays are the rounds of a match, dealt from a match seed
+  entropy?: string; // The verifying player's contribution, which must have been used
+  seat?: number; // The verifying player's seat, for observedHands
+  observedHands?: Card[][][]; // Hands the player was shown, per round
+}
+
+// ============================================
+// SHA-256
+// ============================================
+
+// prettier-ignore
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
+
+/**
+ * SHA-256 of a string's UTF-8 bytes, as hex. Synchronous, so the server can
+ * deal and clients can verify without waiting on Web Crypto.
+ */
+export function sha256Hex(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  // Pad to a whole number of 64-byte blocks: a 1 bit, zeros, then the bit length
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, (bytes.length * 8) >>> 0);
+
+  const hash = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ];
+  const w = new Array<number>(64);
+  for (let block = 0; block < padded.length; block += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(block + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const t1 = (h + s1 + ((e & f) ^ (~e & g)) + K[i] + w[i]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      [h, g, f, e, d, c, b, a] = [g, f, e, (d + t1) | 0, c, b, a, (t1 + t2) | 0];
+    }
+    [a, b, c, d, e, f, g, h].forEach((value, i) => (hash[i] = (hash[i] + value) | 0));
+  }
+  return hash.map((value) => (value >>> 0).toString(16).padStart(8, "0")).join("");
+}
+
+// ============================================
+// Commit-reveal
+// ============================================
+
+function randomHex(byteCount: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteCount));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * A fresh 256-bit server secret (hex)
+ */
+export function createServerSecret(): string {
+  return randomHex(32);
+}
+
+/**
+ * A player's contribution to the seed (128 bits, hex)
+ */
+export function createClientEntropy(): string {
+  return randomHex(16);
+}
+
+/**
+ * Whether a player's contribution is well formed (1-64 hex digits)
+ */
+export function isValidEntropy(value: unknown): value is string {
+  return typeof value === "string" && /^[0-9a-f]{1,64}$/i.test(value);
+}
+
+export function commitToSecret(serverSecret: string): string {
+  return sha256Hex(serverSecret);
+}
+
+// The first 32 bits of a SHA-256 hash, as a seed
+function hashSeed(text: string): number {
+  return parseInt(sha256Hex(text).slice(0, 8), 16) >>> 0;
+}
+
+/**
+ * The game (or match) seed: the first 32 bits of SHA-256 over the secret and
+ * every player's contribution
+ */
+export function deriveGameSeed(serverSecret: string, clientEntropy: string[]): number {
+  return hashSeed(`${serverSecret}:${clientEntropy.join(",")}`);
+}
+
+/**
+ * The seed a match round is dealt from: the first 32 bits of SHA-256 over the
+ * secret, every player's contribution and the round number. One round's seed
+ * says nothing about the next without the secret.
+ */
+export function deriveRoundSeed(
+  serverSecret: string,
+  clientEntropy: string[],
+  roundNumber: number
+): number {
+  return hashSeed(`${serverSecret}:${clientEntropy.join(",")}:${roundNumber}`);
+}
+
+function handKey(hand: Card[]): string {
+  return hand
+    .map((c) => `${c.rank}${c.suit}`)
+    .sort()
+    .join(" ");
+}
+
+/**
+ * Check a finished online game against the server's commitment: the revealed
+ * secret must hash to the commitment, the seed must follow from it, and every
+ * round must replay legally from that seed (re-deriving its deal and recycles)
+ * and show the player only hands that the shuffles dealt them
+ * @param replays The game's replay, or every round of a match in order
+ */
+export function verifyShuffles(
+  reveal: FairnessReveal,
+  replays: Replay[],
+  options: FairnessCheckOptions = {}
+): FairnessCheck {
+  if (commitToSecret(reveal.serverSecret) !== reveal.commitment) {
+    return { ok: false, error: "The revealed secret doesn't match the commitment" };
+  }
+  if (options.entropy !== undefined && !reveal.clientEntropy.includes(options.entropy)) {
+    return { ok: false, error: "Your entropy wasn't mixed into the seed" };
+  }
+  if (replays.length === 0 || (!options.match && replays.length > 1)) {
+    return { ok: false, error: "Expected the replay of each round" };
+  }
+
+  const seed = deriveGameSeed(reveal.serverSecret, reveal.clientEntropy);
+  let shuffles = 0;
+  for (let round = 0; round < replays.length; round++) {
+    const replay = replays[round];
+    const label = options.match ? `Round ${round + 1}` : "The game";
+    const expectedSeed = options.match
+      ? deriveRoundSeed(reveal.serverSecret, reveal.clientEntropy, round + 1)
+      : seed;
+    if (replay.seed !== expectedSeed) {
+      return { ok: false, error: `${label} wasn't dealt from the committed seed` };
+    }
+
+    // Replay the round, counting the discard pile recycles along the way
+    const states: GameState[] = [getReplayInitialState(replay)];
+    shuffles++;
+    for (const [i, step] of replay.steps.entries()) {
+      const result = applyAction(states[i], step.player, step.action, {
+        autoConfirmHandoff: true,
+      });
+      if (!result.ok) {
+        return { ok: false, error: `${label}, step ${i + 1} doesn't follow from the shuffle` };
+      }
+      shuffles += result.events.filter((e) => e.type === "CardsDrawn" && e.recycled).length;
+      states.push(result.state);
+    }
+
+    const seat = options.seat;
+    const observed = options.observedHands?.[round] ?? [];
+    if (seat !== undefined && observed.length > 0) {
+      const dealt = new Set(states.map((s) => handKey(s.players[seat].hand)));
+      if (!observed.every((hand) => dealt.has(handKey(hand)))) {
+        return { ok: false, error: `${label} showed you a hand the shuffles didn't deal` };
+      }
+    }
+  }
+  return { ok: true, seed, shuffles };
+}
@@ -0,0 +1,53 @@
+/**
+ * Fuzz Harness Tests
+ * Random legal games must never break an invariant; failures shrink to short repros.
+ * Set FUZZ_GAMES to play more games per configuration (npm run test:fuzz plays 1000).
+ */
+
+import { describe, it, expect } from "vitest";
+import { formatFuzzFailure, fuzzGame, replayFuzzSteps, runFuzz } from "./fuzz";
+import { GameState, RuleSet } from "./types";
+
+const GAMES = Number(process.env.FUZZ_GAMES ?? 15);
+
+const CONFIGS: [number, Partial<RuleSet>][] = [
+  [2, {}],
+  [3, { acesWild: true }],
+  [4, { playOut: true }],
+  [6, { jokers: true, playOut: true }],
+];
+
+describe("Fuzz Harness", () => {
+  for (const [playerCount, rules] of CONFIGS) {
+    it(`should keep invariants in random ${playerCount}-player games ${JSON.stringify(rules)}`, () => {
+      const failure = runFuzz(GAMES, 1, { playerCount, rules });
+      expect(failure && formatFuzzFailure(failure)).toBeNull();
+    }, 120_000);
+  }
+
+  it("should play the same game from the same seed", () => {
+    const check = (state: GameState) => {
+      if (state.turnNumber >= 10) throw new Error("stop");
+    };
+    const first = fuzzGame(7, { playerCount: 3, check });
+    expect(first?.steps.length).toBeGreaterThan(10);
+    expect(fuzzGame(7, { playerCount: 3, check })).toEqual(first);
+    expect(fuzzGame(7, { maxSteps: 50 })).toBeNull();
+  });
+
+  it("should shrink a failure to the steps that reproduce it", () => {
+    // Fails once anyone has drawn: a short repro is a few handoffs and plays then a draw
+    const check = (state: GameState) => {
+      if (state.players.some((p) => p.hand.length > 7)) throw new Error("hand grew");
+    };
+    const failure = runFuzz(20, 1, { check });
+    expect(failure).not.toBeNull();
+    if (!failure) return;
+
+    expect(failure.error).toBe("hand grew");
+    expect(failure.steps.length).toBeLessThanOrEqual(4);
+    expect(failure.steps[failure.steps.length - 1].action.action).toBe("draw");
+    expect(replayFuzzSteps(failure.seed, failure.steps, { check })?.error).toBe("hand grew");
+    expect(formatFuzzFailure(failure)).toContain(`Seed ${failure.seed}`);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Randomized fuzz harness for the Last Card engine
+ * Plays seeded random games through applyAction, checks invariants after every
+ * step and shrinks any failure down to a short action list
+ */
+
+import { applyAction, getActingPlayerIndex, iterateLegalActions } from "./actions";
+import { nextRandom } from "./deck";
+import { assertInvariants } from "./invariants";
+import { initializeGame } from "./rules";
+import { Card, GameAction, GameState, RngState, RuleSet } from "./types";
+
+export interface FuzzStep {
+  playerIndex: number;
+  action: GameAction;
+}
+
+export interface FuzzOptions {
+  playerCount?: number; // Defaults to 2
+  rules?: Partial<RuleSet>;
+  maxSteps?: number; // Games still running after this many steps are abandoned (not a failure)
+  check?: (state: GameState) => void; // Throws on a bad state; defaults to assertInvariants
+}
+
+export interface FuzzFailure {
+  seed: number;
+  playerCount: number;
+  rules: Partial<RuleSet>;
+  steps: FuzzStep[]; // Replaying these from the seed reproduces the error
+  error: string;
+}
+
+const DEFAULT_MAX_STEPS = 1000;
+
+// Plays considered per step - enumerating every permutation of a large hand is too slow
+const MAX_PLAYS_PER_STEP = 30;
+
+/**
+ * Get the legal actions for the acting player (each paired with its result),
+ * keeping only the first few card plays
+ */
+export function getFuzzCandidates(state: GameState): { step: FuzzStep; next: GameState }[] {
+  const playerIndex = getActingPlayerIndex(state);
+  const candidates: { step: FuzzStep; next: GameState }[] = [];
+  let plays = 0;
+  for (const action of iterateLegalActions(state, playerIndex)) {
+    if (action.action === "play_cards" && plays++ >= MAX_PLAYS_PER_STEP) break;
+    const result = applyAction(state, playerIndex, action);
+    if (!result.ok) {
+      throw new Error(`Listed action ${action.action} was rejected: ${result.error}`);
+    }
+    candidates.push({ step: { playerIndex, action }, next: result.state });
+  }
+  return candidates;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Run the check against a state, returning the error message instead of throwing
+ */
+function runCheck(state: GameState, options: FuzzOptions): string | null {
+  try {
+    (options.check ?? assertInvariants)(state);
+    return null;
+  } catch (error) {
+    return errorMessage(error);
+  }
+}
+
+/**
+ * Play one random game from a seed. The deal and every action choice derive
+ * from the seed, so the same seed always plays the same game.
+ * @returns The failure (unshrunk), or null if the game finished or ran out of steps cleanly
+ */
+export function fuzzGame(seed: number, options: FuzzOptions = {}): FuzzFailure | null {
+  const playerCount = options.playerCount ?? 2;
+  const rules = options.rules ?? {};
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const steps: FuzzStep[] = [];
+  const fail = (error: string): FuzzFailure => ({ seed, playerCount, rules, steps, error });
+
+  let state: GameState;
+  try {
+    state = initializeGame(playerCount, seed, undefined, rules);
+  } catch (error) {
+    return fail(errorMessage(error));
+  }
+
+  let error = runCheck(state, options);
+  if (error) return fail(error);
+
+  // Action choices use their own stream so they don't disturb the game's RNG
+  let rng: RngState = { seed: (seed ^ 0x5f3759df) >>> 0, counter: 0 };
+
+  while (state.winner === null && steps.length < maxSteps) {
+    let candidates;
+    try {
+      candidates = getFuzzCandidates(state);
+    } catch (caught) {
+      return fail(errorMessage(caught));
+    }
+    if (candidates.length === 0) {
+      return fail(`Player ${getActingPlayerIndex(state)} has no legal action`);
+    }
+
+    const [value, nextRng] = nextRandom(rng);
+    rng = nextRng;
+    const choice = candidates[Math.floor(value * candidates.length)];
+    steps.push(choice.step);
+    state = choice.next;
+
+    error = runCheck(state, options);
+    if (error) return fail(error);
+  }
+
+  return null;
+}
+
+/**
+ * Replay a list of steps from a seed
+ * @param skipRejected Skip steps the engine rejects instead of failing on them
+ * (used while shrinking, where dropping one step can invalidate later ones)
+ * @returns The first error hit (an invariant, an engine exception or, unless
+ * skipped, a rejected action) with the steps actually applied, or null if the
+ * replay ran cleanly
+ */
+export function replayFuzzSteps(
+  seed: number,
+  steps: FuzzStep[],
+  options: FuzzOptions = {},
+  skipRejected = false
+): { error: string; applied: FuzzStep[] } | null {
+  const applied: FuzzStep[] = [];
+  let state: GameState;
+  try {
+    state = initializeGame(options.playerCount ?? 2, seed, undefined, options.rules);
+  } catch (error) {
+    return { error: errorMessage(error), applied };
+  }
+
+  const initialError = runCheck(state, options);
+  if (initialError) return { error: initialError, applied };
+
+  for (const step of steps) {
+    try {
+      const result = applyAction(state, step.playerIndex, step.action);
+      if (!result.ok) {
+        if (skipRejected) continue;
+        return { error: `Rejected: ${result.error}`, applied };
+      }
+      state = result.state;
+    } catch (error) {
+      applied.push(step);
+      return { error: errorMessage(error), applied };
+    }
+
+    applied.push(step);
+    const error = runCheck(state, options);
+    if (error) return { error, applied };
+  }
+
+  return null;
+}
+
+/**
+ * Shrink a failure to a (locally) minimal action list that still reproduces
+ * the same error: repeatedly drops chunks of steps (skipping any that become
+ * illegal), halving the chunk size whenever nothing more can be removed.
+ */
+export function shrinkFuzzFailure(failure: FuzzFailure, options: FuzzOptions = {}): FuzzFailure {
+  const replayOptions = { ...options, playerCount: failure.playerCount, rules: failure.rules };
+  const reproduce = (steps: FuzzStep[]): FuzzStep[] | null => {
+    const result = replayFuzzSteps(failure.seed, steps, replayOptions, true);
+    return result && result.error === failure.error ? result.applied : null;
+  };
+
+  let steps = failure.steps;
+  for (let chunk = Math.max(1, Math.floor(steps.length / 2)); chunk >= 1; ) {
+    let removed = false;
+    for (let start = 0; start < steps.length; ) {
+      const applied = reproduce([...steps.slice(0, start), ...steps.slice(start + chunk)]);
+      if (applied && applied.length < steps.length) {
+        steps = applied;
+        removed = true;
+      } else {
+        start += chunk;
+      }
+    }
+    if (!removed) chunk = Math.floor(chunk / 2);
+  }
+
+  return { ...failure, steps };
+}
+
+/**
+ * Play a batch of seeded random games and return the first failure, shrunk
+ * @param games Number of games to play
+ * @param firstSeed Seed of the first game; later games use consecutive seeds
+ */
+export function runFuzz(
+  games: number,
+  firstSeed = 1,
+  options: FuzzOptions = {}
+): FuzzFailure | null {
+  for (let i = 0; i < games; i++) {
+    const failure = fuzzGame((firstSeed + i) >>> 0, options);
+    if (failure) return shrinkFuzzFailure(failure, options);
+  }
+  return null;
+}
+
+function describeCards(cards: Card[]): string {
+  return cards.map((c) => `${c.rank}${c.suit[0]}`).join(",");
+}
+
+/**
+ * Format a failure as a readable reproduction report
+ */
+export function formatFuzzFailure(failure: FuzzFailure): string {
+  const lines = failure.steps.map(({ playerIndex, action }, i) => {
+    const cards = "cards" in action ? ` ${describeCards(action.cards)}` : "";
+    const card = "card" in action ? ` ${describeCards([action.card])}` : "";
+    const suit = "chosenSuit" in action && action.chosenSuit ? ` -> ${action.chosenSuit}` : "";
+    const inactive = "activateEffect" in action && action.activateEffect === false;
+    return `  ${i + 1}. P${playerIndex} ${action.action}${cards}${card}${suit}${
+      inactive ? " (inactive)" : ""
+    }`;
+  });
+  return [
+    `Fuzz failure: ${failure.error}`,
+    `Seed ${failure.seed}, ${failure.playerCount} players, rules ${JSON.stringify(failure.rules)}`,
+    `Steps (${failure.steps.length}):`,
+    ...lines,
+  ].join("\n");
+}
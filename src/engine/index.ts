@@ -5,4 +5,18 @@
 
 export * from "./types";
 export * from "./deck";
+export * from "./ruleset";
 export * from "./rules";
+export * from "./actions";
+export * from "./match";
+export * from "./invariants";
+export * from "./fuzz";
+export * from "./serialize";
+export * from "./ai";
+export * from "./view";
+export * from "./simulate";
+export * from "./compare";
+export * from "./replay";
+export * from "./notation";
+export * from "./analysis";
+export * from "./fairness";
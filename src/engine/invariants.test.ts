@@ -0,0 +1,71 @@
+/**
+ * Invariant Checker Tests
+ * Each invariant is reported for a deliberately broken state
+ */
+
+import { describe, it, expect } from "vitest";
+import { assertInvariants, getInvariantViolations } from "./invariants";
+import { applyAction } from "./actions";
+import { initializeGame } from "./rules";
+import { GameState } from "./types";
+
+function freshGame(): GameState {
+  return initializeGame(3, 42);
+}
+
+describe("Invariants", () => {
+  it("should accept freshly dealt games", () => {
+    expect(getInvariantViolations(freshGame())).toEqual([]);
+    expect(() => assertInvariants(initializeGame(6, 1, undefined, { jokers: true }))).not.toThrow();
+  });
+
+  it("should report missing and duplicated cards", () => {
+    const state = freshGame();
+    const lost = { ...state, drawPile: state.drawPile.slice(1) };
+    expect(getInvariantViolations(lost).join()).toMatch(/missing/);
+
+    const doubled = { ...state, discardPile: [...state.discardPile, state.drawPile[0]] };
+    expect(getInvariantViolations(doubled).join()).toMatch(/too many/);
+  });
+
+  it("should report more than one open response window", () => {
+    const state: GameState = {
+      ...freshGame(),
+      jackResponse: { jackPlayerId: 0, responderPlayerId: 1, jackSuit: "hearts" },
+      aceResponse: {
+        acePlayerId: 0,
+        responderPlayerId: 1,
+        aceSuit: "spades",
+        chosenSuit: "hearts",
+      },
+    };
+    expect(() => assertInvariants(state)).toThrow(/More than one response window/);
+  });
+
+  it("should report invalid responder indices", () => {
+    const state: GameState = {
+      ...freshGame(),
+      pendingEffects: { forcedDrawCount: 2, skipNextPlayer: false },
+      responsePhase: "responding",
+      responseChainRank: "2",
+      respondingPlayerIndex: 5,
+    };
+    expect(getInvariantViolations(state)).toEqual([
+      "respondingPlayerIndex 5 is not a valid player index",
+    ]);
+    expect(getInvariantViolations({ ...state, respondingPlayerIndex: null }).length).toBe(1);
+  });
+
+  it("should report a turn phase that disagrees with the pending effects", () => {
+    const started = applyAction(freshGame(), 0, { action: "confirm_handoff" });
+    if (!started.ok) throw new Error(started.error);
+
+    const forced = {
+      ...started.state,
+      pendingEffects: { forcedDrawCount: 5, skipNextPlayer: false },
+    };
+    expect(() => assertInvariants(forced)).toThrow(/"playing" while a draw is forced/);
+    expect(getInvariantViolations({ ...started.state, turnPhase: "must-draw" })).toHaveLength(1);
+    expect(getInvariantViolations({ ...started.state, winner: 0 }).join()).toMatch(/disagrees/);
+  });
+});
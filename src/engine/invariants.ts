@@ -0,0 +1,187 @@
+/**
+ * Engine invariants for Last Card
+ * Consistency checks that every reachable GameState must satisfy
+ */
+
+import { createDeck } from "./deck";
+import { getDeckCount } from "./ruleset";
+import { Card, GameState } from "./types";
+
+function cardKey(card: Card): string {
+  return `${card.rank}${card.suit}`;
+}
+
+function isValidPlayerIndex(state: GameState, index: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < state.players.length;
+}
+
+/**
+ * Check that every card of the deck(s) the game was dealt from is in exactly
+ * one place: a hand, the draw pile or the discard pile
+ */
+function checkCardAccounting(state: GameState, violations: string[]): void {
+  const expected = createDeck(getDeckCount(state.rules, state.players.length), state.rules.jokers);
+  const counts = new Map<string, number>();
+  for (const card of expected) {
+    counts.set(cardKey(card), (counts.get(cardKey(card)) ?? 0) + 1);
+  }
+
+  const allCards = [
+    ...state.drawPile,
+    ...state.discardPile,
+    ...state.players.flatMap((p) => p.hand),
+  ];
+  for (const card of allCards) {
+    counts.set(cardKey(card), (counts.get(cardKey(card)) ?? 0) - 1);
+  }
+
+  for (const [key, count] of counts) {
+    if (count > 0) violations.push(`Card ${key} is missing (${count} unaccounted for)`);
+    if (count < 0) violations.push(`Card ${key} appears ${-count} time(s) too many`);
+  }
+  if (allCards.length !== expected.length) {
+    violations.push(`Expected ${expected.length} cards in play, found ${allCards.length}`);
+  }
+}
+
+/**
+ * Check that at most one response window is open and that its player indices are valid
+ */
+function checkResponseWindows(state: GameState, violations: string[]): void {
+  const open = [
+    state.responsePhase !== null && "response phase",
+    state.sevenDispute !== null && "seven dispute",
+    state.jackResponse !== null && "Jack response",
+    state.aceResponse !== null && "Ace response",
+  ].filter(Boolean);
+  if (open.length > 1) {
+    violations.push(`More than one response window is open: ${open.join(", ")}`);
+  }
+
+  const inResponse = state.responsePhase !== null;
+  if (inResponse !== (state.respondingPlayerIndex !== null)) {
+    violations.push("respondingPlayerIndex must be set exactly when a response phase is open");
+  }
+  if (inResponse !== (state.responseChainRank !== null)) {
+    violations.push("responseChainRank must be set exactly when a response phase is open");
+  }
+
+  const indices: [string, number | undefined][] = [
+    ["currentPlayerIndex", state.currentPlayerIndex],
+    ["respondingPlayerIndex", state.respondingPlayerIndex ?? undefined],
+    ["sevenDispute.responderPlayerId", state.sevenDispute?.responderPlayerId],
+    ["jackResponse.jackPlayerId", state.jackResponse?.jackPlayerId],
+    ["jackResponse.responderPlayerId", state.jackResponse?.responderPlayerId],
+    ["aceResponse.acePlayerId", state.aceResponse?.acePlayerId],
+    ["aceResponse.responderPlayerId", state.aceResponse?.responderPlayerId],
+    ["lastCardClaim.playerId", state.lastCardClaim?.playerId],
+  ];
+  for (const [name, index] of indices) {
+    if (index !== undefined && !isValidPlayerIndex(state, index)) {
+      violations.push(`${name} ${index} is not a valid player index`);
+    }
+  }
+}
+
+/**
+ * Check that the turn phase agrees with the pending effects
+ */
+function checkTurnPhase(state: GameState, violations: string[]): void {
+  if ((state.winner !== null) !== (state.turnPhase === "game-over")) {
+    violations.push(`turnPhase "${state.turnPhase}" disagrees with winner ${state.winner}`);
+  }
+  if (state.winner !== null) return;
+
+  const { forcedDrawCount, skipNextPlayer } = state.pendingEffects;
+  const current = state.players[state.currentPlayerIndex];
+  const mustDraw = forcedDrawCount > 0 || (current?.lastCardPenalty ?? false);
+  // A seven dispute pauses the pending effects without changing the phase
+  const paused = state.sevenDispute !== null;
+
+  if (!Number.isInteger(forcedDrawCount) || forcedDrawCount < 0) {
+    violations.push(`forcedDrawCount ${forcedDrawCount} is not a non-negative integer`);
+  }
+  if (state.turnPhase === "must-draw" && !mustDraw) {
+    violations.push('turnPhase is "must-draw" with no forced draw or Last Card penalty');
+  }
+  if (state.turnPhase === "playing" && mustDraw && !paused) {
+    violations.push('turnPhase is "playing" while a draw is forced');
+  }
+  if (state.responseChainRank === "10" && !skipNextPlayer) {
+    violations.push("A 10 chain is open without a pending skip");
+  }
+  if (
+    (state.responseChainRank === "2" || state.responseChainRank === "5") &&
+    forcedDrawCount === 0
+  ) {
+    violations.push(`A ${state.responseChainRank} chain is open without a pending draw`);
+  }
+}
+
+/**
+ * Check the finishing order against the players' hands
+ */
+function checkFinishingOrder(state: GameState, violations: string[]): void {
+  const { finishingOrder } = state;
+  if (new Set(finishingOrder).size !== finishingOrder.length) {
+    violations.push("finishingOrder lists a player more than once");
+  }
+  for (const id of finishingOrder) {
+    if (!isValidPlayerIndex(state, id)) {
+      violations.push(`finishingOrder contains invalid player ${id}`);
+    }
+  }
+
+  if (state.winner !== null) {
+    if (finishingOrder.length !== state.players.length) {
+      violations.push("finishingOrder must rank every player once the game is over");
+    }
+    if (finishingOrder[0] !== state.winner) {
+      violations.push(`Winner ${state.winner} is not first in finishingOrder`);
+    }
+    return;
+  }
+
+  for (const id of finishingOrder) {
+    if (state.players[id]?.hand.length) {
+      violations.push(`Player ${id} has finished but still holds cards`);
+    }
+  }
+  if (finishingOrder.length >= state.players.length - 1) {
+    violations.push("The game is still running with fewer than two players left");
+  }
+  // A player who just went out stays current until their turn ends (or their dispute settles)
+  if (
+    finishingOrder.includes(state.currentPlayerIndex) &&
+    state.turnPhase !== "can-end" &&
+    state.sevenDispute === null
+  ) {
+    violations.push(`Finished player ${state.currentPlayerIndex} is the current player`);
+  }
+}
+
+/**
+ * Collect every invariant the state violates (empty when consistent)
+ */
+export function getInvariantViolations(state: GameState): string[] {
+  const violations: string[] = [];
+  if (state.discardPile.length === 0) {
+    violations.push("Discard pile is empty");
+  }
+  checkCardAccounting(state, violations);
+  checkResponseWindows(state, violations);
+  checkTurnPhase(state, violations);
+  checkFinishingOrder(state, violations);
+  return violations;
+}
+
+/**
+ * Check that a game state is internally consistent
+ * @throws Error listing every violated invariant
+ */
+export function assertInvariants(state: GameState): void {
+  const violations = getInvariantViolations(state);
+  if (violations.length > 0) {
+    throw new Error(`Invariant violated: ${violations.join("; ")}`);
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Match Play Tests
+ * Penalty scoring, round rotation and match completion
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createMatch,
+  dealRound,
+  getHandPenalty,
+  getRoundStartingPlayer,
+  isMatchOver,
+  scoreRound,
+} from "./match";
+import { Card, GameState, Suit } from "./types";
+
+const card = (rank: string, suit: Suit): Card => ({ rank: rank as Card["rank"], suit });
+
+// Finish a dealt round with the given hands left over
+function finishRound(game: GameState, winner: number, hands: Card[][]): GameState {
+  return {
+    ...game,
+    winner,
+    turnPhase: "game-over",
+    players: game.players.map((p, i) => ({ ...p, hand: hands[i] })),
+  };
+}
+
+describe("Match Play", () => {
+  it("should score special cards higher than plain cards", () => {
+    expect(getHandPenalty([card("3", "hearts"), card("K", "clubs")])).toBe(13);
+    expect(getHandPenalty([card("2", "hearts"), card("A", "spades")])).toBe(45);
+  });
+
+  it("should deal each round from the match seed with a rotating starter", () => {
+    const match = createMatch(3, { seed: 11 });
+    const round1 = dealRound(match);
+    expect(round1.currentPlayerIndex).toBe(0);
+    expect(JSON.stringify(dealRound(match))).toBe(JSON.stringify(round1));
+
+    const scored = scoreRound(match, finishRound(round1, 0, [[], [card("4", "clubs")], []]));
+    const round2 = dealRound(scored);
+    expect(scored.roundNumber).toBe(2);
+    expect(round2.currentPlayerIndex).toBe(getRoundStartingPlayer(scored, 2));
+    expect(round2.currentPlayerIndex).toBe(1);
+    expect(round2.players[0].hand).not.toEqual(round1.players[0].hand);
+  });
+
+  it("should accumulate penalties and refuse to score a round twice", () => {
+    const match = createMatch(2, { seed: 5 });
+    const finished = finishRound(dealRound(match), 1, [
+      [card("9", "hearts"), card("J", "clubs")],
+      [],
+    ]);
+    const scored = scoreRound(match, finished);
+
+    expect(scored.scores).toEqual([29, 0]);
+    expect(scored.rounds).toEqual([{ roundNumber: 1, winner: 1, penalties: [29, 0] }]);
+    expect(() => scoreRound({ ...scored, roundNumber: 1 }, finished)).toThrow();
+  });
+
+  it("should end the match when a player reaches the target score", () => {
+    let match = createMatch(2, { seed: 3, targetScore: 40 });
+    match = scoreRound(match, finishRound(dealRound(match), 0, [[], [card("5", "hearts")]]));
+    expect(isMatchOver(match)).toBe(false);
+
+    match = scoreRound(match, finishRound(dealRound(match), 1, [[card("Q", "spades")], []]));
+    expect(isMatchOver(match)).toBe(false);
+
+    match = scoreRound(match, finishRound(dealRound(match), 0, [[], [card("A", "hearts")]]));
+    expect(match.scores).toEqual([10, 45]);
+    expect(match.matchWinner).toBe(0);
+    expect(() => dealRound(match)).toThrow();
+  });
+
+  it("should reject unfinished rounds and invalid targets", () => {
+    const match = createMatch(2, { seed: 1 });
+    expect(() => scoreRound(match, dealRound(match))).toThrow();
+    expect(() => createMatch(2, { targetScore: 0 })).toThrow();
+  });
+});
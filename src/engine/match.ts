@@ -0,0 +1,155 @@
+/**
+ * Multi-round match play for Last Card
+ * Deals rounds and tracks cumulative penalty scores above GameState
+ */
+
+import { nextRandom, randomSeed } from "./deck";
+import { createRuleSet } from "./ruleset";
+import { initializeGame } from "./rules";
+import { Card, GameState, MatchState, PlayerType, Rank, RuleSet } from "./types";
+
+export const DEFAULT_TARGET_SCORE = 100;
+
+/**
+ * Penalty points for a card left in hand when another player goes out.
+ * Plain cards score face value (Q/K 10); power cards score more, Jokers most.
+ */
+export const CARD_PENALTY_POINTS: Record<Rank, number> = {
+  A: 25,
+  "2": 20,
+  "3": 3,
+  "4": 4,
+  "5": 20,
+  "6": 6,
+  "7": 20,
+  "8": 8,
+  "9": 9,
+  "10": 20,
+  J: 20,
+  Q: 10,
+  K: 10,
+  Joker: 50,
+};
+
+export interface MatchOptions {
+  playerTypes?: PlayerType[];
+  rules?: Partial<RuleSet>;
+  targetScore?: number;
+  seed?: number; // Random if omitted
+}
+
+/**
+ * Get the penalty points for a single card
+ */
+export function getCardPenalty(card: Card): number {
+  return CARD_PENALTY_POINTS[card.rank];
+}
+
+/**
+ * Get the penalty points for a whole hand
+ */
+export function getHandPenalty(hand: Card[]): number {
+  return hand.reduce((total, card) => total + getCardPenalty(card), 0);
+}
+
+/**
+ * Start a new match (no round is dealt yet - call dealRound)
+ */
+export function createMatch(playerCount: number, options: MatchOptions = {}): MatchState {
+  const targetScore = options.targetScore ?? DEFAULT_TARGET_SCORE;
+  if (!Number.isInteger(targetScore) || targetScore < 1) {
+    throw new Error("targetScore must be a positive integer");
+  }
+
+  const playerTypes = options.playerTypes ?? Array(playerCount).fill("human" as PlayerType);
+  if (playerTypes.length !== playerCount) {
+    throw new Error("playerTypes array length must match playerCount");
+  }
+
+  return {
+    playerTypes,
+    rules: createRuleSet(options.rules),
+    targetScore,
+    seed: (options.seed ?? randomSeed()) >>> 0,
+    roundNumber: 1,
+    scores: Array(playerCount).fill(0),
+    rounds: [],
+    matchWinner: null,
+  };
+}
+
+/**
+ * Get the player who leads off a round (rotates each round)
+ */
+export function getRoundStartingPlayer(match: MatchState, roundNumber: number): number {
+  return (roundNumber - 1) % match.playerTypes.length;
+}
+
+/**
+ * Get the seed a round is dealt from, given the match seed
+ */
+export function getRoundSeed(matchSeed: number, roundNumber: number): number {
+  const [value] = nextRandom({ seed: matchSeed, counter: roundNumber - 1 });
+  return Math.floor(value * 0x100000000);
+}
+
+/**
+ * Deal the current round. By default the deal is seeded from the match seed
+ * and round number, so a match replays exactly from its seed.
+ * @param roundSeed Seed to deal from instead (online matches hash each round's
+ * seed from the server's secret - see deriveRoundSeed in fairness.ts)
+ */
+export function dealRound(
+  match: MatchState,
+  roundSeed = getRoundSeed(match.seed, match.roundNumber)
+): GameState {
+  if (match.matchWinner !== null) {
+    throw new Error("Match is already over");
+  }
+
+  const game = initializeGame(match.playerTypes.length, roundSeed, match.playerTypes, match.rules);
+
+  return {
+    ...game,
+    currentPlayerIndex: getRoundStartingPlayer(match, match.roundNumber),
+  };
+}
+
+/**
+ * Score a finished round: every player adds the penalty for the cards left in
+ * their hand. Once anyone reaches the target the lowest score wins the match
+ * (ties go to this round's winner, then to the earlier seat); otherwise the
+ * match moves on to the next round.
+ */
+export function scoreRound(match: MatchState, game: GameState): MatchState {
+  if (game.winner === null) {
+    throw new Error("Round is not finished");
+  }
+  if (match.matchWinner !== null || match.rounds.length >= match.roundNumber) {
+    throw new Error("Round has already been scored");
+  }
+
+  const penalties = game.players.map((p) => getHandPenalty(p.hand));
+  const scores = match.scores.map((score, i) => score + penalties[i]);
+  const rounds = [
+    ...match.rounds,
+    { roundNumber: match.roundNumber, winner: game.winner, penalties },
+  ];
+
+  if (!scores.some((score) => score >= match.targetScore)) {
+    return { ...match, scores, rounds, roundNumber: match.roundNumber + 1 };
+  }
+
+  const lowest = Math.min(...scores);
+  const matchWinner =
+    scores[game.winner] === lowest ? game.winner : scores.findIndex((score) => score === lowest);
+
+  return { ...match, scores, rounds, matchWinner };
+}
+
+/**
+ * Check whether the match has been decided
+ */
+export function isMatchOver(match: MatchState): boolean {
+  return match.matchWinner !== null;
+}
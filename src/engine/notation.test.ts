@@ -0,0 +1,144 @@
+/**
+ * Game Notation Tests
+ * Games written as notation read back to the same actions, and the parser
+ * rejects anything malformed or illegal with the line at fault
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyAction, getActingPlayerIndex } from "./actions";
+import { hardAI } from "./ai";
+import { createSeededRng } from "./deck";
+import {
+  actionToNotation,
+  cardToNotation,
+  formatNotation,
+  parseNotation,
+  parseNotationAction,
+  parseNotationCard,
+} from "./notation";
+import { createReplay, getReplayStates, recordReplayStep, Replay } from "./replay";
+import { initializeGame } from "./rules";
+import { GameAction } from "./types";
+
+// Play a game with the Hard AI and record it
+function recordGame(seed: number, rules = {}): Replay {
+  const random = createSeededRng(seed);
+  let state = initializeGame(3, seed, ["human", "ai", "ai"], rules);
+  let replay = createReplay(state, ["Ana", 'Bo "B"', "Cy"], 0);
+  for (let step = 0; step < 3000 && state.winner === null; step++) {
+    const player = getActingPlayerIndex(state);
+    const action: GameAction =
+      state.turnPhase === "waiting"
+        ? { action: "confirm_handoff" }
+        : hardAI.chooseAction(state, player, random)!;
+    const result = applyAction(state, player, action);
+    if (!result.ok) throw new Error(result.error);
+    replay = recordReplayStep(replay, player, action, 0);
+    state = result.state;
+  }
+  return replay;
+}
+
+describe("notation cards and moves", () => {
+  it("should write and read every kind of card", () => {
+    expect(cardToNotation({ rank: "10", suit: "hearts" })).toBe("10H");
+    expect(cardToNotation({ rank: "Joker", suit: "spades" })).toBe("JkS");
+    expect(parseNotationCard("QD")).toEqual({ rank: "Q", suit: "diamonds" });
+    expect(parseNotationCard("JkH")).toEqual({ rank: "Joker", suit: "hearts" });
+    for (const bad of ["1S", "10", "8s", "JkD", "8♠"]) {
+      expect(() => parseNotationCard(bad)).toThrow(/not a card/);
+    }
+  });
+
+  it("should round-trip plays and responses", () => {
+    const actions: GameAction[] = [
+      {
+        action: "play_cards",
+        cards: [
+          { rank: "8", suit: "spades" },
+          { rank: "8", suit: "hearts" },
+        ],
+      },
+      { action: "play_cards", cards: [{ rank: "A", suit: "clubs" }], chosenSuit: "hearts" },
+      { action: "play_cards", cards: [{ rank: "5", suit: "clubs" }], activateEffect: false },
+      { action: "draw" },
+      { action: "declare_last_card" },
+      { action: "deflect_response", card: { rank: "2", suit: "diamonds" } },
+      { action: "seven_cancel_last_card", card: { rank: "7", suit: "clubs" } },
+      { action: "jack_cancel", card: { rank: "J", suit: "spades" } },
+      { action: "ace_accept" },
+    ];
+    expect(actions.map(actionToNotation)).toEqual([
+      "8S,8H",
+      "AC=H",
+      "5C~",
+      "draw",
+      "last",
+      "deflect 2D",
+      "challenge 7C",
+      "jack-cancel JS",
+      "ace-accept",
+    ]);
+    expect(actions.map((a) => parseNotationAction(actionToNotation(a)))).toEqual(actions);
+    expect(() => parseNotationAction("draw 8S")).toThrow(/takes no card/);
+    expect(() => parseNotationAction("deflect")).toThrow(/needs a card/);
+    expect(() => parseNotationAction("8S,")).toThrow(/not a card/);
+  });
+});
+
+describe("game notation", () => {
+  const replay = recordGame(9, { jokers: true, drawFiveAmount: 3 });
+  const text = formatNotation(replay);
+
+  it("should write the deal, rules, result and every move", () => {
+    const lines = text.split("\n");
+    expect(lines).toContain('[Seat2 "Bo \\"B\\""]');
+    expect(lines).toContain('[Seat2Type "ai"]');
+    expect(lines).toContain('[Rules "drawFiveAmount=3 jokers=true"]');
+    expect(lines.some((l) => /^\[Hand3 "(\S+ ){6}\S+"\]$/.test(l))).toBe(true);
+    expect(lines).toContain(`1. P1 ${actionToNotation(replay.steps[0].action)}`);
+    expect(lines.filter((l) => /^\d+\. P\d /.test(l))).toHaveLength(replay.steps.length);
+  });
+
+  it("should read a game back to the same states", () => {
+    const parsed = parseNotation(text);
+    expect(parsed.seats).toEqual(replay.seats);
+    expect(parsed.rules).toEqual(replay.rules);
+    expect(getReplayStates(parsed)).toEqual(getReplayStates(replay));
+    expect(formatNotation(parsed)).toBe(text);
+  });
+
+  it("should accept comments and a header without deal tags", () => {
+    const trimmed = text
+      .split("\n")
+      .filter((l) => !/^\[(Hand\d|Start|Result|Date|Event)/.test(l))
+      .map((l) => (l.startsWith("1. ") ? `${l} {opening}` : l))
+      .join("\n");
+    expect(parseNotation(`\n${trimmed}`).steps).toHaveLength(replay.steps.length);
+  });
+
+  it("should name the line of a malformed or illegal move", () => {
+    const lines = text.split("\n");
+    const first = lines.findIndex((l) => l.startsWith("1. "));
+    const withLine = (line: string, at = first) =>
+      [...lines.slice(0, at), line, ...lines.slice(at + 1)].join("\n");
+
+    expect(() => parseNotation(withLine("1. P1 8S 8H"))).toThrow(`line ${first + 1}:`);
+    expect(() => parseNotation(withLine("2. P1 draw"))).toThrow(/expected move 1/);
+    expect(() => parseNotation(withLine("1. P2 draw"))).toThrow(/line \d+: draw - /);
+    expect(() => parseNotation(withLine("1. P9 draw"))).toThrow(/P9 is not a seat/);
+    expect(() => parseNotation(withLine("1.P1 draw"))).toThrow(/expected a move/);
+  });
+
+  it("should reject a header that doesn't describe the game", () => {
+    const swap = (from: RegExp, to: string) => text.replace(from, to);
+    expect(() => parseNotation(swap(/\[Seed "\d+"\]/, '[Seed "10"]'))).toThrow(
+      /Hand1 doesn't match/
+    );
+    expect(() => parseNotation(swap(/\[Result "[^"]*"\]/, '[Result "*"]'))).toThrow(/Result/);
+    expect(() => parseNotation(swap(/\[Event/, "[Opening"))).toThrow(/unknown tag Opening/);
+    expect(() => parseNotation(swap(/\[Seat3 "Cy"\]\n/, ""))).toThrow(/Seat3Type is not a seat/);
+    expect(() => parseNotation(swap(/jokers=true/, "jokers=yes"))).toThrow(/invalid value/);
+    expect(() => parseNotation(swap(/jokers=true/, "wild=true"))).toThrow(/not a rule/);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Last Card game notation
+ * A plain-text record of a game, in the spirit of chess PGN: a header of tags
+ * describing the deal, then one numbered line per action. Cards are written
+ * rank then suit letter (8S, 10H, QD, JkH for a Joker), so a game can be
+ * pasted into chat, kept in git and diffed.
+ *
+ *   [Event "Last Card"]
+ *   [Seed "1234"]
+ *   [Seat1 "Alice"]
+ *   [Seat2 "Bob"]
+ *   [Seat2Type "ai"]
+ *   [First "1"]
+ *   [Hand1 "8S 9H QD ..."]
+ *   [Hand2 "2C 7D KS ..."]
+ *   [Start "8C"]
+ *   [Result "P1"]
+ *
+ *   1. P1 8S,8H
+ *   2. P2 draw
+ *   3. P1 AS=H {a comment}
+ *
+ * The parser is strict: every line must be well formed and every action must
+ * be legal where it appears.
+ */
+
+import { applyAction } from "./actions";
+import {
+  getReplayInitialState,
+  getReplayStates,
+  Replay,
+  REPLAY_FORMAT,
+  REPLAY_VERSION,
+} from "./replay";
+import { DEFAULT_RULES, MAX_PLAYERS, createRuleSet } from "./ruleset";
+import { Card, GameAction, GameState, PlayerType, Rank, RuleSet, Suit } from "./types";
+
+export const NOTATION_EXTENSION = ".lcn";
+
+const SUIT_LETTERS: Record<Suit, string> = {
+  spades: "S",
+  hearts: "H",
+  diamonds: "D",
+  clubs: "C",
+};
+
+// Actions that take a single card, by notation keyword
+const CARD_ACTIONS = {
+  deflect: "deflect_response",
+  cancel: "cancel_response",
+  seven: "seven_cancel_effect",
+  challenge: "seven_cancel_last_card",
+  dispute: "seven_dispute_play",
+  "jack-cancel": "jack_cancel",
+  "ace-cancel": "ace_cancel",
+} as const;
+
+// Actions without a card, by notation keyword
+const BARE_ACTIONS = {
+  draw: "draw",
+  end: "end_turn",
+  last: "declare_last_card",
+  take: "resolve_response",
+  concede: "seven_dispute_accept",
+  "jack-accept": "jack_accept",
+  "ace-accept": "ace_accept",
+} as const;
+
+type CardKeyword = keyof typeof CARD_ACTIONS;
+type BareKeyword = keyof typeof BARE_ACTIONS;
+
+// ============================================
+// Cards
+// ============================================
+
+export function cardToNotation(card: Card): string {
+  return `${card.rank === "Joker" ? "Jk" : card.rank}${SUIT_LETTERS[card.suit]}`;
+}
+
+/**
+ * Read a card written by cardToNotation
+ * @throws Error if the text isn't a card
+ */
+export function parseNotationCard(text: string): Card {
+  const match = /^(10|[2-9AJQK]|Jk)([SHDC])$/.exec(text);
+  if (!match) throw new Error(`"${text}" is not a card`);
+  const suit = (Object.keys(SUIT_LETTERS) as Suit[]).find((s) => SUIT_LETTERS[s] === match[2])!;
+  if (match[1] === "Jk" && suit !== "hearts" && suit !== "spades") {
+    throw new Error(`"${text}" is not a card (Jokers are JkH or JkS)`);
+  }
+  return { rank: (match[1] === "Jk" ? "Joker" : match[1]) as Rank, suit };
+}
+
+function cardsToNotation(cards: Card[]): string {
+  return cards.map(cardToNotation).join(" ");
+}
+
+// ============================================
+// Actions
+// ============================================
+
+/**
+ * Write one action as a move: the cards of a play (in order, "=H" for an
+ * Ace's suit and "~" when played without its effect) or a keyword
+ */
+export function actionToNotation(action: GameAction): string {
+  switch (action.action) {
+    case "play_cards":
+      return (
+        action.cards.map(cardToNotation).join(",") +
+        (action.chosenSuit ? `=${SUIT_LETTERS[action.chosenSuit]}` : "") +
+        (action.activateEffect === false ? "~" : "")
+      );
+    case "confirm_handoff":
+      throw new Error("Handoffs are not part of the notation");
+    default: {
+      const bare = (Object.keys(BARE_ACTIONS) as BareKeyword[]).find(
+        (k) => BARE_ACTIONS[k] === action.action
+      );
+      if (bare) return bare;
+      const keyword = (Object.keys(CARD_ACTIONS) as CardKeyword[]).find(
+        (k) => CARD_ACTIONS[k] === action.action
+      )!;
+      return `${keyword} ${cardToNotation((action as { card: Card }).card)}`;
+    }
+  }
+}
+
+/**
+ * Read a move written by actionToNotation
+ * @throws Error if the move is malformed
+ */
+export function parseNotationAction(move: string): GameAction {
+  const [keyword, arg, ...rest] = move.split(" ");
+  if (rest.length > 0) throw new Error(`"${move}" has too many parts`);
+
+  if (keyword in BARE_ACTIONS) {
+    if (arg !== undefined) throw new Error(`"${keyword}" takes no card`);
+    return { action: BARE_ACTIONS[keyword as BareKeyword] };
+  }
+  if (keyword in CARD_ACTIONS) {
+    if (arg === undefined) throw new Error(`"${keyword}" needs a card`);
+    return { action: CARD_ACTIONS[keyword as CardKeyword], card: parseNotationCard(arg) };
+  }
+  if (arg !== undefined) throw new Error(`"${keyword}" is not a move`);
+
+  const play = /^([^=~]+)(?:=([SHDC]))?(~)?$/.exec(move);
+  if (!play) throw new Error(`"${move}" is not a move`);
+  const action: GameAction = {
+    action: "play_cards",
+    cards: play[1].split(",").map(parseNotationCard),
+  };
+  if (play[2]) {
+    action.chosenSuit = (Object.keys(SUIT_LETTERS) as Suit[]).find(
+      (s) => SUIT_LETTERS[s] === play[2]
+    );
+  }
+  if (play[3]) action.activateEffect = false;
+  return action;
+}
+
+// ============================================
+// Rules
+// ============================================
+
+// Only rules that differ from the standard ones are written
+function rulesToNotation(rules: RuleSet): string {
+  return (Object.keys(DEFAULT_RULES) as (keyof RuleSet)[])
+    .filter((key) => rules[key] !== DEFAULT_RULES[key])
+    .map((key) => `${key}=${rules[key]}`)
+    .join(" ");
+}
+
+function parseNotationRules(text: string): RuleSet {
+  const overrides: Record<string, number | boolean | "auto"> = {};
+  for (const pair of text.split(" ").filter(Boolean)) {
+    const [key, value, ...rest] = pair.split("=");
+    if (!(key in DEFAULT_RULES) || value === undefined || rest.length > 0 || key in overrides) {
+      throw new Error(`"${pair}" is not a rule`);
+    }
+    const standard = DEFAULT_RULES[key as keyof RuleSet];
+    if (typeof standard === "boolean" && (value === "true" || value === "false")) {
+      overrides[key] = value === "true";
+    } else if (typeof standard !== "boolean" && /^\d+$/.test(value)) {
+      overrides[key] = Number(value);
+    } else if (standard === "auto" && value === "auto") {
+      overrides[key] = value;
+    } else {
+      throw new Error(`"${pair}" has an invalid value`);
+    }
+  }
+  return createRuleSet(overrides as Partial<RuleSet>);
+}
+
+// ============================================
+// Games
+// ============================================
+
+function notationError(message: string, line?: number): never {
+  throw new Error(`Invalid notation: ${line === undefined ? "" : `line ${line}: `}${message}`);
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function resultOf(state: GameState): string {
+  return state.winner === null ? "*" : `P${state.winner + 1}`;
+}
+
+/**
+ * Write a replay as notation. The deal tags (Hand1.., Start) and the Result
+ * are worked out by replaying the game.
+ * @throws Error if a step of the replay is not legal
+ */
+export function formatNotation(replay: Replay): string {
+  const states = getReplayStates(replay);
+  const initial = states[0];
+  const moves = replay.steps.map(
+    (step, i) => `${i + 1}. P${step.player + 1} ${actionToNotation(step.action)}`
+  );
+
+  const tags: [string, string][] = [
+    ["Event", "Last Card"],
+    ["Date", new Date(replay.startedAt).toISOString()],
+    ["Seed", String(replay.seed)],
+  ];
+  replay.seats.forEach((seat, i) => {
+    tags.push([`Seat${i + 1}`, seat.name]);
+    if (seat.playerType !== "human") tags.push([`Seat${i + 1}Type`, seat.playerType]);
+  });
+  tags.push(["First", String(replay.firstPlayer + 1)]);
+  const rules = rulesToNotation(replay.rules);
+  if (rules) tags.push(["Rules", rules]);
+  initial.players.forEach((p, i) => tags.push([`Hand${i + 1}`, cardsToNotation(p.hand)]));
+  tags.push(["Start", cardsToNotation(initial.discardPile)]);
+  tags.push(["Result", resultOf(states[states.length - 1])]);
+
+  const header = tags.map(([name, value]) => `[${name} ${quote(value)}]`);
+  return [...header, "", ...moves, ""].join("\n");
+}
+
+const TAG_LINE = /^\[([A-Za-z][A-Za-z0-9]*) "((?:[^"\\]|\\.)*)"\]$/;
+const MOVE_LINE = /^(\d+)\. P(\d+) ([^{}]+?)(?: \{[^{}]*\})?$/;
+const SEAT_TAG = /^(Seat|Hand)(\d+)(Type)?$/;
+
+/**
+ * Read a game written in notation, checking every action against the engine.
+ * Step times aren't part of the notation, so every step is at 0.
+ * @throws Error naming the offending line if the text is malformed, an action
+ * is illegal, or the deal or result tags don't match the game
+ */
+export function parseNotation(text: string): Replay {
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  const tags = new Map<string, string>();
+
+  // Header: tags up to the first blank line
+  let lineIndex = Math.max(0, lines.findIndex((line) => line.trim() !== ""));
+  for (; lineIndex < lines.length && lines[lineIndex].trim() !== ""; lineIndex++) {
+    const match = TAG_LINE.exec(lines[lineIndex].trim());
+    if (!match) notationError('expected a tag like [Seed "1234"]', lineIndex + 1);
+    const [, name, raw] = match;
+    const seatTag = SEAT_TAG.exec(name);
+    const known =
+      ["Event", "Date", "Seed", "First", "Rules", "Start", "Result"].includes(name) ||
+      (seatTag !== null && !(seatTag[1] === "Hand" && seatTag[3]));
+    if (!known) notationError(`unknown tag ${name}`, lineIndex + 1);
+    if (tags.has(name)) notationError(`duplicate tag ${name}`, lineIndex + 1);
+    tags.set(name, raw.replace(/\\(.)/g, "$1"));
+  }
+  const headerEnd = lineIndex;
+
+  // Seats are numbered from 1 without gaps
+  const seatCount = [...tags.keys()].filter((name) => /^Seat\d+$/.test(name)).length;
+  if (seatCount < 2 || seatCount > MAX_PLAYERS) notationError("a game needs 2-8 seats");
+  for (const name of tags.keys()) {
+    const seatTag = SEAT_TAG.exec(name);
+    if (seatTag && (Number(seatTag[2]) < 1 || Number(seatTag[2]) > seatCount)) {
+      notationError(`${name} is not a seat`);
+    }
+  }
+  const seats = Array.from({ length: seatCount }, (_, i) => {
+    const name = tags.get(`Seat${i + 1}`) ?? notationError(`Seat${i + 1} is missing`);
+    const playerType = tags.get(`Seat${i + 1}Type`) ?? "human";
+    if (playerType !== "human" && playerType !== "ai") {
+      notationError(`Seat${i + 1}Type must be human or ai`);
+    }
+    return { name, playerType: playerType as PlayerType };
+  });
+
+  const seedText = tags.get("Seed") ?? notationError("Seed is missing");
+  const seed = Number(seedText);
+  if (!/^\d+$/.test(seedText) || seed >= 0x100000000) {
+    notationError("Seed must be a 32-bit integer");
+  }
+  const firstText = tags.get("First") ?? "1";
+  const first = Number(firstText);
+  if (!/^\d+$/.test(firstText) || first < 1 || first > seatCount) {
+    notationError("First must be a seat number");
+  }
+  let rules: RuleSet;
+  try {
+    rules = parseNotationRules(tags.get("Rules") ?? "");
+  } catch (error) {
+    notationError(`Rules: ${error instanceof Error ? error.message : error}`);
+  }
+  const date = tags.get("Date");
+  const startedAt = date === undefined ? 0 : Date.parse(date);
+  if (Number.isNaN(startedAt)) notationError("Date is not a date");
+
+  const replay: Replay = {
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    seed,
+    rules,
+    seats,
+    firstPlayer: first - 1,
+    startedAt,
+    steps: [],
+  };
+
+  // The deal tags, when given, must match what the seed deals
+  const initial = getReplayInitialState(replay);
+  initial.players.forEach((p, i) => {
+    const hand = tags.get(`Hand${i + 1}`);
+    if (hand !== undefined && hand !== cardsToNotation(p.hand)) {
+      notationError(`Hand${i + 1} doesn't match the deal from seed ${seed}`);
+    }
+  });
+  const start = tags.get("Start");
+  if (start !== undefined && start !== cardsToNotation(initial.discardPile)) {
+    notationError(`Start doesn't match the deal from seed ${seed}`);
+  }
+
+  // Moves: one numbered line each, played as they are read
+  let state = initial;
+  for (lineIndex = headerEnd; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex].trim();
+    if (line === "") continue;
+    const lineNumber = lineIndex + 1;
+    const match = MOVE_LINE.exec(line);
+    if (!match) notationError("expected a move like 12. P2 8S,8H", lineNumber);
+    const [, number, seat, move] = match;
+    const stepNumber = replay.steps.length + 1;
+    if (Number(number) !== stepNumber) notationError(`expected move ${stepNumber}`, lineNumber);
+    const player = Number(seat) - 1;
+    if (player < 0 || player >= seatCount) notationError(`P${seat} is not a seat`, lineNumber);
+
+    let action: GameAction;
+    try {
+      action = parseNotationAction(move);
+    } catch (error) {
+      return notationError(error instanceof Error ? error.message : String(error), lineNumber);
+    }
+    const result = applyAction(state, player, action, { autoConfirmHandoff: true });
+    if (!result.ok) notationError(`${move} - ${result.error}`, lineNumber);
+    state = result.state;
+    replay.steps.push({ player, action, at: 0 });
+  }
+
+  const result = tags.get("Result");
+  if (result !== undefined && result !== resultOf(state)) {
+    notationError(`Result ${result} doesn't match the game (${resultOf(state)})`);
+  }
+  return replay;
+}
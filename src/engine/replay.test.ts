@@ -0,0 +1,93 @@
+/**
+ * Replay Tests
+ * A recorded game replays to the same states, whether its handoffs were
+ * confirmed by hand (local play) or automatically (online play)
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyAction, getActingPlayerIndex } from "./actions";
+import { normalAI } from "./ai";
+import { createSeededRng } from "./deck";
+import { createMatch, dealRound } from "./match";
+import {
+  createReplay,
+  decodeReplayFragment,
+  encodeReplayFragment,
+  getReplayStates,
+  parseReplay,
+  recordReplayStep,
+  Replay,
+  serializeReplay,
+} from "./replay";
+import { initializeGame } from "./rules";
+import { GameState } from "./types";
+
+// Play a game to the end with the Normal AI, recording it as a local game would
+function recordGame(initial: GameState): { replay: Replay; final: GameState } {
+  const random = createSeededRng(initial.rng.seed);
+  let replay = createReplay(initial, undefined, 1000);
+  let state = initial;
+  for (let step = 0; step < 3000 && state.winner === null; step++) {
+    const player = getActingPlayerIndex(state);
+    const action =
+      state.turnPhase === "waiting"
+        ? { action: "confirm_handoff" as const }
+        : normalAI.chooseAction(state, player, random)!;
+    const result = applyAction(state, player, action);
+    if (!result.ok) throw new Error(result.error);
+    replay = recordReplayStep(replay, player, action, 1000 + step * 10);
+    state = result.state;
+  }
+  return { replay, final: state };
+}
+
+describe("replays", () => {
+  it("should rebuild every state of a recorded game", () => {
+    const { replay, final } = recordGame(initializeGame(3, 11, undefined, { jokers: true }));
+    expect(replay.seats.map((s) => s.name)).toEqual(["Player 1", "Player 2", "Player 3"]);
+    expect(replay.steps.some((s) => s.action.action === "confirm_handoff")).toBe(false);
+    expect(replay.steps[0].at).toBe(10);
+
+    const states = getReplayStates(replay);
+    expect(states).toHaveLength(replay.steps.length + 1);
+    expect(states[states.length - 1]).toEqual(final);
+  });
+
+  it("should start match rounds with the rotated first player", () => {
+    const match = createMatch(3, { targetScore: 50 });
+    const round = dealRound({ ...match, roundNumber: 2 });
+    expect(round.currentPlayerIndex).not.toBe(0);
+
+    const { replay, final } = recordGame(round);
+    expect(replay.firstPlayer).toBe(round.currentPlayerIndex);
+    expect(getReplayStates(replay).pop()).toEqual(final);
+  });
+
+  it("should reject a step that isn't legal where it was recorded", () => {
+    const replay = createReplay(initializeGame(2, 4));
+    const bad = recordReplayStep(replay, 1, { action: "draw" });
+    expect(() => getReplayStates(bad)).toThrow(/step 1 \(draw\)/);
+  });
+});
+
+describe("replay files and links", () => {
+  const { replay } = recordGame(initializeGame(2, 5));
+
+  it("should round-trip through JSON and a URL fragment", () => {
+    const named = { ...replay, seats: replay.seats.map((s, i) => ({ ...s, name: `Zoë ${i}` })) };
+    expect(parseReplay(serializeReplay(named))).toEqual(named);
+    const fragment = encodeReplayFragment(named);
+    expect(fragment).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeReplayFragment(`#${fragment}`)).toEqual(named);
+  });
+
+  it("should reject files that aren't replays", () => {
+    expect(() => parseReplay("{")).toThrow(/not valid JSON/);
+    expect(() => parseReplay(JSON.stringify({ format: "last-card-save" }))).toThrow(/format/);
+    expect(() => parseReplay(serializeReplay({ ...replay, version: 99 }))).toThrow(/version 99/);
+    expect(() => parseReplay(serializeReplay({ ...replay, firstPlayer: 5 }))).toThrow(/first/);
+    const broken = { ...replay, steps: [{ player: 0, at: 0 }] };
+    expect(() => parseReplay(JSON.stringify(broken))).toThrow(/step 1 is malformed/);
+    expect(() => decodeReplayFragment("#%%%")).toThrow(/damaged/);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Game replays for Last Card
+ * A replay is the seed, rule set and seats a game was dealt from plus every
+ * action taken, in order, with who took it and when. The engine is
+ * deterministic, so replaying the actions from the deal rebuilds every state
+ * of the game.
+ */
+
+import { applyAction } from "./actions";
+import { confirmHandoff, initializeGame } from "./rules";
+import { createRuleSet, MAX_PLAYERS, MIN_PLAYERS } from "./ruleset";
+import { GameAction, GameState, PlayerType, RuleSet } from "./types";
+
+export const REPLAY_FORMAT = "last-card-replay";
+export const REPLAY_VERSION = 1;
+
+export interface ReplaySeat {
+  name: string;
+  playerType: PlayerType;
+}
+
+export interface ReplayStep {
+  player: number; // Index of the player who acted
+  action: GameAction;
+  at: number; // Milliseconds since the game started
+}
+
+/**
+ * A recorded game. Handoffs aren't recorded: each player's turn starts as
+ * soon as it is theirs, as in online games.
+ */
+export interface Replay {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  seed: number; // Deals the game (GameState.rng.seed of the starting state)
+  rules: RuleSet;
+  seats: ReplaySeat[];
+  firstPlayer: number; // Who played first (match rounds rotate the first player)
+  startedAt: number; // Epoch milliseconds
+  steps: ReplayStep[];
+}
+
+/**
+ * Start recording a game from its freshly dealt state
+ * @param seatNames Display names by seat; defaults to "Player 1", "Player 2", ...
+ */
+export function createReplay(
+  initial: GameState,
+  seatNames?: string[],
+  startedAt: number = Date.now()
+): Replay {
+  return {
+    format: REPLAY_FORMAT,
+    version: REPLAY_VERSION,
+    seed: initial.rng.seed,
+    rules: initial.rules,
+    seats: initial.players.map((p, i) => ({
+      name: seatNames?.[i] ?? `Player ${i + 1}`,
+      playerType: p.playerType,
+    })),
+    firstPlayer: initial.currentPlayerIndex,
+    startedAt,
+    steps: [],
+  };
+}
+
+/**
+ * Add an action (already accepted by the engine) to a replay. Handoff
+ * confirmations are left out.
+ */
+export function recordReplayStep(
+  replay: Replay,
+  player: number,
+  action: GameAction,
+  at: number = Date.now()
+): Replay {
+  if (action.action === "confirm_handoff") return replay;
+  return { ...replay, steps: [...replay.steps, { player, action, at: at - replay.startedAt }] };
+}
+
+/**
+ * Deal the game a replay starts from, with the first player's turn begun
+ */
+export function getReplayInitialState(replay: Replay): GameState {
+  const dealt = initializeGame(
+    replay.seats.length,
+    replay.seed,
+    replay.seats.map((s) => s.playerType),
+    replay.rules
+  );
+  return confirmHandoff({ ...dealt, currentPlayerIndex: replay.firstPlayer });
+}
+
+/**
+ * Rebuild every state of a replayed game: the starting state, then the state
+ * after each step
+ * @throws Error if a step is not legal where it was recorded
+ */
+export function getReplayStates(replay: Replay): GameState[] {
+  const states = [getReplayInitialState(replay)];
+  replay.steps.forEach((step, i) => {
+    const result = applyAction(states[i], step.player, step.action, { autoConfirmHandoff: true });
+    if (!result.ok) {
+      throw new Error(`Invalid replay: step ${i + 1} (${step.action.action}) - ${result.error}`);
+    }
+    states.push(result.state);
+  });
+  return states;
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+function isIndex(value: unknown, below: number): boolean {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < below;
+}
+
+/**
+ * Load a replay written by serializeReplay, checking its shape (the steps
+ * themselves are checked when getReplayStates plays them)
+ * @throws Error if the JSON is malformed, from a newer version or not a replay
+ */
+export function parseReplay(json: string): Replay {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid replay: not valid JSON");
+  }
+  if (typeof data !== "object" || data === null || data.format !== REPLAY_FORMAT) {
+    throw new Error("Invalid replay: unrecognised format");
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) > REPLAY_VERSION) {
+    throw new Error(`Replay version ${data.version} is not supported (${REPLAY_VERSION})`);
+  }
+
+  const seats = data.seats as ReplaySeat[];
+  if (
+    !Array.isArray(seats) ||
+    seats.length < MIN_PLAYERS ||
+    seats.length > MAX_PLAYERS ||
+    !seats.every(
+      (s) => typeof s?.name === "string" && (s.playerType === "human" || s.playerType === "ai")
+    )
+  ) {
+    throw new Error("Invalid replay: seats are invalid");
+  }
+  if (!isIndex(data.seed, 0x100000000) || !isIndex(data.firstPlayer, seats.length)) {
+    throw new Error("Invalid replay: seed or first player is invalid");
+  }
+  if (typeof data.startedAt !== "number") {
+    throw new Error("Invalid replay: startedAt is invalid");
+  }
+  try {
+    createRuleSet(data.rules as Partial<RuleSet>);
+  } catch (error) {
+    throw new Error(`Invalid replay: rules: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const steps = data.steps as ReplayStep[];
+  if (!Array.isArray(steps)) throw new Error("Invalid replay: steps must be a list");
+  steps.forEach((step, i) => {
+    if (
+      !isIndex(step?.player, seats.length) ||
+      typeof step.action?.action !== "string" ||
+      typeof step.at !== "number"
+    ) {
+      throw new Error(`Invalid replay: step ${i + 1} is malformed`);
+    }
+  });
+
+  // Fill house rules added since the replay was recorded
+  return { ...(data as unknown as Replay), rules: createRuleSet(data.rules as Partial<RuleSet>) };
+}
+
+/**
+ * Encode a replay for a URL fragment (base64url of its JSON)
+ */
+export function encodeReplayFragment(replay: Replay): string {
+  const bytes = new TextEncoder().encode(serializeReplay(replay));
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decode a replay from a URL fragment made by encodeReplayFragment
+ * @throws Error if the fragment isn't a valid replay
+ */
+export function decodeReplayFragment(fragment: string): Replay {
+  let json: string;
+  try {
+    const binary = atob(fragment.replace(/^#/, "").replace(/-/g, "+").replace(/_/g, "/"));
+    json = new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+  } catch {
+    throw new Error("Invalid replay: the link is damaged");
+  }
+  return parseReplay(json);
+}
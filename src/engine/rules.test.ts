@@ -11,6 +11,7 @@ import {
   applyPlay,
   applyDraw,
   applyForcedDraw,
+  applyVoluntaryDraw,
   nextTurn,
   confirmHandoff,
   declareLastCard,
@@ -49,9 +50,28 @@ import {
   canCancelAce,
   applyAceAccept,
   applyAceCancel,
+  // Play validation
+  iterateLegalPlays,
+  hasLegalPlay,
+  // Play-out
+  hasPlayerFinished,
+  isJackActive,
+  formatPlace,
 } from "./rules";
-import { createSeededRng } from "./deck";
-import { Card, GameState, PlayDirection, PlayerType, Suit, cardEquals } from "./types";
+import { createDeck, createRngState, createSeededRng, createShuffledDeck, shuffle } from "./deck";
+import { DEFAULT_RULES, RULE_LIMITS, createRuleSet, getInitialHandSize } from "./ruleset";
+import {
+  Card,
+  GameEvent,
+  GameState,
+  PlayDirection,
+  PlayerType,
+  RuleSet,
+  Suit,
+  cardEquals,
+  countCards,
+  removeCards,
+} from "./types";
 
 // Helper to create a card
 const card = (rank: string, suit: Suit): Card => ({ rank: rank as Card["rank"], suit });
@@ -59,6 +79,8 @@ const card = (rank: string, suit: Suit): Card => ({ rank: rank as Card["rank"],
 // Helper to create a minimal game state for testing
 function createTestState(overrides: Partial<GameState> = {}): GameState {
   const defaultState: GameState = {
+    rules: DEFAULT_RULES,
+    rng: createRngState(0),
     players: [
       { id: 0, hand: [], playerType: "human", declaredLastCard: false, lastCardPenalty: false },
       { id: 1, hand: [], playerType: "human", declaredLastCard: false, lastCardPenalty: false },
@@ -70,6 +92,7 @@ function createTestState(overrides: Partial<GameState> = {}): GameState {
     pendingEffects: { forcedDrawCount: 0, skipNextPlayer: false },
     turnPhase: "playing",
     winner: null,
+    finishingOrder: [],
     lastPlayWasSpecial: false,
     // Direction of play
     direction: "CW" as PlayDirection,
@@ -126,9 +149,16 @@ describe("Game Initialization", () => {
     expect(state1.discardPile).toEqual(state2.discardPile);
   });
 
+  it("should accept a numeric seed and store the RNG state", () => {
+    const state1 = initializeGame(3, 777);
+    const state2 = initializeGame(3, 777);
+    expect(state1.rng.seed).toBe(777);
+    expect(JSON.stringify(state1)).toBe(JSON.stringify(state2));
+  });
+
   it("should reject invalid player counts", () => {
     expect(() => initializeGame(1)).toThrow();
-    expect(() => initializeGame(5)).toThrow();
+    expect(() => initializeGame(9)).toThrow();
   });
 });
 
@@ -658,6 +688,54 @@ describe("Draw Pile and Recycling", () => {
     expect(state.pendingEffects.forcedDrawCount).toBe(0);
     expect(state.players[0].hand).toHaveLength(3); // Original 1 + 2 drawn
   });
+
+  it("should recycle deterministically from the RNG state in GameState", () => {
+    const discards = (["A", "2", "3", "4", "5", "6", "8", "9", "10", "J", "Q", "K"] as const).map(
+      (rank) => card(rank, "clubs")
+    );
+    const makeState = (seed: number) =>
+      setPlayerHand(
+        createTestState({
+          discardPile: [...discards, card("7", "hearts")],
+          drawPile: [],
+          rng: createRngState(seed),
+        }),
+        0,
+        []
+      );
+
+    const first = applyDraw(makeState(42), 5);
+    const second = applyDraw(makeState(42), 5);
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+    expect(first.rng.counter).toBeGreaterThan(0);
+    expect(first.discardPile).toEqual([card("7", "hearts")]);
+
+    const other = applyDraw(makeState(43), 5);
+    expect(other.players[0].hand).not.toEqual(first.players[0].hand);
+  });
+
+  it("should replay a game byte-for-byte from a seed and action list", () => {
+    const plainRanks = ["3", "4", "6", "8", "9", "Q", "K"];
+    const play = (seed: number) => {
+      let state = confirmHandoff(initializeGame(2, seed));
+      const deckShuffleCounter = state.rng.counter;
+      // Play plain single cards, otherwise draw, until the discard pile has been recycled
+      for (let i = 0; i < 200 && state.rng.counter === deckShuffleCounter; i++) {
+        const plain = getLegalPlays(state, state.currentPlayerIndex).find(
+          (lp) => lp.play.cards.length === 1 && plainRanks.includes(lp.play.cards[0].rank)
+        );
+        state = plain ? applyPlay(state, plain.play) : applyDraw(state, 1);
+        if (state.winner !== null) break;
+        state = confirmHandoff(nextTurn(state));
+      }
+      return state;
+    };
+
+    const first = play(2024);
+    expect(first.rng.seed).toBe(2024);
+    expect(first.rng.counter).toBeGreaterThan(51); // Deck shuffle plus a recycle
+    expect(JSON.stringify(play(2024))).toBe(JSON.stringify(first));
+  });
 });
 
 describe("Turn Flow", () => {
@@ -1728,6 +1806,8 @@ function createTestStateNPlayers(
   }));
 
   const defaultState: GameState = {
+    rules: DEFAULT_RULES,
+    rng: createRngState(0),
     players,
     currentPlayerIndex: 0,
     drawPile: [],
@@ -1736,6 +1816,7 @@ function createTestStateNPlayers(
     pendingEffects: { forcedDrawCount: 0, skipNextPlayer: false },
     turnPhase: "playing",
     winner: null,
+    finishingOrder: [],
     lastPlayWasSpecial: false,
     direction: "CW" as PlayDirection,
     responsePhase: null,
@@ -2559,3 +2640,473 @@ describe("Direction Affects All Mechanics", () => {
     expect(canPlaySevenCancelLastCard(state, 3)).toBe(true);
   });
 });
+
+describe("House Rules (RuleSet)", () => {
+  it("should store the default rules on a new game", () => {
+    const state = initializeGame(2);
+    expect(state.rules).toEqual(DEFAULT_RULES);
+  });
+
+  it("should deal the configured hand size", () => {
+    const state = initializeGame(3, createSeededRng(1), undefined, { initialHandSize: 5 });
+    expect(state.players.every((p) => p.hand.length === 5)).toBe(true);
+    expect(state.drawPile).toHaveLength(52 - 15 - 1);
+  });
+
+  it("should reject invalid rule values", () => {
+    expect(() => initializeGame(2, undefined, undefined, { maxCardsPerPlay: 0 })).toThrow();
+    expect(() => initializeGame(4, undefined, undefined, { initialHandSize: 13 })).toThrow();
+  });
+
+  it("should type-check every rule and drop unknown keys", () => {
+    const loose = { acesWild: "yes" } as unknown as Partial<RuleSet>;
+    expect(() => createRuleSet(loose)).toThrow("acesWild must be true or false");
+    expect(() => createRuleSet({ drawTwoAmount: "2" } as unknown as Partial<RuleSet>)).toThrow();
+
+    const extra = { acesWild: true, cheat: true } as Partial<RuleSet>;
+    expect(createRuleSet(extra)).toEqual({ ...DEFAULT_RULES, acesWild: true });
+  });
+
+  it("should use configured draw amounts for 2s, 5s and deflections", () => {
+    const rules = createRuleSet({ drawTwoAmount: 3, drawFiveAmount: 4 });
+    let state = createTestState({ rules, discardPile: [card("6", "hearts")] });
+    state = setPlayerHand(state, 0, [card("5", "hearts"), card("9", "clubs")]);
+    state = setPlayerHand(state, 1, [card("5", "spades"), card("9", "spades")]);
+
+    state = applyPlay(state, { cards: [card("5", "hearts")] });
+    expect(state.pendingEffects.forcedDrawCount).toBe(4);
+
+    state = applyDeflect(state, card("5", "spades"));
+    expect(state.pendingEffects.forcedDrawCount).toBe(8);
+  });
+
+  it("should cap multi-card plays at maxCardsPerPlay", () => {
+    const rules = createRuleSet({ maxCardsPerPlay: 2 });
+    let state = createTestState({ rules, discardPile: [card("8", "hearts")] });
+    state = setPlayerHand(state, 0, [
+      card("8", "clubs"),
+      card("8", "spades"),
+      card("8", "diamonds"),
+      card("4", "clubs"),
+    ]);
+
+    const plays = getLegalPlays(state, 0);
+    expect(plays.every((lp) => lp.play.cards.length <= 2)).toBe(true);
+    expect(
+      isPlayLegal(state, 0, { cards: [card("8", "clubs"), card("8", "spades"), card("8", "diamonds")] })
+    ).toBe(false);
+  });
+
+  it("should allow Aces on anything when acesWild is enabled", () => {
+    let state = createTestState({ discardPile: [card("9", "clubs")] });
+    state = setPlayerHand(state, 0, [card("A", "hearts"), card("4", "diamonds")]);
+    expect(isPlayLegal(state, 0, { cards: [card("A", "hearts")], chosenSuit: "spades" })).toBe(false);
+
+    state = { ...state, rules: createRuleSet({ acesWild: true }) };
+    expect(isPlayLegal(state, 0, { cards: [card("A", "hearts")], chosenSuit: "spades" })).toBe(true);
+  });
+
+  it("should activate Jacks in 2-player games when jackMinPlayers is 2", () => {
+    let state = createTestState({
+      rules: createRuleSet({ jackMinPlayers: 2 }),
+      discardPile: [card("J", "clubs")],
+    });
+    state = setPlayerHand(state, 0, [card("J", "hearts"), card("4", "diamonds")]);
+
+    state = applyPlay(state, { cards: [card("J", "hearts")] });
+    expect(isInJackResponse(state)).toBe(true);
+  });
+
+  it("should use the configured last card penalty draw", () => {
+    let state = createTestState({
+      rules: createRuleSet({ lastCardPenaltyDraw: 2 }),
+      drawPile: [card("3", "clubs"), card("4", "clubs"), card("5", "clubs")],
+      turnPhase: "must-draw",
+    });
+    state = setPlayerHand(state, 0, [card("9", "hearts")]);
+    state = { ...state, players: state.players.map((p, i) => (i === 0 ? { ...p, lastCardPenalty: true } : p)) };
+
+    state = applyForcedDraw(state);
+    expect(state.players[0].hand).toHaveLength(3);
+  });
+
+  it("should keep drawing until a playable card turns up when drawUntilPlayable is on", () => {
+    const base = setPlayerHand(
+      createTestState({
+        discardPile: [card("9", "hearts")],
+        // Drawn from the end: K clubs, 4 spades, then 9 clubs (matches by rank)
+        drawPile: [card("3", "hearts"), card("9", "clubs"), card("4", "spades"), card("K", "clubs")],
+      }),
+      0,
+      [card("6", "diamonds")]
+    );
+    expect(applyVoluntaryDraw(base).players[0].hand).toHaveLength(2);
+
+    const events: GameEvent[] = [];
+    const state = applyVoluntaryDraw(
+      { ...base, rules: createRuleSet({ drawUntilPlayable: true }) },
+      events
+    );
+    expect(state.players[0].hand).toEqual([
+      card("6", "diamonds"),
+      card("K", "clubs"),
+      card("4", "spades"),
+      card("9", "clubs"),
+    ]);
+    expect(state.drawPile).toEqual([card("3", "hearts")]);
+    expect(events).toEqual([
+      { type: "CardsDrawn", playerId: 0, count: 3, forced: false, recycled: false },
+    ]);
+  });
+});
+
+describe("Direct Play Validation", () => {
+  const SUITS: Suit[] = ["hearts", "diamonds", "clubs", "spades"];
+  const playKey = (play: { cards: Card[]; chosenSuit?: Suit }) =>
+    play.cards.map((c) => `${c.rank}${c.suit}`).join(",") + (play.chosenSuit ?? "");
+
+  // Build a random mid-game position from a seeded shuffle
+  function randomPosition(seed: number, handSize: number, acesWild: boolean): GameState {
+    const rng = createSeededRng(seed);
+    const deck = createShuffledDeck(rng);
+    const state = createTestState({
+      rules: createRuleSet({ acesWild }),
+      discardPile: [deck[0]],
+      chosenSuit: deck[0].rank === "A" && rng() < 0.5 ? SUITS[Math.floor(rng() * 4)] : null,
+    });
+    return setPlayerHand(state, 0, deck.slice(1, 1 + handSize));
+  }
+
+  it("should agree with getLegalPlays on random positions and candidate plays", () => {
+    for (let seed = 1; seed <= 150; seed++) {
+      const rng = createSeededRng(seed * 7919);
+      const state = randomPosition(seed, 2 + (seed % 10), seed % 3 === 0);
+      const hand = state.players[0].hand;
+      const legal = getLegalPlays(state, 0);
+      const legalKeys = new Set(legal.map((lp) => playKey(lp.play)));
+
+      // Every enumerated play validates
+      for (const lp of legal) {
+        expect(isPlayLegal(state, 0, lp.play)).toBe(true);
+      }
+
+      // Random candidate sequences validate exactly when enumerated
+      for (let i = 0; i < 60; i++) {
+        const size = 1 + Math.floor(rng() * Math.min(5, hand.length));
+        const cards = shuffle(hand, rng).slice(0, size);
+        const roll = rng();
+        const chosenSuit = roll < 0.5 ? SUITS[Math.floor(roll * 8)] : undefined;
+        const play = { cards, chosenSuit };
+        expect(isPlayLegal(state, 0, play)).toBe(legalKeys.has(playKey(play)));
+      }
+    }
+  });
+
+  it("should reject cards that are not in the hand", () => {
+    let state = createTestState({ discardPile: [card("6", "hearts")] });
+    state = setPlayerHand(state, 0, [card("7", "hearts"), card("8", "clubs")]);
+    expect(isPlayLegal(state, 0, { cards: [card("9", "hearts")] })).toBe(false);
+    expect(isPlayLegal(state, 0, { cards: [card("7", "hearts"), card("7", "hearts")] })).toBe(
+      false
+    );
+  });
+
+  it("should enumerate lazily with single-card plays first", () => {
+    let state = createTestState({ discardPile: [card("6", "hearts")] });
+    state = setPlayerHand(state, 0, [
+      card("9", "hearts"),
+      card("9", "clubs"),
+      card("3", "spades"),
+    ]);
+    const first = iterateLegalPlays(state, 0).next();
+    expect(first.done).toBe(false);
+    expect(first.value?.play.cards).toEqual([card("9", "hearts")]);
+    expect(hasLegalPlay(state, 0)).toBe(true);
+
+    state = setPlayerHand(state, 0, [card("3", "spades"), card("4", "clubs")]);
+    expect(hasLegalPlay(state, 0)).toBe(false);
+  });
+
+  it("should validate 15+ card hands without enumerating their plays", () => {
+    // Long same-suit hand: runs of up to 8 cards give tens of millions of
+    // orderings, so validation can only return by checking the play directly
+    let state = createTestState({ discardPile: [card("6", "hearts")] });
+    const ranks = ["A", "2", "3", "4", "5", "7", "8", "9", "10", "J", "Q", "K"] as const;
+    state = setPlayerHand(state, 0, [
+      ...ranks.map((rank) => card(rank, "hearts")),
+      card("6", "clubs"),
+      card("6", "spades"),
+      card("6", "diamonds"),
+      card("9", "clubs"),
+    ]);
+    state = { ...state, rules: { ...state.rules, maxCardsPerPlay: 8 } };
+    const play = { cards: [card("3", "hearts"), card("9", "hearts"), card("K", "hearts")] };
+
+    // Even lazily, enumeration goes through over a thousand plays to reach this one
+    let enumerated = 0;
+    for (const { play: legal } of iterateLegalPlays(state, 0)) {
+      enumerated++;
+      if (playKey(legal) === playKey(play)) break;
+    }
+    expect(enumerated).toBeGreaterThan(1000);
+
+    expect(isPlayLegal(state, 0, play)).toBe(true);
+    expect(isPlayLegal(state, 0, { cards: [card("3", "hearts"), card("9", "clubs")] })).toBe(false);
+  });
+});
+
+describe("Play-Out for Places", () => {
+  const playOutRules = { ...DEFAULT_RULES, playOut: true };
+
+  it("should end the game on the first finish without playOut, ranking the rest by cards left", () => {
+    let state = createTestStateNPlayers(3);
+    state = setPlayerHand(state, 0, [card("6", "hearts")]);
+    state = setPlayerHand(state, 1, [card("K", "spades"), card("Q", "spades"), card("3", "clubs")]);
+    state = setPlayerHand(state, 2, [card("9", "clubs")]);
+
+    state = applyPlay(state, { cards: [card("6", "hearts")] });
+
+    expect(state.winner).toBe(0);
+    expect(state.turnPhase).toBe("game-over");
+    expect(state.finishingOrder).toEqual([0, 2, 1]);
+  });
+
+  it("should keep playing after the first finish with playOut", () => {
+    let state = createTestStateNPlayers(3, { rules: playOutRules });
+    state = setPlayerHand(state, 0, [card("6", "hearts")]);
+    state = setPlayerHand(state, 1, [card("K", "spades"), card("Q", "spades")]);
+    state = setPlayerHand(state, 2, [card("9", "clubs")]);
+
+    state = applyPlay(state, { cards: [card("6", "hearts")] });
+    expect(state.winner).toBeNull();
+    expect(state.finishingOrder).toEqual([0]);
+    expect(hasPlayerFinished(state, 0)).toBe(true);
+
+    state = nextTurn(state);
+    expect(state.currentPlayerIndex).toBe(1);
+  });
+
+  it("should end once only one player still holds cards", () => {
+    let state = createTestStateNPlayers(3, { rules: playOutRules, finishingOrder: [1] });
+    state = setPlayerHand(state, 0, [card("6", "hearts")]);
+    state = setPlayerHand(state, 2, [card("9", "clubs"), card("4", "clubs")]);
+
+    state = applyPlay(state, { cards: [card("6", "hearts")] });
+
+    expect(state.winner).toBe(1);
+    expect(state.turnPhase).toBe("game-over");
+    expect(state.finishingOrder).toEqual([1, 0, 2]);
+  });
+
+  it("should skip finished players in turn order in both directions", () => {
+    const state = createTestStateNPlayers(4, { rules: playOutRules, finishingOrder: [1] });
+    expect(getNextPlayerIndex(state, 0)).toBe(2);
+    expect(getNextPlayerIndex({ ...state, direction: "CCW" }, 2)).toBe(0);
+  });
+
+  it("should pass response chains over finished players", () => {
+    let state = createTestStateNPlayers(4, { rules: playOutRules, finishingOrder: [1] });
+    state = setPlayerHand(state, 0, [card("2", "diamonds"), card("K", "spades")]);
+    state = setPlayerHand(state, 2, [card("2", "clubs"), card("Q", "spades")]);
+    state = setPlayerHand(state, 3, [card("3", "spades")]);
+
+    state = applyPlay(state, { cards: [card("2", "diamonds")] });
+    expect(state.respondingPlayerIndex).toBe(2);
+
+    state = applyDeflect(state, card("2", "clubs"));
+    expect(state.respondingPlayerIndex).toBe(3);
+    expect(state.pendingEffects.forcedDrawCount).toBe(4);
+  });
+
+  it("should continue a response chain when the deflector goes out", () => {
+    let state = createTestStateNPlayers(3, { rules: playOutRules });
+    state = setPlayerHand(state, 0, [card("2", "diamonds"), card("K", "spades")]);
+    state = setPlayerHand(state, 1, [card("2", "clubs")]);
+    state = setPlayerHand(state, 2, [card("3", "spades")]);
+
+    state = applyPlay(state, { cards: [card("2", "diamonds")] });
+    state = applyDeflect(state, card("2", "clubs"));
+
+    expect(state.winner).toBeNull();
+    expect(state.finishingOrder).toEqual([1]);
+    expect(state.respondingPlayerIndex).toBe(2);
+  });
+
+  it("should skip finished players when a Jack flips direction", () => {
+    let state = createTestStateNPlayers(4, { rules: playOutRules, finishingOrder: [3] });
+    state = setPlayerHand(state, 0, [card("J", "diamonds"), card("K", "spades")]);
+    state = setPlayerHand(state, 1, [card("3", "spades")]);
+    state = setPlayerHand(state, 2, [card("4", "spades")]);
+
+    state = applyPlay(state, { cards: [card("J", "diamonds")] });
+    expect(state.jackResponse?.responderPlayerId).toBe(1);
+
+    state = applyJackAccept(state);
+    expect(state.direction).toBe("CCW");
+    expect(state.currentPlayerIndex).toBe(2);
+  });
+
+  it("should only count players still in toward Jack activation", () => {
+    const state = createTestStateNPlayers(3, { rules: playOutRules });
+    expect(isJackActive(state)).toBe(true);
+    expect(isJackActive({ ...state, finishingOrder: [2] })).toBe(false);
+  });
+
+  it("should format finishing places as ordinals", () => {
+    expect([1, 2, 3, 4, 11, 12, 13, 21, 22].map(formatPlace)).toEqual([
+      "1st",
+      "2nd",
+      "3rd",
+      "4th",
+      "11th",
+      "12th",
+      "13th",
+      "21st",
+      "22nd",
+    ]);
+  });
+});
+
+describe("Multiple Decks (5-8 Players)", () => {
+  it("should build a combined deck with one copy of each card per deck", () => {
+    const deck = createDeck(2);
+    expect(deck).toHaveLength(104);
+    expect(countCards(deck, card("7", "hearts"))).toBe(2);
+  });
+
+  it("should deal 5-8 player games from two decks with smaller hands", () => {
+    const six = initializeGame(6, createSeededRng(3));
+    expect(six.players.every((p) => p.hand.length === 6)).toBe(true);
+    expect(six.drawPile).toHaveLength(104 - 36 - 1);
+
+    const eight = initializeGame(8, createSeededRng(3));
+    expect(eight.players.every((p) => p.hand.length === 5)).toBe(true);
+    expect(getInitialHandSize(DEFAULT_RULES, 4)).toBe(7);
+  });
+
+  it("should reject a single deck that cannot cover every hand", () => {
+    expect(() =>
+      initializeGame(8, undefined, undefined, { deckCount: 1, initialHandSize: 7 })
+    ).toThrow();
+  });
+
+  it("should cap the deck count, hand size, play size and draw amounts", () => {
+    expect(() => createRuleSet({ deckCount: 1e8 })).toThrow(/deckCount/);
+    expect(() => createRuleSet({ initialHandSize: 1000 })).toThrow(/initialHandSize/);
+    expect(() => createRuleSet({ maxCardsPerPlay: 100 })).toThrow(/maxCardsPerPlay/);
+    expect(() => createRuleSet({ drawFiveAmount: 1e6 })).toThrow(/drawFiveAmount/);
+    expect(createRuleSet({ deckCount: RULE_LIMITS.deckCount }).deckCount).toBe(3);
+  });
+
+  it("should remove only one copy of a duplicated card", () => {
+    const hand = [card("7", "hearts"), card("3", "clubs"), card("7", "hearts")];
+    expect(removeCards(hand, [card("7", "hearts")])).toEqual([card("3", "clubs"), card("7", "hearts")]);
+
+    let state = createTestState({ discardPile: [card("7", "clubs")] });
+    state = setPlayerHand(state, 0, [card("7", "hearts"), card("7", "hearts"), card("3", "clubs")]);
+    state = applyPlay(state, { cards: [card("7", "hearts")] });
+    expect(state.players[0].hand).toEqual([card("7", "hearts"), card("3", "clubs")]);
+  });
+
+  it("should keep the other copy when deflecting with a duplicated card", () => {
+    let state = createTestState({ discardPile: [card("6", "hearts")] });
+    state = setPlayerHand(state, 0, [card("2", "hearts"), card("9", "clubs")]);
+    state = setPlayerHand(state, 1, [card("2", "clubs"), card("2", "clubs")]);
+
+    state = applyPlay(state, { cards: [card("2", "hearts")] });
+    state = applyDeflect(state, card("2", "clubs"));
+
+    expect(state.players[1].hand).toEqual([card("2", "clubs")]);
+    expect(state.winner).toBeNull();
+  });
+
+  it("should only allow playing as many copies as the hand holds", () => {
+    let state = createTestState({ discardPile: [card("8", "clubs")] });
+    state = setPlayerHand(state, 0, [card("8", "hearts"), card("8", "hearts"), card("4", "spades")]);
+    expect(isPlayLegal(state, 0, { cards: [card("8", "hearts"), card("8", "hearts")] })).toBe(true);
+
+    state = setPlayerHand(state, 0, [card("8", "hearts"), card("4", "spades"), card("5", "spades")]);
+    expect(isPlayLegal(state, 0, { cards: [card("8", "hearts"), card("8", "hearts")] })).toBe(false);
+  });
+});
+
+describe("Jokers", () => {
+  it("should only add Jokers to the deck when the rule is on", () => {
+    expect(createDeck(1, true)).toHaveLength(54);
+    expect(createDeck(2, true).filter((c) => c.rank === "Joker")).toHaveLength(4);
+
+    const plain = initializeGame(4, createSeededRng(5));
+    const withJokers = initializeGame(4, createSeededRng(5), undefined, { jokers: true });
+    const allCards = (s: GameState) => [
+      ...s.drawPile,
+      ...s.discardPile,
+      ...s.players.flatMap((p) => p.hand),
+    ];
+    expect(allCards(plain).some((c) => c.rank === "Joker")).toBe(false);
+    expect(allCards(withJokers).filter((c) => c.rank === "Joker")).toHaveLength(2);
+  });
+
+  it("should play a Joker on anything and anything on a Joker", () => {
+    let state = createTestState({ discardPile: [card("9", "clubs")] });
+    state = setPlayerHand(state, 0, [card("Joker", "hearts"), card("3", "diamonds")]);
+    expect(isPlayLegal(state, 0, { cards: [card("Joker", "hearts")] })).toBe(true);
+    expect(isPlayLegal(state, 0, { cards: [card("3", "diamonds")] })).toBe(false);
+
+    state = createTestState({ discardPile: [card("Joker", "spades")] });
+    const run = [card("3", "diamonds"), card("4", "diamonds")];
+    state = setPlayerHand(state, 0, [...run, card("K", "hearts")]);
+    expect(isPlayLegal(state, 0, { cards: [card("3", "diamonds")] })).toBe(true);
+    expect(isPlayLegal(state, 0, { cards: run })).toBe(true);
+  });
+
+  it("should never play a Joker as part of a multi-card play", () => {
+    let state = createTestState({ discardPile: [card("9", "hearts")] });
+    const jokers = [card("Joker", "hearts"), card("Joker", "spades")];
+    state = setPlayerHand(state, 0, [...jokers, card("4", "hearts")]);
+    expect(isPlayLegal(state, 0, { cards: jokers })).toBe(false);
+    expect(isPlayLegal(state, 0, { cards: [card("4", "hearts"), jokers[0]] })).toBe(false);
+    expect(getLegalPlays(state, 0).every((lp) => lp.play.cards.length === 1)).toBe(true);
+  });
+
+  it("should force a draw of 5 and open a 5 chain", () => {
+    let state = createTestState({ discardPile: [card("9", "clubs")] });
+    state = setPlayerHand(state, 0, [card("Joker", "spades"), card("3", "hearts")]);
+    state = setPlayerHand(state, 1, [card("5", "hearts"), card("K", "clubs")]);
+
+    state = applyPlay(state, { cards: [card("Joker", "spades")] });
+    expect(state.pendingEffects.forcedDrawCount).toBe(5);
+    expect(state.responseChainRank).toBe("5");
+    expect(getLegalDeflections(state)).toEqual([card("5", "hearts")]);
+    expect(canDeclareLastCard(createTestState(), [card("Joker", "spades")])).toBe(false);
+  });
+
+  it("should deflect 2 and 5 chains but not 10 chains", () => {
+    let state = createTestState({ discardPile: [card("6", "hearts")] });
+    state = setPlayerHand(state, 0, [card("2", "hearts"), card("9", "clubs")]);
+    state = setPlayerHand(state, 1, [card("Joker", "hearts"), card("K", "clubs")]);
+    state = applyPlay(state, { cards: [card("2", "hearts")] });
+    expect(getLegalDeflections(state)).toEqual([card("Joker", "hearts")]);
+
+    state = applyDeflect(state, card("Joker", "hearts"));
+    expect(state.pendingEffects.forcedDrawCount).toBe(7);
+    expect(state.responseChainRank).toBe("2");
+
+    let skip = createTestState({ discardPile: [card("6", "hearts")] });
+    skip = setPlayerHand(skip, 0, [card("10", "hearts"), card("9", "clubs")]);
+    skip = setPlayerHand(skip, 1, [card("Joker", "hearts"), card("K", "clubs")]);
+    skip = applyPlay(skip, { cards: [card("10", "hearts")] });
+    expect(getLegalDeflections(skip)).toEqual([]);
+    expect(applyDeflect(skip, card("Joker", "hearts"))).toBe(skip);
+  });
+
+  it("should let any 7 cancel a Joker", () => {
+    let state = createTestState({ discardPile: [card("9", "clubs")] });
+    state = setPlayerHand(state, 0, [card("Joker", "hearts"), card("3", "hearts")]);
+    state = setPlayerHand(state, 1, [card("7", "diamonds"), card("K", "clubs")]);
+    state = applyPlay(state, { cards: [card("Joker", "hearts")] });
+
+    expect(canPlaySevenCancelEffect(state, 1)).toBe(true);
+    state = applySevenCancelEffect(state, card("7", "diamonds"));
+    expect(isInSevenDispute(state)).toBe(true);
+  });
+});
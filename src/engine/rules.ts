@@ -1,15 +1,25 @@
 /**
  * Last Card Rules Engine
  * Pure functions for game state transitions - no UI dependencies
+ * Transitions take an optional `events` array and push the GameEvents they
+ * cause onto it, in order
  */
 
-import { createShuffledDeck } from "./deck";
+import { createDeck, createRngState, randomSeed, shuffleWithState } from "./deck";
+import {
+  createRuleSet,
+  getDeckCount,
+  getInitialHandSize,
+  MAX_PLAYERS,
+  MIN_PLAYERS,
+} from "./ruleset";
 import {
   AceResponse,
   Card,
-  cardEquals,
   cardToString,
+  GameEvent,
   GameState,
+  IllegalReason,
   JackResponse,
   LastCardClaim,
   LegalPlay,
@@ -19,38 +29,84 @@ import {
   PlayerState,
   PlayerType,
   Rank,
+  removeCards,
+  RuleSet,
   SevenDispute,
   SpecialRank,
   Suit,
   TurnPhase,
 } from "./types";
 
-const INITIAL_HAND_SIZE = 7;
-
 /**
  * Get the next player index respecting the current direction of play
+ * (players who have already gone out are skipped)
  */
 export function getNextPlayerIndex(state: GameState, fromIndex: number): number {
   const playerCount = state.players.length;
-  if (state.direction === "CCW") {
-    return (fromIndex - 1 + playerCount) % playerCount;
+  const step = state.direction === "CCW" ? playerCount - 1 : 1;
+
+  let index = (fromIndex + step) % playerCount;
+  for (let i = 1; i < playerCount && hasPlayerFinished(state, index); i++) {
+    index = (index + step) % playerCount;
   }
-  return (fromIndex + 1) % playerCount;
+  return index;
+}
+
+/**
+ * Check whether a player has gone out (emptied their hand)
+ */
+export function hasPlayerFinished(state: GameState, playerId: number): boolean {
+  return state.finishingOrder.includes(playerId);
+}
+
+/**
+ * Record a player's finish if their hand is now empty. The game ends unless
+ * the playOut rule is on and at least two players still hold cards; at the end
+ * the remaining players are ranked by fewest cards left (ties by seat).
+ * @returns The new finishing order, and the winner once the game is over
+ */
+function checkFinish(
+  state: GameState,
+  players: PlayerState[],
+  playerId: number,
+  events?: GameEvent[]
+): { finishingOrder: number[]; winner: number | null } {
+  if (players[playerId].hand.length > 0) {
+    return { finishingOrder: state.finishingOrder, winner: null };
+  }
+
+  const finishingOrder = [...state.finishingOrder, playerId];
+  const remaining = players
+    .filter((p) => !finishingOrder.includes(p.id))
+    .sort((a, b) => a.hand.length - b.hand.length);
+  events?.push({ type: "PlayerFinished", playerId, place: finishingOrder.length });
+
+  if (state.rules.playOut && remaining.length > 1) {
+    return { finishingOrder, winner: null };
+  }
+
+  events?.push({ type: "GameWon", playerId: finishingOrder[0] });
+  return {
+    finishingOrder: [...finishingOrder, ...remaining.map((p) => p.id)],
+    winner: finishingOrder[0],
+  };
 }
 
 /**
  * Initialize a new game with the specified number of players
- * @param playerCount Number of players (2-4)
- * @param rng Optional seeded RNG for deterministic tests
+ * @param playerCount Number of players (2-8)
+ * @param rng Optional seed, or seeded RNG (used once to derive a seed); random if omitted
  * @param playerTypes Optional array of player types; defaults to all "human"
+ * @param rules Optional house rule overrides; unspecified rules use DEFAULT_RULES
  */
 export function initializeGame(
   playerCount: number,
-  rng?: () => number,
-  playerTypes?: PlayerType[]
+  rng?: number | (() => number),
+  playerTypes?: PlayerType[],
+  rules?: Partial<RuleSet>
 ): GameState {
-  if (playerCount < 2 || playerCount > 4) {
-    throw new Error("Player count must be between 2 and 4");
+  if (playerCount < MIN_PLAYERS || playerCount > MAX_PLAYERS) {
+    throw new Error(`Player count must be between ${MIN_PLAYERS} and ${MAX_PLAYERS}`);
   }
 
   // Default all players to human if not specified
@@ -59,14 +115,29 @@ export function initializeGame(
     throw new Error("playerTypes array length must match playerCount");
   }
 
-  const deck = createShuffledDeck(rng);
+  const ruleSet = createRuleSet(rules);
+  const seed =
+    rng === undefined
+      ? randomSeed()
+      : typeof rng === "number"
+        ? rng
+        : Math.floor(rng() * 0x100000000);
+  const shuffled = shuffleWithState(
+    createDeck(getDeckCount(ruleSet, playerCount), ruleSet.jokers),
+    createRngState(seed)
+  );
+  const deck = shuffled.result;
+  const handSize = getInitialHandSize(ruleSet, playerCount);
+  if (playerCount * handSize >= deck.length) {
+    throw new Error("Not enough cards to deal the initial hands");
+  }
 
   // Deal cards to players
   const players: PlayerState[] = [];
   for (let i = 0; i < playerCount; i++) {
     players.push({
       id: i,
-      hand: deck.splice(0, INITIAL_HAND_SIZE),
+      hand: deck.splice(0, handSize),
       playerType: types[i],
       declaredLastCard: false,
       lastCardPenalty: false,
@@ -86,6 +157,8 @@ export function initializeGame(
   };
 
   return {
+    rules: ruleSet,
+    rng: shuffled.rng,
     players,
     currentPlayerIndex: 0,
     drawPile,
@@ -94,6 +167,7 @@ export function initializeGame(
     pendingEffects,
     turnPhase: "waiting", // Start in waiting phase for hotseat
     winner: null,
+    finishingOrder: [],
     lastPlayWasSpecial: false, // First card doesn't count as special play
     // Direction of play (starts clockwise)
     direction: "CW" as PlayDirection,
@@ -136,21 +210,47 @@ export function getTargetRank(state: GameState): Rank {
  * Check if a card is a special effect card
  */
 export function isSpecialCard(card: Card): boolean {
-  return card.rank === "2" || card.rank === "5" || card.rank === "10";
+  return card.rank === "2" || card.rank === "5" || card.rank === "10" || card.rank === "Joker";
+}
+
+/**
+ * Get the number of cards a special card adds to the forced draw (0 for non-draw cards)
+ */
+function getDrawAmount(card: Card, rules: RuleSet): number {
+  if (card.rank === "2") return rules.drawTwoAmount;
+  if (card.rank === "5" || card.rank === "Joker") return rules.drawFiveAmount;
+  return 0;
+}
+
+/**
+ * Check if Jacks switch direction in this game (depends on how many players are still in)
+ */
+export function isJackActive(state: GameState): boolean {
+  return state.players.length - state.finishingOrder.length >= state.rules.jackMinPlayers;
 }
 
 /**
  * Check if a single card can be legally played on another
  * This checks the fundamental rule: suit must match OR rank must match
- * Note: Aces are NOT wild - they follow the same rules as other cards.
+ * Note: by default Aces are NOT wild - they follow the same rules as other cards.
  * Aces CANNOT be played on other Aces by rank matching (prevents suit-change chaining).
+ * With the acesWild house rule an Ace can be played on anything.
+ * Jokers are wild both ways: a Joker goes on anything and anything goes on a Joker.
  */
 function canCardBePlayed(
   cardToPlay: Card,
   targetSuit: Suit,
   targetRank: Rank,
-  _hasForcedDraw: boolean
+  rules: RuleSet
 ): boolean {
+  if (cardToPlay.rank === "Joker" || targetRank === "Joker") {
+    return true;
+  }
+
+  if (rules.acesWild && cardToPlay.rank === "A") {
+    return true;
+  }
+
   // Aces cannot match other Aces by rank (prevents suit-change chaining)
   // An Ace can only be played on another Ace if it matches the effective suit
   if (cardToPlay.rank === "A" && targetRank === "A") {
@@ -170,109 +270,93 @@ function allSameRank(cards: Card[]): boolean {
   return cards.every((c) => c.rank === rank);
 }
 
+const ALL_SUITS: Suit[] = ["hearts", "diamonds", "clubs", "spades"];
+
 /**
- * Get all legal plays for the current player
+ * Expand a card sequence into legal plays (one per suit choice if it ends on an Ace)
  */
-export function getLegalPlays(state: GameState, playerId: number): LegalPlay[] {
+function* playsForSequence(cards: Card[]): Generator<LegalPlay, void> {
+  const cardList = cards.map(cardToString).join(", ");
+  if (cards[cards.length - 1].rank === "A") {
+    for (const chosenSuit of ALL_SUITS) {
+      yield {
+        play: { cards, chosenSuit },
+        description: `Play ${cardList} and choose ${chosenSuit}`,
+      };
+    }
+  } else {
+    yield { play: { cards }, description: `Play ${cardList}` };
+  }
+}
+
+/**
+ * Lazily enumerate the legal plays for a player.
+ * Single-card plays come first, then same-rank sets, then same-suit runs, so
+ * callers that only need one play (or to know one exists) stop early.
+ */
+export function* iterateLegalPlays(state: GameState, playerId: number): Generator<LegalPlay, void> {
   const player = state.players[playerId];
-  if (!player) return [];
+  if (!player) return;
+
+  // If forced to draw, no plays are legal
+  if (state.pendingEffects.forcedDrawCount > 0 || player.lastCardPenalty) {
+    return;
+  }
 
   const targetSuit = getTargetSuit(state);
   const targetRank = getTargetRank(state);
-  const hasForcedDraw = state.pendingEffects.forcedDrawCount > 0;
   const hand = player.hand;
-
-  const legalPlays: LegalPlay[] = [];
-
-  // If forced to draw, no plays are legal
-  if (hasForcedDraw || player.lastCardPenalty) {
-    return [];
-  }
+  const { rules } = state;
 
   // Going out constraint: final play must be a single card
   const wouldGoOut = (cardCount: number) => hand.length - cardCount === 0;
 
-  // Generate all possible single card plays
+  // Identical cards can produce the same sequence twice - skip repeats
+  const seen = new Set<string>();
+  function* unseen(cards: Card[]): Generator<LegalPlay, void> {
+    const key = cards.map((c) => `${c.rank}${c.suit}`).join(",");
+    if (seen.has(key)) return;
+    seen.add(key);
+    yield* playsForSequence(cards);
+  }
+
+  // Single card plays
   for (const card of hand) {
-    if (canCardBePlayed(card, targetSuit, targetRank, hasForcedDraw)) {
-      if (!wouldGoOut(1) || hand.length === 1) {
-        const play: Play = { cards: [card] };
-        if (card.rank === "A") {
-          // For Aces, generate all 4 suit choices
-          for (const suit of ["hearts", "diamonds", "clubs", "spades"] as Suit[]) {
-            legalPlays.push({
-              play: { ...play, chosenSuit: suit },
-              description: `Play ${cardToString(card)} and choose ${suit}`,
-            });
-          }
-        } else {
-          legalPlays.push({
-            play,
-            description: `Play ${cardToString(card)}`,
-          });
-        }
-      }
+    if (canCardBePlayed(card, targetSuit, targetRank, rules)) {
+      yield* unseen([card]);
     }
   }
 
-  // Generate multi-card plays (same rank combinations)
-  // Group cards by rank
+  // Multi-card plays (same rank combinations) - Jokers are only ever played alone
   const byRank = new Map<Rank, Card[]>();
   for (const card of hand) {
+    if (card.rank === "Joker") continue;
     const group = byRank.get(card.rank) || [];
     group.push(card);
     byRank.set(card.rank, group);
   }
 
-  // For each rank with multiple cards, generate all valid orderings
   for (const [, cards] of byRank) {
     if (cards.length < 2) continue;
 
-    // Generate all permutations for sets of 2, 3, or 4 cards of the same rank
-    for (let size = 2; size <= Math.min(cards.length, 4); size++) {
+    for (let size = 2; size <= Math.min(cards.length, rules.maxCardsPerPlay); size++) {
       // Skip if this would let us go out (final play must be single card)
       if (wouldGoOut(size)) continue;
 
-      // Generate all combinations of 'size' cards from this rank group
-      const combinations = getCombinations(cards, size);
-
-      for (const combo of combinations) {
-        // Generate all permutations of this combination
-        const permutations = getPermutations(combo);
-
-        for (const perm of permutations) {
+      for (const combo of getCombinations(cards, size)) {
+        for (const perm of getPermutations(combo)) {
           // The first card must match the target (either by suit or by rank)
-          const first = perm[0];
-          const firstMatchesSuit = first.suit === targetSuit;
-          const firstMatchesRank = first.rank === targetRank;
-
-          if (!firstMatchesSuit && !firstMatchesRank) continue;
-
-          // All same-rank cards, so sequence is always valid
-          // Add as a legal play
-          const lastCard = perm[perm.length - 1];
-          if (lastCard.rank === "A") {
-            for (const suit of ["hearts", "diamonds", "clubs", "spades"] as Suit[]) {
-              legalPlays.push({
-                play: { cards: perm, chosenSuit: suit },
-                description: `Play ${perm.map(cardToString).join(", ")} and choose ${suit}`,
-              });
-            }
-          } else {
-            legalPlays.push({
-              play: { cards: perm },
-              description: `Play ${perm.map(cardToString).join(", ")}`,
-            });
-          }
+          if (!canStartSameRankSet(perm[0], targetSuit, targetRank, rules)) continue;
+          yield* unseen(perm);
         }
       }
     }
   }
 
-  // Generate mixed-rank multi-card plays (suit runs)
-  // These are sequences where suit stays the same
+  // Mixed-rank multi-card plays (suit runs)
   const bySuit = new Map<Suit, Card[]>();
   for (const card of hand) {
+    if (card.rank === "Joker") continue;
     const group = bySuit.get(card.suit) || [];
     group.push(card);
     bySuit.set(card.suit, group);
@@ -280,66 +364,65 @@ export function getLegalPlays(state: GameState, playerId: number): LegalPlay[] {
 
   for (const [, cards] of bySuit) {
     if (cards.length < 2) continue;
+    if (!cards.some((c) => canStartSuitRun(c, targetSuit, targetRank))) continue;
 
-    // We can play multiple cards of the same suit if:
-    // 1. First card matches target (suit or rank)
-    // 2. All subsequent cards can follow (same suit, so always valid)
-    const firstCanStart = cards.some(
-      (c) => c.suit === targetSuit || c.rank === targetRank || c.rank === "A"
-    );
-    if (!firstCanStart) continue;
-
-    // Generate combinations of 2+ cards from this suit
-    for (let size = 2; size <= Math.min(cards.length, 4); size++) {
+    for (let size = 2; size <= Math.min(cards.length, rules.maxCardsPerPlay); size++) {
       if (wouldGoOut(size)) continue;
 
-      const combinations = getCombinations(cards, size);
-
-      for (const combo of combinations) {
-        // For same-suit plays, we need the first card to match the target
-        // Generate permutations and filter
-        const permutations = getPermutations(combo);
-
-        for (const perm of permutations) {
-          const first = perm[0];
-          const firstMatchesSuit = first.suit === targetSuit;
-          const firstMatchesRank = first.rank === targetRank;
-          const firstIsAce = first.rank === "A";
-
-          if (!firstMatchesSuit && !firstMatchesRank && !firstIsAce) continue;
-
-          // All same suit, so always a valid sequence
-          // Skip if duplicates already handled by same-rank logic
+      for (const combo of getCombinations(cards, size)) {
+        for (const perm of getPermutations(combo)) {
+          if (!canStartSuitRun(perm[0], targetSuit, targetRank)) continue;
+          // Same-rank sequences are covered by the same-rank sets above
           if (allSameRank(perm)) continue;
-
-          const lastCard = perm[perm.length - 1];
-          if (lastCard.rank === "A") {
-            for (const chosenSuit of ["hearts", "diamonds", "clubs", "spades"] as Suit[]) {
-              legalPlays.push({
-                play: { cards: perm, chosenSuit },
-                description: `Play ${perm.map(cardToString).join(", ")} and choose ${chosenSuit}`,
-              });
-            }
-          } else {
-            legalPlays.push({
-              play: { cards: perm },
-              description: `Play ${perm.map(cardToString).join(", ")}`,
-            });
-          }
+          yield* unseen(perm);
         }
       }
     }
   }
+}
 
-  // Deduplicate plays (same cards in same order)
-  const seen = new Set<string>();
-  return legalPlays.filter((lp) => {
-    const key =
-      lp.play.cards.map((c) => `${c.rank}${c.suit}`).join(",") + (lp.play.chosenSuit || "");
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
+/**
+ * Get all legal plays for the current player
+ */
+export function getLegalPlays(state: GameState, playerId: number): LegalPlay[] {
+  return Array.from(iterateLegalPlays(state, playerId));
+}
+
+/**
+ * Check whether a player has at least one legal play (stops at the first one found)
+ */
+export function hasLegalPlay(state: GameState, playerId: number): boolean {
+  return !iterateLegalPlays(state, playerId).next().done;
+}
+
+/**
+ * First card of a same-rank set: matches the target by suit or rank (or is a wild Ace)
+ */
+function canStartSameRankSet(
+  card: Card,
+  targetSuit: Suit,
+  targetRank: Rank,
+  rules: RuleSet
+): boolean {
+  return (
+    card.suit === targetSuit ||
+    card.rank === targetRank ||
+    targetRank === "Joker" ||
+    (rules.acesWild && card.rank === "A")
+  );
+}
+
+/**
+ * First card of a same-suit run: matches the target by suit or rank, or is an Ace
+ * (anything can start a run on a Joker)
+ */
+function canStartSuitRun(card: Card, targetSuit: Suit, targetRank: Rank): boolean {
+  return (
+    card.suit === targetSuit ||
+    card.rank === targetRank ||
+    card.rank === "A" ||
+    targetRank === "Joker"
+  );
 }
 
 /**
@@ -392,33 +475,100 @@ function getPermutations<T>(array: T[]): T[][] {
 }
 
 /**
- * Check if a specific play is legal
+ * Check if every card in a play is available in the hand (respecting duplicates)
+ */
+function handContainsAll(hand: Card[], cards: Card[]): boolean {
+  const remaining = new Map<string, number>();
+  for (const c of hand) {
+    const key = `${c.rank}${c.suit}`;
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+  for (const c of cards) {
+    const key = `${c.rank}${c.suit}`;
+    const count = remaining.get(key) ?? 0;
+    if (count === 0) return false;
+    remaining.set(key, count - 1);
+  }
+  return true;
+}
+
+/**
+ * Explain why a play is illegal (only the card rules - whose turn and phase it
+ * is are checked by explainIllegalAction). Validates the play directly in
+ * linear time; accepts exactly the plays that getLegalPlays would enumerate.
+ * @returns The first rule the play breaks, or null if it is legal
+ */
+export function explainIllegalPlay(
+  state: GameState,
+  playerId: number,
+  play: Play
+): IllegalReason | null {
+  const player = state.players[playerId];
+  if (!player) return { code: "not_your_turn" };
+
+  // If forced to draw, no plays are legal
+  if (player.lastCardPenalty) {
+    return { code: "last_card_penalty", count: state.rules.lastCardPenaltyDraw };
+  }
+  if (state.pendingEffects.forcedDrawCount > 0) {
+    return { code: "must_draw", count: state.pendingEffects.forcedDrawCount };
+  }
+
+  const { cards } = play;
+  if (cards.length === 0) return { code: "no_cards" };
+  if (!handContainsAll(player.hand, cards)) return { code: "card_not_in_hand" };
+
+  // A suit choice is required exactly when the play ends on an Ace
+  if (cards[cards.length - 1].rank === "A") {
+    if (!ALL_SUITS.includes(play.chosenSuit as Suit)) return { code: "suit_choice_required" };
+  } else if (play.chosenSuit !== undefined) {
+    return { code: "suit_choice_not_allowed" };
+  }
+
+  const targetSuit = getTargetSuit(state);
+  const targetRank = getTargetRank(state);
+  const { rules } = state;
+  const noMatch: IllegalReason = { code: "no_match", targetSuit, targetRank };
+
+  if (cards.length === 1) {
+    if (canCardBePlayed(cards[0], targetSuit, targetRank, rules)) return null;
+    return cards[0].rank === "A" && targetRank === "A"
+      ? { code: "ace_on_ace", targetSuit }
+      : noMatch;
+  }
+
+  // Multi-card plays: size limit, no Jokers, and the final play must be a single card
+  if (cards.length > rules.maxCardsPerPlay) {
+    return { code: "too_many_cards", max: rules.maxCardsPerPlay };
+  }
+  if (cards.length === player.hand.length) return { code: "final_play_single_card" };
+  if (cards.some((c) => c.rank === "Joker")) return { code: "joker_not_alone" };
+
+  if (allSameRank(cards)) {
+    return canStartSameRankSet(cards[0], targetSuit, targetRank, rules) ? null : noMatch;
+  }
+
+  const suit = cards[0].suit;
+  if (!cards.every((c) => c.suit === suit)) return { code: "mixed_cards" };
+  return canStartSuitRun(cards[0], targetSuit, targetRank) ? null : noMatch;
+}
+
+/**
+ * Check if a specific play is legal (see explainIllegalPlay)
  */
 export function isPlayLegal(state: GameState, playerId: number, play: Play): boolean {
-  const legalPlays = getLegalPlays(state, playerId);
-  return legalPlays.some(
-    (lp) =>
-      lp.play.cards.length === play.cards.length &&
-      lp.play.cards.every((c, i) => cardEquals(c, play.cards[i])) &&
-      lp.play.chosenSuit === play.chosenSuit
-  );
+  return explainIllegalPlay(state, playerId, play) === null;
 }
 
 /**
  * Apply a play to the game state
  */
-export function applyPlay(state: GameState, play: Play): GameState {
+export function applyPlay(state: GameState, play: Play, events?: GameEvent[]): GameState {
   const playerId = state.currentPlayerIndex;
   const player = state.players[playerId];
 
-  // Remove played cards from hand
-  const newHand = [...player.hand];
-  for (const card of play.cards) {
-    const idx = newHand.findIndex((c) => cardEquals(c, card));
-    if (idx !== -1) {
-      newHand.splice(idx, 1);
-    }
-  }
+  // Remove played cards from hand (one copy each - multi-deck hands can hold duplicates)
+  const newHand = removeCards(player.hand, play.cards);
 
   // Add cards to discard pile
   const newDiscardPile = [...state.discardPile, ...play.cards];
@@ -435,11 +585,13 @@ export function applyPlay(state: GameState, play: Play): GameState {
     for (const card of play.cards) {
       switch (card.rank) {
         case "2":
-          newForcedDraw += 2;
-          responseChainRank = "2";
-          break;
         case "5":
-          newForcedDraw += 5;
+          newForcedDraw += getDrawAmount(card, state.rules);
+          responseChainRank = card.rank;
+          break;
+        case "Joker":
+          // A Joker forces a draw like a 5 and opens a 5 chain
+          newForcedDraw += getDrawAmount(card, state.rules);
           responseChainRank = "5";
           break;
         case "10":
@@ -465,23 +617,30 @@ export function applyPlay(state: GameState, play: Play): GameState {
       : p
   );
 
-  // Check for win
-  const winner = newHand.length === 0 ? playerId : null;
-
   // Get the last card played (top of discard after this play)
   const lastCard = play.cards[play.cards.length - 1];
 
   // Determine chosen suit for Ace plays
   const newChosenSuit = lastCard.rank === "A" ? (play.chosenSuit ?? null) : null;
 
+  events?.push({
+    type: "CardsPlayed",
+    playerId,
+    cards: play.cards,
+    chosenSuit: newChosenSuit,
+    activateEffect: shouldActivate,
+  });
+
+  // Check whether the player went out (winner is only set once the game is over)
+  const { finishingOrder, winner } = checkFinish(state, newPlayers, playerId, events);
+
   // Determine if we enter response phase (for 2/5/10 effects)
   const nextPlayerIndex = getNextPlayerIndex(state, playerId);
   const shouldEnterResponsePhase = hasSpecialEffect && winner === null;
 
-  // Check for activated Jack (3+ players only, single Jack with activation ON)
-  const playerCount = state.players.length;
+  // Check for activated Jack (enough players only, single Jack with activation ON)
   const isActivatedJack =
-    playerCount >= 3 &&
+    isJackActive(state) &&
     shouldActivate &&
     play.cards.length === 1 &&
     lastCard.rank === "J" &&
@@ -503,6 +662,7 @@ export function applyPlay(state: GameState, play: Play): GameState {
       responderPlayerId: nextPlayerIndex,
       jackSuit: lastCard.suit,
     };
+    events?.push({ type: "ResponseOpened", window: "jack", responderPlayerId: nextPlayerIndex });
 
     return {
       ...state,
@@ -515,6 +675,7 @@ export function applyPlay(state: GameState, play: Play): GameState {
       },
       turnPhase: "can-end",
       winner,
+      finishingOrder,
       lastPlayWasSpecial: false,
       responsePhase: null,
       responseChainRank: null,
@@ -535,6 +696,7 @@ export function applyPlay(state: GameState, play: Play): GameState {
       aceSuit: lastCard.suit,
       chosenSuit: play.chosenSuit!,
     };
+    events?.push({ type: "ResponseOpened", window: "ace", responderPlayerId: nextPlayerIndex });
 
     return {
       ...state,
@@ -547,6 +709,7 @@ export function applyPlay(state: GameState, play: Play): GameState {
       },
       turnPhase: "can-end",
       winner,
+      finishingOrder,
       lastPlayWasSpecial: false,
       responsePhase: null,
       responseChainRank: null,
@@ -561,6 +724,7 @@ export function applyPlay(state: GameState, play: Play): GameState {
 
   if (shouldEnterResponsePhase) {
     // Enter response phase - next player can respond
+    events?.push({ type: "ResponseOpened", window: "chain", responderPlayerId: nextPlayerIndex });
     return {
       ...state,
       players: newPlayers,
@@ -572,6 +736,7 @@ export function applyPlay(state: GameState, play: Play): GameState {
       },
       turnPhase: "can-end", // Original player's turn ends
       winner,
+      finishingOrder,
       lastPlayWasSpecial: hasSpecialEffect,
       responsePhase: "responding",
       responseChainRank,
@@ -597,6 +762,7 @@ export function applyPlay(state: GameState, play: Play): GameState {
     },
     turnPhase: winner !== null ? "game-over" : "can-end",
     winner,
+    finishingOrder,
     lastPlayWasSpecial: hasSpecialEffect,
     responsePhase: null,
     responseChainRank: null,
@@ -613,12 +779,20 @@ export function applyPlay(state: GameState, play: Play): GameState {
 
 /**
  * Draw cards from the draw pile, recycling discard pile if needed
+ * @param stopAfter Optional test that ends the draw early once a drawn card passes it
  */
-export function applyDraw(state: GameState, count: number): GameState {
+export function applyDraw(
+  state: GameState,
+  count: number,
+  events?: GameEvent[],
+  stopAfter?: (card: Card) => boolean
+): GameState {
   const playerId = state.currentPlayerIndex;
   let drawPile = [...state.drawPile];
   let discardPile = [...state.discardPile];
+  let rng = state.rng;
   const drawnCards: Card[] = [];
+  let recycled = false;
 
   for (let i = 0; i < count; i++) {
     // Check if we need to recycle the discard pile
@@ -631,25 +805,30 @@ export function applyDraw(state: GameState, count: number): GameState {
 
       // Keep the top card, shuffle the rest into draw pile
       const topCard = discardPile[discardPile.length - 1];
-      const toShuffle = discardPile.slice(0, -1);
-
-      // Shuffle using Fisher-Yates
-      for (let j = toShuffle.length - 1; j > 0; j--) {
-        const k = Math.floor(Math.random() * (j + 1));
-        [toShuffle[j], toShuffle[k]] = [toShuffle[k], toShuffle[j]];
-      }
+      const shuffled = shuffleWithState(discardPile.slice(0, -1), rng);
 
-      drawPile = toShuffle;
+      drawPile = shuffled.result;
+      rng = shuffled.rng;
       discardPile = [topCard];
+      recycled = true;
     }
 
     // Draw a card
     const card = drawPile.pop();
     if (card) {
       drawnCards.push(card);
+      if (stopAfter?.(card)) break;
     }
   }
 
+  events?.push({
+    type: "CardsDrawn",
+    playerId,
+    count: drawnCards.length,
+    forced: state.pendingEffects.forcedDrawCount > 0 || state.players[playerId].lastCardPenalty,
+    recycled,
+  });
+
   // Add drawn cards to player's hand
   const newPlayers = state.players.map((p, i) =>
     i === playerId
@@ -666,6 +845,7 @@ export function applyDraw(state: GameState, count: number): GameState {
     players: newPlayers,
     drawPile,
     discardPile,
+    rng,
     pendingEffects: {
       ...state.pendingEffects,
       forcedDrawCount: 0, // Clear forced draw after drawing
@@ -679,25 +859,37 @@ export function applyDraw(state: GameState, count: number): GameState {
 }
 
 /**
- * Apply a voluntary single draw (when player chooses to draw instead of play)
+ * Apply a voluntary draw (when player chooses to draw instead of play)
+ * Draws a single card, or with the drawUntilPlayable house rule keeps drawing
+ * until a card that could be played on the discard pile turns up (or the piles
+ * run out). Either way the turn then passes.
  */
-export function applyVoluntaryDraw(state: GameState): GameState {
-  return applyDraw(state, 1);
+export function applyVoluntaryDraw(state: GameState, events?: GameEvent[]): GameState {
+  if (!state.rules.drawUntilPlayable) {
+    return applyDraw(state, 1, events);
+  }
+  const targetSuit = getTargetSuit(state);
+  const targetRank = getTargetRank(state);
+  return applyDraw(state, getDrawableCount(state), events, (card) =>
+    canCardBePlayed(card, targetSuit, targetRank, state.rules)
+  );
 }
 
 /**
  * Apply forced draw (from 2s/5s or last card penalty)
  */
-export function applyForcedDraw(state: GameState): GameState {
+export function applyForcedDraw(state: GameState, events?: GameEvent[]): GameState {
   const player = state.players[state.currentPlayerIndex];
-  const count = player.lastCardPenalty ? 1 : state.pendingEffects.forcedDrawCount;
-  return applyDraw(state, count);
+  const count = player.lastCardPenalty
+    ? state.rules.lastCardPenaltyDraw
+    : state.pendingEffects.forcedDrawCount;
+  return applyDraw(state, count, events);
 }
 
 /**
  * Advance to the next player's turn
  */
-export function nextTurn(state: GameState): GameState {
+export function nextTurn(state: GameState, events?: GameEvent[]): GameState {
   if (state.winner !== null) {
     return state;
   }
@@ -706,6 +898,7 @@ export function nextTurn(state: GameState): GameState {
 
   // Apply skip if pending
   if (state.pendingEffects.skipNextPlayer) {
+    events?.push({ type: "PlayerSkipped", playerId: nextIndex });
     nextIndex = getNextPlayerIndex(state, nextIndex);
   }
 
@@ -725,6 +918,14 @@ export function nextTurn(state: GameState): GameState {
     currentPlayer.hand.length === 1 &&
     !currentPlayer.declaredLastCard &&
     !state.lastPlayWasSpecial;
+  if (needsLastCardPenalty) {
+    events?.push({
+      type: "PenaltyApplied",
+      playerId: state.currentPlayerIndex,
+      drawCount: state.rules.lastCardPenaltyDraw,
+    });
+  }
+  events?.push({ type: "TurnStarted", playerId: nextIndex });
 
   // Update players with any new penalties
   const newPlayers = state.players.map((p, i) => {
@@ -796,8 +997,9 @@ export function confirmHandoff(state: GameState): GameState {
 /**
  * Declare "Last Card" - must be called when player will have 1 card remaining
  */
-export function declareLastCard(state: GameState): GameState {
+export function declareLastCard(state: GameState, events?: GameEvent[]): GameState {
   const playerId = state.currentPlayerIndex;
+  events?.push({ type: "LastCardDeclared", playerId });
 
   return {
     ...state,
@@ -815,7 +1017,7 @@ export function declareLastCard(state: GameState): GameState {
 /**
  * Check if the current player can declare "Last Card"
  * - They must be about to play cards that will leave them with exactly 1 card
- * - The play must not be a special effect play (2, 5, 10)
+ * - The play must not be a special effect play (2, 5, 10, Joker)
  * - They haven't already declared this turn
  */
 export function canDeclareLastCard(
@@ -835,10 +1037,8 @@ export function canDeclareLastCard(
     return false;
   }
 
-  // Check if any selected card is a special effect card (2, 5, 10)
-  const hasSpecialCard = selectedCards.some(
-    (c) => c.rank === "2" || c.rank === "5" || c.rank === "10"
-  );
+  // Check if any selected card is a special effect card (2, 5, 10, Joker)
+  const hasSpecialCard = selectedCards.some(isSpecialCard);
   if (hasSpecialCard) {
     return false;
   }
@@ -878,6 +1078,16 @@ export function canDraw(state: GameState): boolean {
   return getDrawableCount(state) > 0 || state.pendingEffects.forcedDrawCount > 0;
 }
 
+/**
+ * Format a finishing place as an ordinal ("1st", "2nd", ...)
+ */
+export function formatPlace(place: number): string {
+  const lastDigit = place % 10;
+  const isTeen = Math.floor(place / 10) % 10 === 1;
+  if (isTeen || lastDigit === 0 || lastDigit > 3) return `${place}th`;
+  return `${place}${["st", "nd", "rd"][lastDigit - 1]}`;
+}
+
 /**
  * Utility to get the current game status message
  */
@@ -903,7 +1113,7 @@ export function getStatusMessage(state: GameState): string {
 
   if (state.turnPhase === "must-draw") {
     if (player.lastCardPenalty) {
-      return `${playerName} must draw 1 (missed Last Card declaration)`;
+      return `${playerName} must draw ${state.rules.lastCardPenaltyDraw} (missed Last Card declaration)`;
     }
     return `${playerName} must draw ${state.pendingEffects.forcedDrawCount}`;
   }
@@ -940,9 +1150,17 @@ export function getRespondingPlayer(state: GameState): PlayerState | null {
   return state.players[state.respondingPlayerIndex];
 }
 
+/**
+ * Check if a card can deflect a response chain of the given rank
+ * (the same rank, or a Joker on a 2 or 5 chain)
+ */
+function canDeflectChain(card: Card, chainRank: SpecialRank): boolean {
+  return card.rank === chainRank || (card.rank === "Joker" && chainRank !== "10");
+}
+
 /**
  * Get legal deflection cards for the responding player
- * For 2/5 chains: can deflect with same rank
+ * For 2/5 chains: can deflect with same rank or a Joker
  * For 10 chains: can deflect with another 10
  */
 export function getLegalDeflections(state: GameState): Card[] {
@@ -955,8 +1173,8 @@ export function getLegalDeflections(state: GameState): Card[] {
 
   if (!chainRank) return [];
 
-  // Can only deflect with the same rank as the chain
-  return responder.hand.filter((card) => card.rank === chainRank);
+  // Can only deflect with the same rank as the chain (or a Joker on a draw chain)
+  return responder.hand.filter((card) => canDeflectChain(card, chainRank));
 }
 
 /**
@@ -983,17 +1201,20 @@ export function getLegalCancels(state: GameState): Card[] {
  * For forced draw (2/5): responding player becomes current and must draw
  * For skip (10): responding player is skipped, next player becomes current
  */
-export function applyResolve(state: GameState): GameState {
+export function applyResolve(state: GameState, events?: GameEvent[]): GameState {
   if (!isInResponsePhase(state) || state.respondingPlayerIndex === null) {
     return state;
   }
 
   const respondingIndex = state.respondingPlayerIndex;
   const isSkip = state.pendingEffects.skipNextPlayer;
+  events?.push({ type: "EffectResolved", playerId: respondingIndex });
 
   if (isSkip) {
     // Skip: the responder is skipped, advance to the next player after them
     const nextPlayerIndex = getNextPlayerIndex(state, respondingIndex);
+    events?.push({ type: "PlayerSkipped", playerId: respondingIndex });
+    events?.push({ type: "TurnStarted", playerId: nextPlayerIndex });
     const nextPlayer = state.players[nextPlayerIndex];
     // Check if next player has a last card penalty
     const nextTurnPhase = nextPlayer.lastCardPenalty ? "must-draw" : "waiting";
@@ -1012,6 +1233,7 @@ export function applyResolve(state: GameState): GameState {
   }
 
   // Forced draw: responder becomes current player and must draw
+  events?.push({ type: "TurnStarted", playerId: respondingIndex });
   return {
     ...state,
     currentPlayerIndex: respondingIndex,
@@ -1031,7 +1253,7 @@ export function applyResolve(state: GameState): GameState {
  * For 2s/5s: adds to the draw count
  * For 10s: passes the skip to the next player
  */
-export function applyDeflect(state: GameState, card: Card): GameState {
+export function applyDeflect(state: GameState, card: Card, events?: GameEvent[]): GameState {
   if (!isInResponsePhase(state) || state.respondingPlayerIndex === null) {
     return state;
   }
@@ -1041,31 +1263,28 @@ export function applyDeflect(state: GameState, card: Card): GameState {
   const chainRank = state.responseChainRank;
 
   // Verify the card is a legal deflection
-  if (card.rank !== chainRank) {
+  if (!chainRank || !canDeflectChain(card, chainRank)) {
     return state;
   }
 
   // Remove the card from responder's hand
-  const newHand = responder.hand.filter((c) => !cardEquals(c, card));
+  const newHand = removeCards(responder.hand, [card]);
 
   // Add card to discard pile
   const newDiscardPile = [...state.discardPile, card];
 
   // Update pending effects
-  let newForcedDraw = state.pendingEffects.forcedDrawCount;
-  if (card.rank === "2") {
-    newForcedDraw += 2;
-  } else if (card.rank === "5") {
-    newForcedDraw += 5;
-  }
+  const newForcedDraw = state.pendingEffects.forcedDrawCount + getDrawAmount(card, state.rules);
 
   // Update players
   const newPlayers = state.players.map((p, i) =>
     i === respondingIndex ? { ...p, hand: newHand } : p
   );
 
-  // Check for win (if responder played their last card)
-  const winner = newHand.length === 0 ? respondingIndex : null;
+  events?.push({ type: "EffectDeflected", playerId: respondingIndex, card });
+
+  // Check whether they went out (the game may continue for places)
+  const { finishingOrder, winner } = checkFinish(state, newPlayers, respondingIndex, events);
 
   if (winner !== null) {
     return {
@@ -1077,6 +1296,7 @@ export function applyDeflect(state: GameState, card: Card): GameState {
         skipNextPlayer: chainRank === "10",
       },
       winner,
+      finishingOrder,
       turnPhase: "game-over",
       responsePhase: null,
       responseChainRank: null,
@@ -1086,11 +1306,13 @@ export function applyDeflect(state: GameState, card: Card): GameState {
 
   // Calculate next responding player (respects direction)
   const nextRespondingIndex = getNextPlayerIndex(state, respondingIndex);
+  events?.push({ type: "ResponseOpened", window: "chain", responderPlayerId: nextRespondingIndex });
 
   return {
     ...state,
     players: newPlayers,
     discardPile: newDiscardPile,
+    finishingOrder,
     pendingEffects: {
       forcedDrawCount: newForcedDraw,
       skipNextPlayer: chainRank === "10",
@@ -1107,9 +1329,9 @@ export function applyDeflect(state: GameState, card: Card): GameState {
  * Only same rank can cancel: 2 cancels 2, 5 cancels 5, 10 cancels 10
  * This is now effectively the same as deflect.
  */
-export function applyCancel(state: GameState, card: Card): GameState {
+export function applyCancel(state: GameState, card: Card, events?: GameEvent[]): GameState {
   // Cancel is now the same as deflect - delegate to applyDeflect
-  return applyDeflect(state, card);
+  return applyDeflect(state, card, events);
 }
 
 // ============================================
@@ -1124,10 +1346,22 @@ export function isInSevenDispute(state: GameState): boolean {
 }
 
 /**
- * Get the effective suit for 7-cancel matching
- * (matches chosenSuit if Ace was played, otherwise top card's suit)
+ * Check if a card is a 7 that can cancel against the discard pile
+ * (matches chosenSuit if Ace was played, otherwise top card's suit;
+ * a Joker has no real suit, so any 7 cancels it)
  */
-function getEffectiveSuitForSevenCancel(state: GameState): Suit {
+function isSevenCancelCard(state: GameState, card: Card): boolean {
+  if (card.rank !== "7") return false;
+  const suit = getSevenCancelSuit(state);
+  return suit === null || card.suit === suit;
+}
+
+/**
+ * Get the suit a 7 must have to cancel an effect or challenge a Last Card
+ * (the effective suit; null when any 7 will do on a Joker)
+ */
+export function getSevenCancelSuit(state: GameState): Suit | null {
+  if (state.chosenSuit === null && getTopCard(state).rank === "Joker") return null;
   return state.chosenSuit ?? getTopCard(state).suit;
 }
 
@@ -1145,9 +1379,8 @@ export function canPlaySevenCancelEffect(state: GameState, playerId: number): bo
     return false;
   }
   // Check if player has a 7 matching the effective suit
-  const effectiveSuit = getEffectiveSuitForSevenCancel(state);
   const player = state.players[playerId];
-  return player.hand.some((c) => c.rank === "7" && c.suit === effectiveSuit);
+  return player.hand.some((c) => isSevenCancelCard(state, c));
 }
 
 /**
@@ -1163,10 +1396,11 @@ export function canPlaySevenCancelLastCard(state: GameState, playerId: number):
   if (state.currentPlayerIndex !== playerId) return false;
   // Must not be the claimer themselves
   if (state.lastCardClaim.playerId === playerId) return false;
+  // Nothing to challenge once the claimer has gone out
+  if (hasPlayerFinished(state, state.lastCardClaim.playerId)) return false;
   // Check if player has a 7 matching the effective suit
-  const effectiveSuit = getEffectiveSuitForSevenCancel(state);
   const player = state.players[playerId];
-  return player.hand.some((c) => c.rank === "7" && c.suit === effectiveSuit);
+  return player.hand.some((c) => isSevenCancelCard(state, c));
 }
 
 /**
@@ -1174,9 +1408,8 @@ export function canPlaySevenCancelLastCard(state: GameState, playerId: number):
  */
 export function getLegalSevenCancelsEffect(state: GameState, playerId: number): Card[] {
   if (!canPlaySevenCancelEffect(state, playerId)) return [];
-  const effectiveSuit = getEffectiveSuitForSevenCancel(state);
   const player = state.players[playerId];
-  return player.hand.filter((c) => c.rank === "7" && c.suit === effectiveSuit);
+  return player.hand.filter((c) => isSevenCancelCard(state, c));
 }
 
 /**
@@ -1184,16 +1417,19 @@ export function getLegalSevenCancelsEffect(state: GameState, playerId: number):
  */
 export function getLegalSevenCancelsLastCard(state: GameState, playerId: number): Card[] {
   if (!canPlaySevenCancelLastCard(state, playerId)) return [];
-  const effectiveSuit = getEffectiveSuitForSevenCancel(state);
   const player = state.players[playerId];
-  return player.hand.filter((c) => c.rank === "7" && c.suit === effectiveSuit);
+  return player.hand.filter((c) => isSevenCancelCard(state, c));
 }
 
 /**
  * Apply a 7 to cancel a pending effect (Type A)
  * Opens a Seven Dispute where opponent can counter-cancel
  */
-export function applySevenCancelEffect(state: GameState, card: Card): GameState {
+export function applySevenCancelEffect(
+  state: GameState,
+  card: Card,
+  events?: GameEvent[]
+): GameState {
   if (!isInResponsePhase(state) || state.respondingPlayerIndex === null) {
     return state;
   }
@@ -1202,13 +1438,12 @@ export function applySevenCancelEffect(state: GameState, card: Card): GameState
   const responder = state.players[respondingIndex];
 
   // Verify the card is a 7 matching the effective suit
-  const effectiveSuit = getEffectiveSuitForSevenCancel(state);
-  if (card.rank !== "7" || card.suit !== effectiveSuit) {
+  if (!isSevenCancelCard(state, card)) {
     return state;
   }
 
   // Remove the 7 from responder's hand
-  const newHand = responder.hand.filter((c) => !cardEquals(c, card));
+  const newHand = removeCards(responder.hand, [card]);
 
   // Add card to discard pile
   const newDiscardPile = [...state.discardPile, card];
@@ -1218,8 +1453,10 @@ export function applySevenCancelEffect(state: GameState, card: Card): GameState
     i === respondingIndex ? { ...p, hand: newHand } : p
   );
 
-  // Check for immediate win (if responder played their last card)
-  const winner = newHand.length === 0 ? respondingIndex : null;
+  events?.push({ type: "DisputeOpened", kind: "EFFECT", playerId: respondingIndex, card });
+
+  // Check whether they went out (the game may continue for places)
+  const { finishingOrder, winner } = checkFinish(state, newPlayers, respondingIndex, events);
 
   if (winner !== null) {
     return {
@@ -1227,6 +1464,7 @@ export function applySevenCancelEffect(state: GameState, card: Card): GameState
       players: newPlayers,
       discardPile: newDiscardPile,
       winner,
+      finishingOrder,
       turnPhase: "game-over",
       responsePhase: null,
       responseChainRank: null,
@@ -1256,6 +1494,7 @@ export function applySevenCancelEffect(state: GameState, card: Card): GameState
     ...state,
     players: newPlayers,
     discardPile: newDiscardPile,
+    finishingOrder,
     chosenSuit: null, // Clear suit override after 7
     // Keep pending effects snapshot'd but paused during dispute
     pendingEffects: state.pendingEffects,
@@ -1271,20 +1510,23 @@ export function applySevenCancelEffect(state: GameState, card: Card): GameState
  * Apply a 7 to cancel a Last Card claim (Type B)
  * Opens a Seven Dispute where the claimer can counter
  */
-export function applySevenCancelLastCard(state: GameState, card: Card): GameState {
+export function applySevenCancelLastCard(
+  state: GameState,
+  card: Card,
+  events?: GameEvent[]
+): GameState {
   if (!state.lastCardClaim) return state;
 
   const playerId = state.currentPlayerIndex;
   const player = state.players[playerId];
 
   // Verify the card is a 7 matching the effective suit
-  const effectiveSuit = getEffectiveSuitForSevenCancel(state);
-  if (card.rank !== "7" || card.suit !== effectiveSuit) {
+  if (!isSevenCancelCard(state, card)) {
     return state;
   }
 
   // Remove the 7 from player's hand
-  const newHand = player.hand.filter((c) => !cardEquals(c, card));
+  const newHand = removeCards(player.hand, [card]);
 
   // Add card to discard pile
   const newDiscardPile = [...state.discardPile, card];
@@ -1294,8 +1536,10 @@ export function applySevenCancelLastCard(state: GameState, card: Card): GameStat
     i === playerId ? { ...p, hand: newHand } : p
   );
 
-  // Check for immediate win
-  const winner = newHand.length === 0 ? playerId : null;
+  events?.push({ type: "DisputeOpened", kind: "LAST_CARD", playerId, card });
+
+  // Check whether they went out (the game may continue for places)
+  const { finishingOrder, winner } = checkFinish(state, newPlayers, playerId, events);
 
   if (winner !== null) {
     return {
@@ -1303,6 +1547,7 @@ export function applySevenCancelLastCard(state: GameState, card: Card): GameStat
       players: newPlayers,
       discardPile: newDiscardPile,
       winner,
+      finishingOrder,
       turnPhase: "game-over",
       sevenDispute: null,
       lastCardClaim: null,
@@ -1322,6 +1567,7 @@ export function applySevenCancelLastCard(state: GameState, card: Card): GameStat
     ...state,
     players: newPlayers,
     discardPile: newDiscardPile,
+    finishingOrder,
     chosenSuit: null, // Clear suit override after 7
     turnPhase: "playing",
     sevenDispute,
@@ -1350,7 +1596,11 @@ export function canPlaySevenDispute(state: GameState, playerId: number): boolean
 /**
  * Apply playing a 7 during an active Seven Dispute (toggles cancelled)
  */
-export function applySevenDisputePlay(state: GameState, card: Card): GameState {
+export function applySevenDisputePlay(
+  state: GameState,
+  card: Card,
+  events?: GameEvent[]
+): GameState {
   if (!state.sevenDispute) return state;
 
   const responderId = state.sevenDispute.responderPlayerId;
@@ -1362,7 +1612,7 @@ export function applySevenDisputePlay(state: GameState, card: Card): GameState {
   }
 
   // Remove the 7 from responder's hand
-  const newHand = responder.hand.filter((c) => !cardEquals(c, card));
+  const newHand = removeCards(responder.hand, [card]);
 
   // Add card to discard pile
   const newDiscardPile = [...state.discardPile, card];
@@ -1372,8 +1622,15 @@ export function applySevenDisputePlay(state: GameState, card: Card): GameState {
     i === responderId ? { ...p, hand: newHand } : p
   );
 
-  // Check for immediate win
-  const winner = newHand.length === 0 ? responderId : null;
+  events?.push({
+    type: "DisputeCardPlayed",
+    playerId: responderId,
+    card,
+    cancelled: !state.sevenDispute.cancelled,
+  });
+
+  // Check whether they went out (the game may continue for places)
+  const { finishingOrder, winner } = checkFinish(state, newPlayers, responderId, events);
 
   if (winner !== null) {
     return {
@@ -1381,6 +1638,7 @@ export function applySevenDisputePlay(state: GameState, card: Card): GameState {
       players: newPlayers,
       discardPile: newDiscardPile,
       winner,
+      finishingOrder,
       turnPhase: "game-over",
       sevenDispute: null,
       lastCardClaim: null,
@@ -1395,6 +1653,7 @@ export function applySevenDisputePlay(state: GameState, card: Card): GameState {
     ...state,
     players: newPlayers,
     discardPile: newDiscardPile,
+    finishingOrder,
     chosenSuit: null,
     sevenDispute: {
       ...state.sevenDispute,
@@ -1407,10 +1666,11 @@ export function applySevenDisputePlay(state: GameState, card: Card): GameState {
 /**
  * Accept the current outcome of a Seven Dispute
  */
-export function applySevenDisputeAccept(state: GameState): GameState {
+export function applySevenDisputeAccept(state: GameState, events?: GameEvent[]): GameState {
   if (!state.sevenDispute) return state;
 
   const dispute = state.sevenDispute;
+  events?.push({ type: "DisputeSettled", kind: dispute.kind, cancelled: dispute.cancelled });
 
   if (dispute.kind === "EFFECT") {
     if (dispute.cancelled) {
@@ -1430,6 +1690,7 @@ export function applySevenDisputeAccept(state: GameState): GameState {
       // The responsible player (original attacker who played 2/5/10) is not affected
       // The current responder must take the effect
       const responderId = dispute.responderPlayerId;
+      events?.push({ type: "TurnStarted", playerId: responderId });
       return {
         ...state,
         currentPlayerIndex: responderId,
@@ -1444,6 +1705,10 @@ export function applySevenDisputeAccept(state: GameState): GameState {
       };
     }
   } else if (dispute.kind === "LAST_CARD") {
+    // Continue the current player's turn, unless their 7 was their last card
+    const turnPhase: TurnPhase = hasPlayerFinished(state, state.currentPlayerIndex)
+      ? "can-end"
+      : "playing";
     if (dispute.cancelled) {
       // Last Card claim was cancelled - player loses their protection
       const claimerId = dispute.lastCardClaimPlayerId!;
@@ -1455,14 +1720,14 @@ export function applySevenDisputeAccept(state: GameState): GameState {
         players: newPlayers,
         sevenDispute: null,
         lastCardClaim: null,
-        turnPhase: "playing", // Continue current player's turn
+        turnPhase,
       };
     } else {
       // Last Card claim NOT cancelled - claim remains valid
       return {
         ...state,
         sevenDispute: null,
-        turnPhase: "playing", // Continue current player's turn
+        turnPhase,
       };
     }
   } else if (dispute.kind === "ACE_SUIT") {
@@ -1471,6 +1736,8 @@ export function applySevenDisputeAccept(state: GameState): GameState {
       // Ace suit change was cancelled - effective suit is the Ace's printed suit
       // Next turn goes to player after the last 7 played
       const nextPlayer = getNextPlayerIndex(state, dispute.responderPlayerId);
+      events?.push({ type: "SuitChanged", suit: snapshot.aceSuit });
+      events?.push({ type: "TurnStarted", playerId: nextPlayer });
       return {
         ...state,
         chosenSuit: snapshot.aceSuit, // Ace's printed suit becomes effective
@@ -1481,6 +1748,8 @@ export function applySevenDisputeAccept(state: GameState): GameState {
     } else {
       // Ace suit change NOT cancelled - destination suit stands
       const nextPlayer = getNextPlayerIndex(state, dispute.responderPlayerId);
+      events?.push({ type: "SuitChanged", suit: snapshot.chosenSuit });
+      events?.push({ type: "TurnStarted", playerId: nextPlayer });
       return {
         ...state,
         chosenSuit: snapshot.chosenSuit, // Destination suit becomes effective
@@ -1565,7 +1834,7 @@ export function canCancelJack(state: GameState, playerId: number): boolean {
 /**
  * Apply "Accept" to a Jack response - direction flips, responder's turn is skipped
  */
-export function applyJackAccept(state: GameState): GameState {
+export function applyJackAccept(state: GameState, events?: GameEvent[]): GameState {
   if (!state.jackResponse) return state;
 
   const jackPlayerId = state.jackResponse.jackPlayerId;
@@ -1578,6 +1847,8 @@ export function applyJackAccept(state: GameState): GameState {
   // where the Jack was played, but now in the opposite direction
   const tempState = { ...state, direction: newDirection };
   const nextPlayerAfterJack = getNextPlayerIndex(tempState, jackPlayerId);
+  events?.push({ type: "DirectionChanged", direction: newDirection });
+  events?.push({ type: "TurnStarted", playerId: nextPlayerAfterJack });
 
   return {
     ...state,
@@ -1594,7 +1865,7 @@ export function applyJackAccept(state: GameState): GameState {
 /**
  * Apply "Cancel" to a Jack response - play a 7 or Jack to prevent direction flip
  */
-export function applyJackCancel(state: GameState, card: Card): GameState {
+export function applyJackCancel(state: GameState, card: Card, events?: GameEvent[]): GameState {
   if (!state.jackResponse) return state;
 
   const responderId = state.jackResponse.responderPlayerId;
@@ -1608,7 +1879,7 @@ export function applyJackCancel(state: GameState, card: Card): GameState {
   if (!isLegalCancel) return state;
 
   // Remove the card from responder's hand
-  const newHand = responder.hand.filter((c) => !cardEquals(c, card));
+  const newHand = removeCards(responder.hand, [card]);
 
   // Add card to discard pile
   const newDiscardPile = [...state.discardPile, card];
@@ -1618,8 +1889,10 @@ export function applyJackCancel(state: GameState, card: Card): GameState {
     i === responderId ? { ...p, hand: newHand } : p
   );
 
-  // Check for immediate win
-  const winner = newHand.length === 0 ? responderId : null;
+  events?.push({ type: "JackCancelled", playerId: responderId, card });
+
+  // Check whether they went out (the game may continue for places)
+  const { finishingOrder, winner } = checkFinish(state, newPlayers, responderId, events);
 
   if (winner !== null) {
     return {
@@ -1627,6 +1900,7 @@ export function applyJackCancel(state: GameState, card: Card): GameState {
       players: newPlayers,
       discardPile: newDiscardPile,
       winner,
+      finishingOrder,
       turnPhase: "game-over",
       jackResponse: null,
       chosenSuit: null, // Clear any suit override
@@ -1636,11 +1910,13 @@ export function applyJackCancel(state: GameState, card: Card): GameState {
   // Direction stays the same (cancel succeeded)
   // Responder's turn is consumed; next turn proceeds in ORIGINAL direction
   const nextPlayerAfterResponder = getNextPlayerIndex(state, responderId);
+  events?.push({ type: "TurnStarted", playerId: nextPlayerAfterResponder });
 
   return {
     ...state,
     players: newPlayers,
     discardPile: newDiscardPile,
+    finishingOrder,
     chosenSuit: null, // Clear suit override after 7 or Jack
     currentPlayerIndex: nextPlayerAfterResponder,
     turnPhase: "waiting",
@@ -1691,11 +1967,13 @@ export function canCancelAce(state: GameState, playerId: number): boolean {
 /**
  * Apply "Accept" to an Ace response - suit change stands, responder takes normal turn
  */
-export function applyAceAccept(state: GameState): GameState {
+export function applyAceAccept(state: GameState, events?: GameEvent[]): GameState {
   if (!state.aceResponse) return state;
 
   const responderId = state.aceResponse.responderPlayerId;
   const chosenSuit = state.aceResponse.chosenSuit;
+  events?.push({ type: "SuitChanged", suit: chosenSuit });
+  events?.push({ type: "TurnStarted", playerId: responderId });
 
   // Suit change stands - responder now takes their normal turn
   return {
@@ -1710,7 +1988,7 @@ export function applyAceAccept(state: GameState): GameState {
 /**
  * Apply "Cancel" to an Ace response - play 7 of Ace's suit, enter 7 dispute
  */
-export function applyAceCancel(state: GameState, card: Card): GameState {
+export function applyAceCancel(state: GameState, card: Card, events?: GameEvent[]): GameState {
   if (!state.aceResponse) return state;
 
   const responderId = state.aceResponse.responderPlayerId;
@@ -1723,7 +2001,7 @@ export function applyAceCancel(state: GameState, card: Card): GameState {
   }
 
   // Remove the 7 from responder's hand
-  const newHand = responder.hand.filter((c) => !cardEquals(c, card));
+  const newHand = removeCards(responder.hand, [card]);
 
   // Add card to discard pile
   const newDiscardPile = [...state.discardPile, card];
@@ -1733,8 +2011,10 @@ export function applyAceCancel(state: GameState, card: Card): GameState {
     i === responderId ? { ...p, hand: newHand } : p
   );
 
-  // Check for immediate win
-  const winner = newHand.length === 0 ? responderId : null;
+  events?.push({ type: "DisputeOpened", kind: "ACE_SUIT", playerId: responderId, card });
+
+  // Check whether they went out (the game may continue for places)
+  const { finishingOrder, winner } = checkFinish(state, newPlayers, responderId, events);
 
   if (winner !== null) {
     return {
@@ -1742,6 +2022,7 @@ export function applyAceCancel(state: GameState, card: Card): GameState {
       players: newPlayers,
       discardPile: newDiscardPile,
       winner,
+      finishingOrder,
       turnPhase: "game-over",
       aceResponse: null,
       sevenDispute: null,
@@ -1767,6 +2048,7 @@ export function applyAceCancel(state: GameState, card: Card): GameState {
     ...state,
     players: newPlayers,
     discardPile: newDiscardPile,
+    finishingOrder,
     chosenSuit: null, // Temporarily clear during dispute
     aceResponse: null,
     sevenDispute,
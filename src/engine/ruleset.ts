@@ -0,0 +1,104 @@
+/**
+ * House rule configuration for Last Card
+ */
+
+import { RuleSet } from "./types";
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+
+/**
+ * The standard rules - reproduces the original hard-coded behaviour
+ */
+export const DEFAULT_RULES: RuleSet = {
+  initialHandSize: "auto",
+  deckCount: "auto",
+  maxCardsPerPlay: 4,
+  jackMinPlayers: 3,
+  acesWild: false,
+  drawTwoAmount: 2,
+  drawFiveAmount: 5,
+  lastCardPenaltyDraw: 1,
+  playOut: false,
+  jokers: false,
+  drawUntilPlayable: false,
+};
+
+/**
+ * Upper bounds on the numeric rules, so that no configuration asks for a game
+ * too big to deal (a hand size the deck can't cover is caught when dealing)
+ */
+export const RULE_LIMITS = {
+  deckCount: 3,
+  initialHandSize: 20,
+  maxCardsPerPlay: 8,
+  drawAmount: 10, // Each of drawTwoAmount, drawFiveAmount and lastCardPenaltyDraw
+};
+
+const BOOLEAN_RULES = ["acesWild", "playOut", "jokers", "drawUntilPlayable"] as const;
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+/**
+ * Build a complete rule set from partial overrides, filling the rest from the
+ * defaults. Only known rules are kept, so the result is safe to store as is.
+ * @throws Error if any rule has the wrong type or is out of range
+ */
+export function createRuleSet(overrides: Partial<RuleSet> = {}): RuleSet {
+  if (typeof overrides !== "object" || overrides === null) {
+    throw new Error("rules must be an object");
+  }
+  const rules = { ...DEFAULT_RULES };
+  for (const key of Object.keys(DEFAULT_RULES) as (keyof RuleSet)[]) {
+    if (overrides[key] !== undefined) Object.assign(rules, { [key]: overrides[key] });
+  }
+
+  const { deckCount, initialHandSize, maxCardsPerPlay } = RULE_LIMITS;
+  if (
+    rules.initialHandSize !== "auto" &&
+    !isIntegerInRange(rules.initialHandSize, 1, initialHandSize)
+  ) {
+    throw new Error(`initialHandSize must be an integer from 1 to ${initialHandSize} or "auto"`);
+  }
+  if (rules.deckCount !== "auto" && !isIntegerInRange(rules.deckCount, 1, deckCount)) {
+    throw new Error(`deckCount must be an integer from 1 to ${deckCount} or "auto"`);
+  }
+  if (!isIntegerInRange(rules.maxCardsPerPlay, 1, maxCardsPerPlay)) {
+    throw new Error(`maxCardsPerPlay must be an integer from 1 to ${maxCardsPerPlay}`);
+  }
+  if (!Number.isInteger(rules.jackMinPlayers) || rules.jackMinPlayers < 2) {
+    throw new Error("jackMinPlayers must be an integer of at least 2");
+  }
+  for (const key of ["drawTwoAmount", "drawFiveAmount", "lastCardPenaltyDraw"] as const) {
+    if (!isIntegerInRange(rules[key], 0, RULE_LIMITS.drawAmount)) {
+      throw new Error(`${key} must be an integer from 0 to ${RULE_LIMITS.drawAmount}`);
+    }
+  }
+  for (const key of BOOLEAN_RULES) {
+    if (typeof rules[key] !== "boolean") {
+      throw new Error(`${key} must be true or false`);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Get the number of decks to shuffle together ("auto": one deck up to 4 players, two above)
+ */
+export function getDeckCount(rules: RuleSet, playerCount: number): number {
+  if (rules.deckCount !== "auto") return rules.deckCount;
+  return playerCount > 4 ? 2 : 1;
+}
+
+/**
+ * Get the number of cards dealt to each player ("auto": 7, dropping to 6 for
+ * 5-6 players and 5 for 7-8 players so larger games stay quick)
+ */
+export function getInitialHandSize(rules: RuleSet, playerCount: number): number {
+  if (rules.initialHandSize !== "auto") return rules.initialHandSize;
+  if (playerCount <= 4) return 7;
+  return playerCount <= 6 ? 6 : 5;
+}
@@ -0,0 +1,114 @@
+/**
+ * Save/Load Tests
+ * Round trips, migration of legacy dumps and rejection of corrupt saves
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyAction, getActingPlayerIndex, getLegalActions } from "./actions";
+import { createMatch, dealRound } from "./match";
+import { initializeGame } from "./rules";
+import { deserializeGame, migrateSave, SAVE_VERSION, serializeGame } from "./serialize";
+import { GameState } from "./types";
+
+// Play the first legal action a few times to get a mid-game state
+function playSomeTurns(state: GameState, actions: number): GameState {
+  for (let i = 0; i < actions && state.winner === null; i++) {
+    const player = getActingPlayerIndex(state);
+    const [action] = getLegalActions(state, player, { multiCardPlays: false });
+    const result = applyAction(state, player, action);
+    if (!result.ok) throw new Error(result.error);
+    state = result.state;
+  }
+  return state;
+}
+
+describe("serializeGame", () => {
+  it("should round-trip a game in progress", () => {
+    const state = playSomeTurns(initializeGame(3, 42, undefined, { jokers: true }), 12);
+    const loaded = deserializeGame(serializeGame(state));
+    expect(loaded).toEqual({ game: state, match: null });
+  });
+
+  it("should round-trip a match with its current round", () => {
+    const match = createMatch(2, { targetScore: 50, seed: 7 });
+    const game = dealRound(match);
+    expect(deserializeGame(serializeGame(game, match))).toEqual({ game, match });
+  });
+
+  it("should write the current version", () => {
+    const save = JSON.parse(serializeGame(initializeGame(2, 1)));
+    expect(save.format).toBe("last-card-save");
+    expect(save.version).toBe(SAVE_VERSION);
+  });
+});
+
+describe("migrateSave", () => {
+  it("should upgrade an unversioned GameState dump", () => {
+    const state = initializeGame(2, 5);
+    const legacy: Record<string, unknown> = { ...state };
+    for (const key of ["rules", "rng", "finishingOrder", "jackResponse", "aceResponse"]) {
+      delete legacy[key];
+    }
+
+    const loaded = deserializeGame(JSON.stringify(legacy));
+    expect(loaded.game).toEqual({ ...state, rng: { seed: 0, counter: 0 } });
+    expect(loaded.match).toBe(null);
+  });
+
+  it("should fill house rules added since a save was written", () => {
+    const state = initializeGame(2, 5);
+    const oldRules: Record<string, unknown> = { ...state.rules };
+    delete oldRules.jokers;
+    delete oldRules.playOut;
+    const legacy = { ...state, rules: oldRules };
+    expect(deserializeGame(JSON.stringify(legacy)).game.rules).toEqual(state.rules);
+  });
+
+  it("should turn drawUntilPlayable off in version 1 saves", () => {
+    const state = initializeGame(2, 5);
+    const v1Rules: Record<string, unknown> = { ...state.rules };
+    delete v1Rules.drawUntilPlayable;
+    const save = { format: "last-card-save", version: 1, game: { ...state, rules: v1Rules } };
+    const loaded = deserializeGame(JSON.stringify({ ...save, match: null }));
+    expect(loaded.game.rules.drawUntilPlayable).toBe(false);
+  });
+
+  it("should reject saves from a newer version", () => {
+    const save = { format: "last-card-save", version: SAVE_VERSION + 1, game: {}, match: null };
+    expect(() => migrateSave(save)).toThrow(/newer than supported/);
+  });
+});
+
+describe("deserializeGame", () => {
+  it("should reject malformed JSON and unknown formats", () => {
+    expect(() => deserializeGame("{not json")).toThrow("Invalid save: not valid JSON");
+    expect(() => deserializeGame(JSON.stringify({ format: "other", version: 1 }))).toThrow(
+      "Invalid save: unrecognised format"
+    );
+  });
+
+  it("should reject a save whose cards don't add up", () => {
+    const state = initializeGame(2, 9);
+    const tampered = { ...state, drawPile: state.drawPile.slice(1) };
+    expect(() => deserializeGame(serializeGame(tampered))).toThrow(/Invalid save: Card .* missing/);
+  });
+
+  it("should reject a save with an invalid card or field", () => {
+    const state = initializeGame(2, 9);
+    const badCard = JSON.parse(serializeGame(state));
+    badCard.game.players[0].hand[0] = { rank: "1", suit: "stars" };
+    expect(() => deserializeGame(JSON.stringify(badCard))).toThrow(
+      "players[0].hand holds an invalid card"
+    );
+
+    const badPhase = JSON.parse(serializeGame(state));
+    badPhase.game.turnPhase = "thinking";
+    expect(() => deserializeGame(JSON.stringify(badPhase))).toThrow(/turnPhase "thinking"/);
+  });
+
+  it("should reject a match that doesn't fit the game", () => {
+    const match = createMatch(3, { seed: 3 });
+    const game = initializeGame(2, 3);
+    expect(() => deserializeGame(serializeGame(game, match))).toThrow(/match\.playerTypes/);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Save/load format for Last Card
+ * Versioned JSON for a GameState (and the match it belongs to), with explicit
+ * migrations from older versions and validation that rejects corrupt saves
+ */
+
+import { createRngState } from "./deck";
+import { getInvariantViolations } from "./invariants";
+import { createRuleSet, DEFAULT_RULES } from "./ruleset";
+import { Card, GameState, MatchState } from "./types";
+
+export const SAVE_FORMAT = "last-card-save";
+
+/**
+ * Current save version. Bump it whenever GameState or MatchState changes shape,
+ * and add a migration from the previous version to MIGRATIONS.
+ */
+export const SAVE_VERSION = 2;
+
+export interface SavedGame {
+  format: typeof SAVE_FORMAT;
+  version: number;
+  game: GameState;
+  match: MatchState | null;
+}
+
+// A save (or legacy dump) as parsed, before migration and validation
+type RawSave = Record<string, unknown>;
+
+/**
+ * Version 0: a bare JSON dump of GameState from before saves were versioned.
+ * Wraps it in the envelope and fills in the fields GameState has gained since
+ * (house rules, the seeded RNG and the finishing order), plus the response
+ * window fields older dumps can lack.
+ */
+function migrateV0(save: RawSave): RawSave {
+  const game = { ...(save.game as RawSave) };
+  const players = Array.isArray(game.players) ? (game.players as { hand?: Card[] }[]) : [];
+
+  game.rules = { ...DEFAULT_RULES, ...(game.rules as object) };
+  game.rng ??= createRngState(0);
+  game.direction ??= "CW";
+  game.turnNumber ??= 0;
+  for (const key of [
+    "responsePhase",
+    "responseChainRank",
+    "respondingPlayerIndex",
+    "sevenDispute",
+    "lastCardClaim",
+    "jackResponse",
+    "aceResponse",
+  ]) {
+    game[key] ??= null;
+  }
+
+  // Rank a finished game's losers by cards left, as checkFinish does
+  if (!Array.isArray(game.finishingOrder)) {
+    const winner = game.winner;
+    game.finishingOrder =
+      typeof winner === "number"
+        ? [
+            winner,
+            ...players
+              .map((p, id) => ({ id, cards: p.hand?.length ?? 0 }))
+              .filter((p) => p.id !== winner)
+              .sort((a, b) => a.cards - b.cards)
+              .map((p) => p.id),
+          ]
+        : [];
+  }
+
+  return { format: SAVE_FORMAT, version: 1, game, match: null };
+}
+
+/**
+ * Version 1: before the drawUntilPlayable house rule (rule sets gain it, off)
+ */
+function migrateV1(save: RawSave): RawSave {
+  const game = { ...(save.game as RawSave) };
+  game.rules = { ...DEFAULT_RULES, ...(game.rules as object) };
+  return { ...save, version: 2, game };
+}
+
+// MIGRATIONS[n] upgrades a version-n save to version n + 1
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  0: migrateV0,
+  1: migrateV1,
+};
+
+/**
+ * Serialize a game (and its match, if any) to a versioned JSON string
+ */
+export function serializeGame(game: GameState, match: MatchState | null = null): string {
+  const save: SavedGame = { format: SAVE_FORMAT, version: SAVE_VERSION, game, match };
+  return JSON.stringify(save);
+}
+
+/**
+ * Bring a parsed save up to the current version (a save without a version
+ * envelope is treated as a version 0 GameState dump)
+ * @throws Error if the save is from a newer version or no migration path exists
+ */
+export function migrateSave(data: unknown): RawSave {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("Invalid save: not an object");
+  }
+
+  let save = data as RawSave;
+  if (save.format === undefined && save.version === undefined && "players" in save) {
+    save = { format: SAVE_FORMAT, version: 0, game: save, match: null };
+  }
+  if (save.format !== SAVE_FORMAT) {
+    throw new Error("Invalid save: unrecognised format");
+  }
+  if (!Number.isInteger(save.version) || (save.version as number) < 0) {
+    throw new Error("Invalid save: missing version");
+  }
+  if ((save.version as number) > SAVE_VERSION) {
+    throw new Error(`Save version ${save.version} is newer than supported (${SAVE_VERSION})`);
+  }
+
+  while ((save.version as number) < SAVE_VERSION) {
+    const migrate = MIGRATIONS[save.version as number];
+    if (!migrate) {
+      throw new Error(`No migration from save version ${save.version}`);
+    }
+    save = migrate(save);
+  }
+  return save;
+}
+
+const SUITS = new Set(["hearts", "diamonds", "clubs", "spades"]);
+const RANKS = new Set(["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "Joker"]);
+const TURN_PHASES = new Set([
+  "waiting",
+  "playing",
+  "must-draw",
+  "declaring-suit",
+  "can-end",
+  "game-over",
+]);
+
+function isCard(value: unknown): value is Card {
+  const card = value as Card;
+  return typeof card === "object" && card !== null && RANKS.has(card.rank) && SUITS.has(card.suit);
+}
+
+function isCardList(value: unknown): value is Card[] {
+  return Array.isArray(value) && value.every(isCard);
+}
+
+function isIndex(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Check the shape of a saved GameState (types and value ranges of every field)
+ */
+function checkGameShape(game: GameState, problems: string[]): void {
+  try {
+    createRuleSet(game.rules);
+  } catch (error) {
+    problems.push(`rules: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!Array.isArray(game.players) || game.players.length < 2) {
+    problems.push("players must list at least two players");
+    return;
+  }
+  game.players.forEach((p, i) => {
+    if (p?.id !== i) problems.push(`players[${i}] has id ${p?.id}`);
+    if (!isCardList(p?.hand)) problems.push(`players[${i}].hand holds an invalid card`);
+    if (p?.playerType !== "human" && p?.playerType !== "ai") {
+      problems.push(`players[${i}].playerType is invalid`);
+    }
+    if (typeof p?.declaredLastCard !== "boolean" || typeof p?.lastCardPenalty !== "boolean") {
+      problems.push(`players[${i}] has invalid Last Card flags`);
+    }
+  });
+
+  if (!isCardList(game.drawPile)) problems.push("drawPile holds an invalid card");
+  if (!isCardList(game.discardPile)) problems.push("discardPile holds an invalid card");
+  if (game.chosenSuit !== null && !SUITS.has(game.chosenSuit)) {
+    problems.push("chosenSuit is invalid");
+  }
+  if (!TURN_PHASES.has(game.turnPhase)) problems.push(`turnPhase "${game.turnPhase}" is invalid`);
+  if (game.direction !== "CW" && game.direction !== "CCW") problems.push("direction is invalid");
+  if (!isIndex(game.currentPlayerIndex)) problems.push("currentPlayerIndex is invalid");
+  if (!isIndex(game.turnNumber)) problems.push("turnNumber is invalid");
+  if (!isIndex(game.rng?.seed) || !isIndex(game.rng?.counter)) problems.push("rng is invalid");
+  if (typeof game.pendingEffects?.skipNextPlayer !== "boolean") {
+    problems.push("pendingEffects is invalid");
+  }
+  if (!Array.isArray(game.finishingOrder)) problems.push("finishingOrder must be a list");
+}
+
+/**
+ * Check a saved match against the game it is saved with
+ */
+function checkMatchShape(match: MatchState, game: GameState, problems: string[]): void {
+  const playerCount = game.players.length;
+  if (!Array.isArray(match.playerTypes) || match.playerTypes.length !== playerCount) {
+    problems.push("match.playerTypes does not match the players");
+  }
+  if (
+    !Array.isArray(match.scores) ||
+    match.scores.length !== playerCount ||
+    !match.scores.every(isIndex)
+  ) {
+    problems.push("match.scores is invalid");
+  }
+  if (!Array.isArray(match.rounds)) problems.push("match.rounds must be a list");
+  if (!Number.isInteger(match.targetScore) || match.targetScore < 1) {
+    problems.push("match.targetScore is invalid");
+  }
+  if (!isIndex(match.seed) || !Number.isInteger(match.roundNumber) || match.roundNumber < 1) {
+    problems.push("match seed or roundNumber is invalid");
+  }
+  if (
+    match.matchWinner !== null &&
+    !(isIndex(match.matchWinner) && match.matchWinner < playerCount)
+  ) {
+    problems.push("match.matchWinner is invalid");
+  }
+}
+
+/**
+ * Collect every problem with a migrated save (empty when it is safe to load):
+ * its shape, then the engine invariants for the game itself
+ */
+export function getSaveProblems(save: RawSave): string[] {
+  const problems: string[] = [];
+  const game = save.game as GameState;
+  if (typeof game !== "object" || game === null) return ["game is missing"];
+
+  checkGameShape(game, problems);
+  const match = (save.match ?? null) as MatchState | null;
+  if (typeof match !== "object") {
+    problems.push("match is invalid");
+  } else if (match && problems.length === 0) {
+    checkMatchShape(match, game, problems);
+  }
+
+  // Only a well-formed game can be checked for consistency
+  if (problems.length === 0) problems.push(...getInvariantViolations(game));
+  return problems;
+}
+
+/**
+ * Load a save produced by serializeGame (or an older version of it)
+ * @throws Error if the JSON is malformed, the version is unsupported, or the
+ * saved game is corrupt
+ */
+export function deserializeGame(json: string): { game: GameState; match: MatchState | null } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid save: not valid JSON");
+  }
+
+  const save = migrateSave(data);
+  const problems = getSaveProblems(save);
+  if (problems.length > 0) {
+    throw new Error(`Invalid save: ${problems.join("; ")}`);
+  }
+  return { game: save.game as GameState, match: (save.match as MatchState | null) ?? null };
+}
@@ -0,0 +1,66 @@
+/**
+ * Simulator Tests
+ * Reports are deterministic per seed and add up across seats and games.
+ */
+
+import { describe, it, expect } from "vitest";
+import { AIDifficulty } from "./ai";
+import {
+  SPECIAL_TRIGGERS,
+  formatSimulationCsv,
+  formatSimulationJson,
+  runSimulation,
+  simulateGame,
+} from "./simulate";
+
+describe("runSimulation", () => {
+  it("should report the same summary for the same seeds", () => {
+    const options = { games: 6, players: ["normal", "hard"] as AIDifficulty[], firstSeed: 10 };
+    const report = runSimulation(options);
+    expect(runSimulation(options)).toEqual(report);
+
+    expect(report.games).toBe(6);
+    expect(report.strategies).toEqual(["normal", "hard"]);
+    expect(report.unfinished).toBe(0);
+    expect(report.winsBySeat.reduce((a, b) => a + b, 0)).toBe(6);
+    expect(report.winRateBySeat.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+    expect(report.averageTurns).toBeGreaterThan(0);
+    expect(report.chains.deflected).toBeLessThanOrEqual(report.chains.opened);
+  });
+
+  it("should count triggers, recycles and chains per game", () => {
+    const games = [1, 2, 3].map((seed) =>
+      simulateGame(seed, { players: ["easy", "normal", "normal"], rules: { jokers: true } })
+    );
+    const report = runSimulation({
+      games: 3,
+      players: ["easy", "normal", "normal"],
+      rules: { jokers: true },
+    });
+
+    for (const trigger of SPECIAL_TRIGGERS) {
+      const total = games.reduce((sum, game) => sum + game.triggers[trigger], 0);
+      expect(report.triggers[trigger].total).toBe(total);
+    }
+    expect(report.recycles.total).toBe(games.reduce((sum, game) => sum + game.recycles, 0));
+    expect(report.chains.opened).toBe(games.reduce((sum, game) => sum + game.chains, 0));
+    expect(games.some((game) => game.triggers["2"] + game.triggers["5"] > 0)).toBe(true);
+  });
+
+  it("should count games that run out of steps as unfinished", () => {
+    const report = runSimulation({ games: 2, players: ["easy", "easy"], maxSteps: 5 });
+    expect(report.unfinished).toBe(2);
+    expect(report.winRateBySeat).toEqual([0, 0]);
+    expect(report.averageTurns).toBe(0);
+  });
+
+  it("should format the summary as JSON and CSV", () => {
+    const report = runSimulation({ games: 2, players: ["normal", "normal", "normal"] });
+    expect(JSON.parse(formatSimulationJson(report))).toEqual(report);
+
+    const csv = formatSimulationCsv(report).trim().split("\n");
+    expect(csv[0]).toBe("metric,value");
+    expect(csv).toContain(`win_rate_seat_3,${report.winRateBySeat[2]}`);
+    expect(csv).toContain(`average_turns,${report.averageTurns}`);
+  });
+});
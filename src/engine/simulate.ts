@@ -0,0 +1,277 @@
+/**
+ * Headless self-play simulator for Last Card
+ * Plays seeded games between AI strategies and summarises them: win rate by
+ * seat, game length, comebacks, discard recycling, special card triggers and
+ * deflected chains. The same seeds and strategies always give the same report.
+ */
+
+import { AIDifficulty, AIStrategy, getAIStrategy } from "./ai";
+import { applyAction, getActingPlayerIndex } from "./actions";
+import { createSeededRng } from "./deck";
+import { initializeGame } from "./rules";
+import { createRuleSet } from "./ruleset";
+import { GameEvent, GameState, RuleSet } from "./types";
+
+export type SimulationPlayer = AIDifficulty | AIStrategy;
+
+export interface SimulationOptions {
+  games: number;
+  players: SimulationPlayer[]; // One strategy per seat; seat 0 always goes first
+  firstSeed?: number; // Games use consecutive seeds from this one (defaults to 1)
+  rules?: Partial<RuleSet>;
+  maxSteps?: number; // Games still running after this many actions are counted as unfinished
+}
+
+// Special cards counted when their effect takes place
+export type SpecialTrigger = "2" | "5" | "10" | "Joker" | "J" | "A" | "7";
+
+export const SPECIAL_TRIGGERS: SpecialTrigger[] = ["2", "5", "10", "Joker", "J", "A", "7"];
+
+export interface SimulatedGame {
+  seed: number;
+  winner: number | null; // Null if the game ran out of steps
+  turns: number;
+  comeback: boolean; // The winner was once COMEBACK_DEFICIT or more cards behind the leader
+  recycles: number; // Times the discard pile was shuffled back into the draw pile
+  triggers: Record<SpecialTrigger, number>;
+  chains: number; // 2/5/10 response chains opened
+  deflectedChains: number; // Chains passed on at least once
+}
+
+export interface SimulationReport {
+  games: number;
+  firstSeed: number;
+  playerCount: number;
+  strategies: AIDifficulty[]; // By seat
+  rules: RuleSet;
+  unfinished: number;
+  winsBySeat: number[];
+  winRateBySeat: number[]; // Of all games, so unfinished games count as no one's win
+  averageTurns: number; // Over finished games
+  comebackRate: number; // Of finished games
+  recycles: { total: number; perGame: number; gameRate: number }; // gameRate: games with any
+  triggers: Record<SpecialTrigger, { total: number; perGame: number }>;
+  chains: { opened: number; deflected: number; deflectionRate: number };
+}
+
+const DEFAULT_MAX_STEPS = 3000;
+
+// Cards behind the player closest to going out that make a win a comeback
+export const COMEBACK_DEFICIT = 3;
+
+function emptyTriggers(): Record<SpecialTrigger, number> {
+  return { "2": 0, "5": 0, "10": 0, Joker: 0, J: 0, A: 0, "7": 0 };
+}
+
+/**
+ * Count the special effects that took place in one action's events.
+ * 2s, 5s, 10s and Jokers count per card played or deflected with its effect on;
+ * Jacks count per direction change, Aces per suit change and 7s per dispute.
+ */
+function countTriggers(events: GameEvent[], triggers: Record<SpecialTrigger, number>): void {
+  for (const event of events) {
+    switch (event.type) {
+      case "CardsPlayed":
+        if (!event.activateEffect) break;
+        for (const card of event.cards) {
+          if (card.rank === "2" || card.rank === "5" || card.rank === "10") triggers[card.rank]++;
+          else if (card.rank === "Joker") triggers.Joker++;
+        }
+        break;
+      case "EffectDeflected":
+        if (event.card.rank === "Joker") triggers.Joker++;
+        else if (event.card.rank === "2" || event.card.rank === "5" || event.card.rank === "10") {
+          triggers[event.card.rank]++;
+        }
+        break;
+      case "DirectionChanged":
+        triggers.J++;
+        break;
+      case "SuitChanged":
+        triggers.A++;
+        break;
+      case "DisputeOpened":
+        triggers["7"]++;
+        break;
+    }
+  }
+}
+
+function resolveStrategy(player: SimulationPlayer): AIStrategy {
+  return typeof player === "string" ? getAIStrategy(player) : player;
+}
+
+/**
+ * Play one game between the given strategies. The deal and every random AI
+ * choice derive from the seed.
+ */
+export function simulateGame(
+  seed: number,
+  options: Omit<SimulationOptions, "games" | "firstSeed">
+): SimulatedGame {
+  const strategies = options.players.map(resolveStrategy);
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const random = createSeededRng(seed);
+  let state: GameState = initializeGame(
+    strategies.length,
+    seed,
+    strategies.map(() => "ai"),
+    options.rules
+  );
+
+  const game: SimulatedGame = {
+    seed,
+    winner: null,
+    turns: 0,
+    comeback: false,
+    recycles: 0,
+    triggers: emptyTriggers(),
+    chains: 0,
+    deflectedChains: 0,
+  };
+  let chainDeflected = false;
+
+  // Seats that have been COMEBACK_DEFICIT or more cards behind the leader
+  const trailed = new Set<number>();
+
+  for (let step = 0; step < maxSteps && state.winner === null; step++) {
+    const playerIndex = getActingPlayerIndex(state);
+    const action = strategies[playerIndex].chooseAction(state, playerIndex, random);
+    if (!action) throw new Error(`Strategy for seat ${playerIndex} had no action`);
+
+    const result = applyAction(state, playerIndex, action, { autoConfirmHandoff: true });
+    if (!result.ok) {
+      throw new Error(`Strategy for seat ${playerIndex} chose ${action.action}: ${result.error}`);
+    }
+
+    if (state.responsePhase === null && result.state.responsePhase !== null) {
+      game.chains++;
+      chainDeflected = false;
+    }
+    for (const event of result.events) {
+      if (event.type === "CardsDrawn" && event.recycled) game.recycles++;
+      if (event.type === "EffectDeflected" && !chainDeflected) {
+        game.deflectedChains++;
+        chainDeflected = true;
+      }
+    }
+    countTriggers(result.events, game.triggers);
+    state = result.state;
+
+    for (const seat of getTrailingSeats(state)) trailed.add(seat);
+  }
+
+  game.winner = state.winner;
+  game.turns = state.turnNumber;
+  game.comeback = state.winner !== null && trailed.has(state.winner);
+  return game;
+}
+
+/**
+ * Get the seats at least COMEBACK_DEFICIT cards behind the leader, among players still in
+ */
+function getTrailingSeats(state: GameState): number[] {
+  const inPlay = state.players.filter((p) => !state.finishingOrder.includes(p.id));
+  const fewest = Math.min(...inPlay.map((p) => p.hand.length));
+  return inPlay.filter((p) => p.hand.length - fewest >= COMEBACK_DEFICIT).map((p) => p.id);
+}
+
+const ratio = (count: number, total: number): number => (total === 0 ? 0 : count / total);
+
+/**
+ * Summarise simulated games
+ */
+export function summarizeGames(
+  results: SimulatedGame[],
+  options: Omit<SimulationOptions, "games">
+): SimulationReport {
+  const games = results.length;
+  const finished = results.filter((r) => r.winner !== null);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  const winsBySeat = options.players.map(
+    (_, seat) => results.filter((r) => r.winner === seat).length
+  );
+  const recycles = sum(results.map((r) => r.recycles));
+  const chains = sum(results.map((r) => r.chains));
+  const deflected = sum(results.map((r) => r.deflectedChains));
+
+  const triggers = {} as SimulationReport["triggers"];
+  for (const trigger of SPECIAL_TRIGGERS) {
+    const total = sum(results.map((r) => r.triggers[trigger]));
+    triggers[trigger] = { total, perGame: ratio(total, games) };
+  }
+
+  return {
+    games,
+    firstSeed: options.firstSeed ?? 1,
+    playerCount: options.players.length,
+    strategies: options.players.map((p) => resolveStrategy(p).difficulty),
+    rules: createRuleSet(options.rules),
+    unfinished: games - finished.length,
+    winsBySeat,
+    winRateBySeat: winsBySeat.map((wins) => ratio(wins, games)),
+    averageTurns: ratio(sum(finished.map((r) => r.turns)), finished.length),
+    comebackRate: ratio(finished.filter((r) => r.comeback).length, finished.length),
+    recycles: {
+      total: recycles,
+      perGame: ratio(recycles, games),
+      gameRate: ratio(results.filter((r) => r.recycles > 0).length, games),
+    },
+    triggers,
+    chains: { opened: chains, deflected, deflectionRate: ratio(deflected, chains) },
+  };
+}
+
+/**
+ * Play a batch of games on consecutive seeds
+ */
+export function simulateGames(options: SimulationOptions): SimulatedGame[] {
+  if (options.players.length === 0) throw new Error("A simulation needs at least one player");
+  const firstSeed = options.firstSeed ?? 1;
+  const results: SimulatedGame[] = [];
+  for (let i = 0; i < options.games; i++) {
+    results.push(simulateGame(firstSeed + i, options));
+  }
+  return results;
+}
+
+/**
+ * Play a batch of seeded games and summarise them
+ */
+export function runSimulation(options: SimulationOptions): SimulationReport {
+  return summarizeGames(simulateGames(options), options);
+}
+
+export function formatSimulationJson(report: SimulationReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Format a report as two-column CSV (metric,value), one row per number
+ */
+export function formatSimulationCsv(report: SimulationReport): string {
+  const rows: [string, string | number][] = [
+    ["games", report.games],
+    ["first_seed", report.firstSeed],
+    ["player_count", report.playerCount],
+    ["strategies", report.strategies.join(" ")],
+    ["unfinished", report.unfinished],
+    ...report.winRateBySeat.map((rate, seat): [string, number] => [
+      `win_rate_seat_${seat + 1}`,
+      rate,
+    ]),
+    ["average_turns", report.averageTurns],
+    ["comeback_rate", report.comebackRate],
+    ["recycles_per_game", report.recycles.perGame],
+    ["games_with_recycle_rate", report.recycles.gameRate],
+    ...SPECIAL_TRIGGERS.map((trigger): [string, number] => [
+      `triggers_per_game_${trigger.toLowerCase()}`,
+      report.triggers[trigger].perGame,
+    ]),
+    ["chains_opened", report.chains.opened],
+    ["chains_deflected", report.chains.deflected],
+    ["chain_deflection_rate", report.chains.deflectionRate],
+  ];
+  return ["metric,value", ...rows.map(([metric, value]) => `${metric},${value}`)].join("\n") + "\n";
+}
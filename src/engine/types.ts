@@ -17,13 +17,30 @@ export type Rank =
   | "10"
   | "J"
   | "Q"
-  | "K";
+  | "K"
+  | "Joker"; // Only in play when RuleSet.jokers is on
 
+// Jokers carry a nominal suit for colour and identity: hearts (red) or spades (black)
 export interface Card {
   rank: Rank;
   suit: Suit;
 }
 
+// House rules that vary between groups (see ruleset.ts for defaults)
+export interface RuleSet {
+  initialHandSize: number | "auto"; // Cards dealt to each player ("auto" scales with player count)
+  deckCount: number | "auto"; // 52-card decks shuffled together ("auto" adds a deck above 4 players)
+  maxCardsPerPlay: number; // Largest multi-card play allowed
+  jackMinPlayers: number; // Jacks only switch direction with at least this many players
+  acesWild: boolean; // Aces can be played on any card
+  drawTwoAmount: number; // Cards each 2 adds to the forced draw
+  drawFiveAmount: number; // Cards each 5 adds to the forced draw
+  lastCardPenaltyDraw: number; // Cards drawn for failing to declare "Last Card"
+  playOut: boolean; // Keep playing for places after the first player goes out
+  jokers: boolean; // Add two Jokers per deck (wild, force a draw like a 5)
+  drawUntilPlayable: boolean; // A voluntary draw continues until a playable card turns up
+}
+
 // Player type for hotseat vs AI
 export type PlayerType = "human" | "ai";
 
@@ -85,6 +102,12 @@ export interface SevenDispute {
   responderPlayerId: number; // Who must respond next
 }
 
+// Serializable RNG state: the n-th random value is a pure function of (seed, n)
+export interface RngState {
+  seed: number; // 32-bit unsigned seed
+  counter: number; // Number of values consumed so far
+}
+
 // Last card claim tracking (for 7 challenge window)
 export interface LastCardClaim {
   playerId: number;
@@ -92,6 +115,8 @@ export interface LastCardClaim {
 }
 
 export interface GameState {
+  rules: RuleSet; // House rules for this game
+  rng: RngState; // Deterministic RNG position, advanced on every shuffle
   players: PlayerState[];
   currentPlayerIndex: number;
   drawPile: Card[];
@@ -100,6 +125,7 @@ export interface GameState {
   pendingEffects: PendingEffects;
   turnPhase: TurnPhase;
   winner: number | null; // Player ID who won, or null if game ongoing
+  finishingOrder: number[]; // Players who have gone out, in order (every player once the game is over)
   lastPlayWasSpecial: boolean; // Used for last card declaration restriction
 
   // Direction of play (for 3+ players; Jacks can switch this)
@@ -122,6 +148,28 @@ export interface GameState {
   aceResponse: AceResponse | null;
 }
 
+// ============================================
+// Match Play (see match.ts)
+// ============================================
+
+export interface RoundResult {
+  roundNumber: number;
+  winner: number; // Player who went out
+  penalties: number[]; // Penalty points scored this round, per player
+}
+
+// A multi-round match: cumulative penalty scores across dealt rounds
+export interface MatchState {
+  playerTypes: PlayerType[];
+  rules: RuleSet;
+  targetScore: number; // Match ends once any player reaches this score
+  seed: number; // Round deals are derived from this seed
+  roundNumber: number; // 1-based; the round in play, or the final round once decided
+  scores: number[]; // Cumulative penalty points per player
+  rounds: RoundResult[]; // Completed rounds, oldest first
+  matchWinner: number | null; // Lowest score when the match ended
+}
+
 export type TurnPhase =
   | "waiting" // Waiting for handoff confirmation
   | "playing" // Player is choosing a play
@@ -141,11 +189,283 @@ export interface LegalPlay {
   description: string; // Human-readable description
 }
 
+// ============================================
+// Player Actions (see actions.ts for the reducer)
+// ============================================
+
+export interface PlayCardsAction {
+  action: "play_cards";
+  cards: Card[];
+  chosenSuit?: Suit; // For Ace
+  activateEffect?: boolean; // For 2/5/10/Jack/Ace
+}
+
+export interface DrawCardAction {
+  action: "draw"; // Forced or voluntary, depending on pending effects
+}
+
+export interface EndTurnAction {
+  action: "end_turn";
+}
+
+export interface DeclareLastCardAction {
+  action: "declare_last_card";
+}
+
+export interface ConfirmHandoffAction {
+  action: "confirm_handoff"; // Hotseat only: next player has taken the device
+}
+
+export interface ResolveResponseAction {
+  action: "resolve_response"; // Accept the pending 2/5/10 effect
+}
+
+export interface DeflectResponseAction {
+  action: "deflect_response";
+  card: Card;
+}
+
+export interface CancelResponseAction {
+  action: "cancel_response";
+  card: Card;
+}
+
+export interface SevenCancelEffectAction {
+  action: "seven_cancel_effect";
+  card: Card;
+}
+
+export interface SevenCancelLastCardAction {
+  action: "seven_cancel_last_card";
+  card: Card;
+}
+
+export interface SevenDisputePlayAction {
+  action: "seven_dispute_play";
+  card: Card;
+}
+
+export interface SevenDisputeAcceptAction {
+  action: "seven_dispute_accept";
+}
+
+export interface JackAcceptAction {
+  action: "jack_accept";
+}
+
+export interface JackCancelAction {
+  action: "jack_cancel"; // With a 7 of the Jack's suit or another Jack
+  card: Card;
+}
+
+export interface AceAcceptAction {
+  action: "ace_accept";
+}
+
+export interface AceCancelAction {
+  action: "ace_cancel"; // With a 7 of the Ace's printed suit
+  card: Card;
+}
+
+export type GameAction =
+  | PlayCardsAction
+  | DrawCardAction
+  | EndTurnAction
+  | DeclareLastCardAction
+  | ConfirmHandoffAction
+  | ResolveResponseAction
+  | DeflectResponseAction
+  | CancelResponseAction
+  | SevenCancelEffectAction
+  | SevenCancelLastCardAction
+  | SevenDisputePlayAction
+  | SevenDisputeAcceptAction
+  | JackAcceptAction
+  | JackCancelAction
+  | AceAcceptAction
+  | AceCancelAction;
+
+// ============================================
+// Illegal Action Reasons (see explainIllegalAction in actions.ts)
+// ============================================
+
+// Why a play, response card or other action was rejected - a code plus the
+// parameters needed to explain it (describeIllegalReason renders it as text)
+export type IllegalReason =
+  | { code: "game_over" }
+  | { code: "not_your_turn" }
+  | { code: "action_unavailable"; action: GameAction["action"] } // Not offered in this phase
+  | { code: "must_draw"; count: number } // A 2/5/Joker draw is pending
+  | { code: "last_card_penalty"; count: number }
+  | { code: "no_cards" }
+  | { code: "card_not_in_hand" }
+  | { code: "suit_choice_required" } // The play ends on an Ace
+  | { code: "suit_choice_not_allowed" }
+  | { code: "no_match"; targetSuit: Suit; targetRank: Rank } // First card matches neither
+  | { code: "ace_on_ace"; targetSuit: Suit } // Aces only go on Aces of the target suit
+  | { code: "too_many_cards"; max: number }
+  | { code: "final_play_single_card" } // Can't play out a whole hand at once
+  | { code: "joker_not_alone" }
+  | { code: "mixed_cards" } // Cards played together must share a rank or a suit
+  | { code: "wrong_deflection"; chainRank: SpecialRank; jokerAllowed: boolean }
+  | { code: "seven_required"; suit: Suit | null } // null: any 7
+  | { code: "jack_cancel_required"; suit: Suit }; // A 7 of the Jack's suit or any Jack
+
+export type IllegalReasonCode = IllegalReason["code"];
+
+// ============================================
+// Game Events (emitted by the transitions in rules.ts)
+// ============================================
+
+// Cards that move to the discard pile are carried by exactly one event:
+// CardsPlayed for a turn's play, or the response/dispute event that played them
+
+export interface CardsPlayedEvent {
+  type: "CardsPlayed";
+  playerId: number;
+  cards: Card[];
+  chosenSuit: Suit | null; // For an Ace
+  activateEffect: boolean;
+}
+
+export interface CardsDrawnEvent {
+  type: "CardsDrawn";
+  playerId: number;
+  count: number; // Cards actually drawn (can be fewer than owed when the piles run dry)
+  forced: boolean; // From a 2/5/Joker chain or a Last Card penalty
+  recycled: boolean; // The discard pile was shuffled back into the draw pile
+}
+
+export interface TurnStartedEvent {
+  type: "TurnStarted";
+  playerId: number;
+}
+
+export interface PlayerSkippedEvent {
+  type: "PlayerSkipped";
+  playerId: number;
+}
+
+export interface DirectionChangedEvent {
+  type: "DirectionChanged";
+  direction: PlayDirection;
+}
+
+export interface SuitChangedEvent {
+  type: "SuitChanged"; // An Ace's chosen (or printed) suit takes effect
+  suit: Suit;
+}
+
+export interface LastCardDeclaredEvent {
+  type: "LastCardDeclared";
+  playerId: number;
+}
+
+export interface PenaltyAppliedEvent {
+  type: "PenaltyApplied"; // Went down to one card without declaring Last Card
+  playerId: number;
+  drawCount: number; // Drawn at the start of their next turn
+}
+
+export interface ResponseOpenedEvent {
+  type: "ResponseOpened";
+  window: "chain" | "jack" | "ace";
+  responderPlayerId: number;
+}
+
+export interface EffectDeflectedEvent {
+  type: "EffectDeflected";
+  playerId: number;
+  card: Card;
+}
+
+export interface EffectResolvedEvent {
+  type: "EffectResolved"; // The responder takes the pending draw or skip
+  playerId: number;
+}
+
+export interface JackCancelledEvent {
+  type: "JackCancelled";
+  playerId: number;
+  card: Card;
+}
+
+export interface DisputeOpenedEvent {
+  type: "DisputeOpened";
+  kind: SevenDispute["kind"];
+  playerId: number; // Who played the first 7
+  card: Card;
+}
+
+export interface DisputeCardPlayedEvent {
+  type: "DisputeCardPlayed";
+  playerId: number;
+  card: Card;
+  cancelled: boolean; // Whether the disputed effect is now cancelled
+}
+
+export interface DisputeSettledEvent {
+  type: "DisputeSettled";
+  kind: SevenDispute["kind"];
+  cancelled: boolean;
+}
+
+export interface PlayerFinishedEvent {
+  type: "PlayerFinished";
+  playerId: number;
+  place: number; // 1-based
+}
+
+export interface GameWonEvent {
+  type: "GameWon";
+  playerId: number;
+}
+
+export type GameEvent =
+  | CardsPlayedEvent
+  | CardsDrawnEvent
+  | TurnStartedEvent
+  | PlayerSkippedEvent
+  | DirectionChangedEvent
+  | SuitChangedEvent
+  | LastCardDeclaredEvent
+  | PenaltyAppliedEvent
+  | ResponseOpenedEvent
+  | EffectDeflectedEvent
+  | EffectResolvedEvent
+  | JackCancelledEvent
+  | DisputeOpenedEvent
+  | DisputeCardPlayedEvent
+  | DisputeSettledEvent
+  | PlayerFinishedEvent
+  | GameWonEvent;
+
 // Utility type for card comparison
 export function cardEquals(a: Card, b: Card): boolean {
   return a.rank === b.rank && a.suit === b.suit;
 }
 
+/**
+ * Count the copies of a card in a list (multi-deck games can hold duplicates)
+ */
+export function countCards(cards: Card[], card: Card): number {
+  return cards.filter((c) => cardEquals(c, card)).length;
+}
+
+/**
+ * Remove one copy of each given card from a list, leaving any duplicates in place
+ */
+export function removeCards(cards: Card[], toRemove: Card[]): Card[] {
+  const result = [...cards];
+  for (const card of toRemove) {
+    const idx = result.findIndex((c) => cardEquals(c, card));
+    if (idx !== -1) {
+      result.splice(idx, 1);
+    }
+  }
+  return result;
+}
+
 export function cardToString(card: Card): string {
   const suitSymbols: Record<Suit, string> = {
     hearts: "\u2665",
@@ -0,0 +1,62 @@
+/**
+ * Player View Tests
+ * Views hide other hands, the draw pile and the RNG; samples are consistent with the view
+ */
+
+import { describe, it, expect } from "vitest";
+import { createRngState, nextRandom } from "./deck";
+import { getInvariantViolations } from "./invariants";
+import { initializeGame } from "./rules";
+import { RngState } from "./types";
+import { getPlayerView, getUnseenCards, sampleGameState } from "./view";
+
+function seededRandom(seed: number): () => number {
+  let rng: RngState = createRngState(seed);
+  return () => {
+    const [value, next] = nextRandom(rng);
+    rng = next;
+    return value;
+  };
+}
+
+describe("getPlayerView", () => {
+  it("should show only the viewer's hand and the public state", () => {
+    const state = initializeGame(3, 8, undefined, { jokers: true });
+    const view = getPlayerView(state, 1);
+
+    expect(view.hand).toEqual(state.players[1].hand);
+    expect(view.players.map((p) => p.handSize)).toEqual(state.players.map((p) => p.hand.length));
+    expect(view.drawPileCount).toBe(state.drawPile.length);
+    expect(view.discardPile).toEqual(state.discardPile);
+    expect(view).not.toHaveProperty("drawPile");
+    expect(view).not.toHaveProperty("rng");
+    expect(view.players[0]).not.toHaveProperty("hand");
+
+    // The unseen cards are exactly the other hands and the draw pile
+    const hidden = [state.players[0].hand, state.players[2].hand, state.drawPile].flat();
+    expect(getUnseenCards(view)).toHaveLength(hidden.length);
+  });
+});
+
+describe("sampleGameState", () => {
+  it("should deal a consistent game that keeps the viewer's hand and hand sizes", () => {
+    const state = initializeGame(4, 21);
+    const view = getPlayerView(state, 2);
+
+    for (let seed = 1; seed <= 5; seed++) {
+      const sample = sampleGameState(view, seededRandom(seed));
+      expect(getInvariantViolations(sample)).toEqual([]);
+      expect(sample.players[2].hand).toEqual(state.players[2].hand);
+      expect(sample.players.map((p) => p.hand.length)).toEqual(
+        state.players.map((p) => p.hand.length)
+      );
+      expect(sample.drawPile).toHaveLength(state.drawPile.length);
+      expect({ ...sample, players: [], drawPile: [], rng: null }).toEqual({
+        ...state,
+        players: [],
+        drawPile: [],
+        rng: null,
+      });
+    }
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Player views for Last Card
+ * What one player can see of a game - their own hand plus public information -
+ * and sampling complete game states consistent with it. Strategies that must
+ * not peek at hidden cards work from a PlayerView only.
+ */
+
+import { createDeck, createRngState, shuffle } from "./deck";
+import { getDeckCount } from "./ruleset";
+import { Card, GameState, PlayerState, removeCards } from "./types";
+
+/**
+ * A player as seen by others: everything but the cards in their hand
+ */
+export interface PublicPlayerView extends Omit<PlayerState, "hand"> {
+  handSize: number;
+}
+
+/**
+ * A game as seen by one player. The draw pile order, the other hands and the
+ * RNG state (which would predict reshuffles) are left out.
+ */
+export interface PlayerView extends Omit<GameState, "players" | "drawPile" | "rng"> {
+  viewerIndex: number;
+  hand: Card[]; // The viewer's own hand
+  players: PublicPlayerView[];
+  drawPileCount: number;
+}
+
+/**
+ * Get what a player can see of a game
+ */
+export function getPlayerView(state: GameState, playerIndex: number): PlayerView {
+  // Copy everything else, so fields added to GameState later are public by default
+  const publicState: Partial<GameState> = { ...state };
+  delete publicState.players;
+  delete publicState.drawPile;
+  delete publicState.rng;
+
+  return {
+    ...(publicState as Omit<GameState, "players" | "drawPile" | "rng">),
+    viewerIndex: playerIndex,
+    hand: state.players[playerIndex].hand,
+    players: state.players.map(({ hand, ...player }) => ({ ...player, handSize: hand.length })),
+    drawPileCount: state.drawPile.length,
+  };
+}
+
+/**
+ * Get the cards the viewer can't see: the whole deck less their own hand and
+ * the discard pile (these are in the other hands or the draw pile)
+ */
+export function getUnseenCards(view: PlayerView): Card[] {
+  const deck = createDeck(getDeckCount(view.rules, view.players.length), view.rules.jokers);
+  return removeCards(removeCards(deck, view.hand), view.discardPile);
+}
+
+/**
+ * Sample a complete game state consistent with a view: the unseen cards are
+ * dealt at random to the other hands (keeping their sizes) and the draw pile,
+ * and the RNG is reseeded so future reshuffles are unknown too
+ * @param random Source of randomness in [0, 1)
+ */
+export function sampleGameState(view: PlayerView, random: () => number = Math.random): GameState {
+  const unseen = shuffle(getUnseenCards(view), random);
+  let dealt = 0;
+  const players = view.players.map(({ handSize, ...player }): PlayerState => {
+    if (player.id === view.viewerIndex) return { ...player, hand: view.hand };
+    const hand = unseen.slice(dealt, dealt + handSize);
+    dealt += handSize;
+    return { ...player, hand };
+  });
+
+  const publicState: Partial<PlayerView> = { ...view };
+  delete publicState.viewerIndex;
+  delete publicState.hand;
+  delete publicState.players;
+  delete publicState.drawPileCount;
+
+  return {
+    ...(publicState as Omit<PlayerView, "viewerIndex" | "hand" | "players" | "drawPileCount">),
+    players,
+    drawPile: unseen.slice(dealt, dealt + view.drawPileCount),
+    rng: createRngState(Math.floor(random() * 0x100000000)),
+  };
+}
@@ -12,12 +12,17 @@ import type {
   ServerMessage,
   ClientMessage,
   ClientGameState,
+  ConfigureGameMessage,
   PublicPlayer,
   LobbyConfig,
   RoomStatus,
   GameAction,
+  TimerUpdateMessage,
 } from "./messages";
-import { parseMessage, serializeMessage } from "./messages";
+import { DEFAULT_TIMER_CONFIG, parseMessage, serializeMessage } from "./messages";
+import type { Replay } from "@/engine/replay";
+import type { Card } from "@/engine/types";
+import { createClientEntropy, verifyShuffles, type FairnessCheck } from "@/engine/fairness";
 
 // =============================================================================
 // Configuration
@@ -132,6 +137,7 @@ export function usePartySocket(
             "game_state",
             "state_update",
             "game_ended",
+            "round_ended",
             "error",
             "timer_update",
           ].includes(message.type)
@@ -226,14 +232,14 @@ export interface GameRoomState {
   isHost: boolean;
   /** Game state (when playing) */
   gameState: ClientGameState | null;
+  /** Replay of the last finished game or round */
+  replay: Replay | null;
+  /** Check of the finished game's shuffles against the server's commitment */
+  fairness: FairnessCheck | null;
   /** Last error message */
   error: string | null;
   /** Turn timer state */
-  timer: {
-    playerId: string;
-    remainingMs: number;
-    phase: "turn" | "response";
-  } | null;
+  timer: TimerUpdateMessage["payload"] | null;
 }
 
 export interface UseGameRoomOptions {
@@ -261,7 +267,7 @@ export interface UseGameRoomResult {
   /** Update display name */
   setName: (name: string) => void;
   /** Configure game settings (host only) */
-  configureGame: (config: Partial<LobbyConfig>) => void;
+  configureGame: (config: ConfigureGameMessage["payload"]) => void;
   /** Start the game (host only) */
   startGame: () => void;
   /** Add an AI player (host only) */
@@ -285,10 +291,16 @@ const initialRoomState: GameRoomState = {
     maxPlayers: 4,
     aiSlots: 0,
     isPublic: false,
+    rules: {},
+    matchTargetScore: null,
+    aiDifficulty: "normal",
+    timer: DEFAULT_TIMER_CONFIG,
   },
   myPlayerId: null,
   isHost: false,
   gameState: null,
+  replay: null,
+  fairness: null,
   error: null,
   timer: null,
 };
@@ -305,11 +317,32 @@ export function useGameRoom(options: UseGameRoomOptions): UseGameRoomResult {
     code: roomCode,
   });
 
+  // Commit-reveal: this player's contribution to the seed, the commitment seen
+  // before joining, and every hand the game showed them (per round), so the
+  // shuffles can be checked when the secret and round replays are revealed
+  const [entropy] = useState(createClientEntropy);
+  const fairnessRef = useRef<{
+    commitment: string | null;
+    hands: Card[][][];
+  }>({ commitment: null, hands: [] });
+
+  const observeHand = useCallback(
+    (gameState: ClientGameState) => {
+      const hand = gameState.players.find((p) => p.id === playerId)?.hand;
+      const { hands } = fairnessRef.current;
+      if (!hand) return;
+      if (hands.length === 0) hands.push([]);
+      hands[hands.length - 1].push(hand);
+    },
+    [playerId]
+  );
+
   // Handle incoming messages
   const handleMessage = useCallback(
     (message: ServerMessage) => {
       switch (message.type) {
         case "room_state":
+          fairnessRef.current.commitment ??= message.payload.commitment;
           setRoom((prev) => ({
             ...prev,
             code: message.payload.code,
@@ -366,6 +399,8 @@ export function useGameRoom(options: UseGameRoomOptions): UseGameRoomResult {
           break;
 
         case "game_started":
+          fairnessRef.current.hands.push([]);
+          observeHand(message.payload.gameState);
           setRoom((prev) => ({
             ...prev,
             status: "playing",
@@ -374,6 +409,7 @@ export function useGameRoom(options: UseGameRoomOptions): UseGameRoomResult {
           break;
 
         case "game_state":
+          observeHand(message.payload.gameState);
           setRoom((prev) => ({
             ...prev,
             gameState: message.payload.gameState,
@@ -381,16 +417,48 @@ export function useGameRoom(options: UseGameRoomOptions): UseGameRoomResult {
           break;
 
         case "state_update":
+          observeHand(message.payload.gameState);
           setRoom((prev) => ({
             ...prev,
             gameState: message.payload.gameState,
           }));
           break;
 
-        case "game_ended":
+        case "game_ended": {
+          const { finalState, replay, replays, fairness } = message.payload;
+          const { commitment, hands } = fairnessRef.current;
+          observeHand(finalState);
+
+          // Check against the commitment seen on connecting. A player who
+          // reloaded part way through hasn't seen every round
+          const reveal = { ...fairness, commitment: commitment ?? fairness.commitment };
+          const rounds = finalState.match?.rounds.length ?? 1;
+          const check: FairnessCheck =
+            replays.length !== rounds || hands.length !== rounds
+              ? { ok: false, error: "Only part of the game was seen here" }
+              : verifyShuffles(reveal, replays, {
+                  match: finalState.match !== null,
+                  entropy,
+                  seat: finalState.players.findIndex((p) => p.id === playerId),
+                  observedHands: hands,
+                });
+
           setRoom((prev) => ({
             ...prev,
             status: "ended",
+            gameState: finalState,
+            replay,
+            fairness: check,
+            timer: null,
+          }));
+          break;
+        }
+
+        case "round_ended":
+          // Still playing - the server deals the next round shortly
+          observeHand(message.payload.finalState);
+          setRoom((prev) => ({
+            ...prev,
             gameState: message.payload.finalState,
             timer: null,
           }));
@@ -406,16 +474,12 @@ export function useGameRoom(options: UseGameRoomOptions): UseGameRoomResult {
         case "timer_update":
           setRoom((prev) => ({
             ...prev,
-            timer: {
-              playerId: message.payload.playerId,
-              remainingMs: message.payload.remainingMs,
-              phase: message.payload.phase,
-            },
+            timer: message.payload,
           }));
           break;
       }
     },
-    []
+    [observeHand, entropy, playerId]
   );
 
   // Set up socket connection
@@ -432,9 +496,10 @@ export function useGameRoom(options: UseGameRoomOptions): UseGameRoomResult {
       payload: {
         playerId,
         name: displayName,
+        entropy,
       },
     });
-  }, [send, playerId, displayName]);
+  }, [send, playerId, displayName, entropy]);
 
   // Auto-join when connected
   useEffect(() => {
@@ -469,7 +534,7 @@ export function useGameRoom(options: UseGameRoomOptions): UseGameRoomResult {
 
   // Configure game settings
   const configureGame = useCallback(
-    (config: Partial<LobbyConfig>) => {
+    (config: ConfigureGameMessage["payload"]) => {
       send({
         type: "configure_game",
         payload: config,
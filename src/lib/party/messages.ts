@@ -5,7 +5,21 @@
  * Messages are JSON-serialized with a `type` discriminator.
  */
 
-import type { Card, GameState, Play, Suit, PlayerType } from "@/engine/types";
+import type {
+  Card,
+  ConfirmHandoffAction,
+  GameAction as EngineGameAction,
+  GameEvent,
+  GameState,
+  IllegalReason,
+  Play,
+  Suit,
+  PlayerType,
+  RuleSet,
+} from "@/engine/types";
+import type { AIDifficulty } from "@/engine/ai";
+import type { Replay } from "@/engine/replay";
+import type { FairnessCommitment, FairnessReveal } from "@/engine/fairness";
 
 // =============================================================================
 // Common Types
@@ -23,13 +37,45 @@ export interface PublicPlayer {
   cardCount?: number; // Number of cards in hand (during game)
 }
 
+/**
+ * A player's place in the finishing order
+ */
+export interface Placement {
+  playerId: string;
+  name: string;
+}
+
+/**
+ * Supported room sizes (5+ players are dealt from two decks)
+ */
+export type MaxPlayers = 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+/**
+ * Move time limits. Running out of time draws a card on a turn, or lets the
+ * effect stand when responding
+ */
+export type TimerConfig =
+  | { mode: "per_move"; turnMs: number; responseMs: number } // A fresh clock for every move
+  | { mode: "time_bank"; bankMs: number; incrementMs: number } // Chess clock, topped up per move
+  | { mode: "unlimited" };
+
+export const DEFAULT_TIMER_CONFIG: TimerConfig = {
+  mode: "per_move",
+  turnMs: 30 * 1000,
+  responseMs: 15 * 1000,
+};
+
 /**
  * Lobby configuration set by the host
  */
 export interface LobbyConfig {
-  maxPlayers: 2 | 3 | 4;
+  maxPlayers: MaxPlayers;
   aiSlots: number; // Number of AI players to add
   isPublic: boolean; // Whether the game appears in quick play
+  rules: Partial<RuleSet>; // House rule overrides (unset fields use defaults)
+  matchTargetScore: number | null; // Play a multi-round match to this score (null = single game)
+  aiDifficulty: AIDifficulty; // Strategy used by AI players and AI takeovers
+  timer: TimerConfig;
 }
 
 /**
@@ -49,6 +95,7 @@ export interface JoinMessage {
   payload: {
     playerId: string;
     name: string;
+    entropy?: string; // Random hex mixed into the game seed (see fairness.ts)
   };
 }
 
@@ -68,9 +115,13 @@ export interface SetNameMessage {
 export interface ConfigureGameMessage {
   type: "configure_game";
   payload: {
-    maxPlayers?: 2 | 3 | 4;
+    maxPlayers?: MaxPlayers;
     aiSlots?: number;
     isPublic?: boolean;
+    rules?: Partial<RuleSet>;
+    matchTargetScore?: number | null;
+    aiDifficulty?: AIDifficulty;
+    timer?: TimerConfig;
   };
 }
 
@@ -144,140 +195,30 @@ export type ClientMessage =
 // Game Actions (part of PlayActionMessage)
 // =============================================================================
 
-/**
- * Play cards from hand
- */
-export interface PlayCardsAction {
-  action: "play_cards";
-  cards: Card[];
-  chosenSuit?: Suit; // For Ace
-  activateEffect?: boolean; // For 2/5/10/Jack/Ace
-}
-
-/**
- * Draw a card (voluntary or forced)
- */
-export interface DrawCardAction {
-  action: "draw";
-}
-
-/**
- * End turn (after playing or drawing)
- */
-export interface EndTurnAction {
-  action: "end_turn";
-}
-
-/**
- * Declare "Last Card"
- */
-export interface DeclareLastCardAction {
-  action: "declare_last_card";
-}
-
-/**
- * Response phase: resolve (accept the effect)
- */
-export interface ResolveResponseAction {
-  action: "resolve_response";
-}
-
-/**
- * Response phase: deflect with a card
- */
-export interface DeflectResponseAction {
-  action: "deflect_response";
-  card: Card;
-}
-
-/**
- * Response phase: cancel with a 7
- */
-export interface CancelResponseAction {
-  action: "cancel_response";
-  card: Card;
-}
-
-/**
- * Seven dispute: play a 7 to toggle cancellation
- */
-export interface SevenDisputePlayAction {
-  action: "seven_dispute_play";
-  card: Card;
-}
-
-/**
- * Seven dispute: accept current outcome
- */
-export interface SevenDisputeAcceptAction {
-  action: "seven_dispute_accept";
-}
-
-/**
- * Jack response: accept direction change
- */
-export interface JackAcceptAction {
-  action: "jack_accept";
-}
-
-/**
- * Jack response: cancel with 7 or Jack
- */
-export interface JackCancelAction {
-  action: "jack_cancel";
-  card: Card;
-}
-
-/**
- * Ace response: accept suit change
- */
-export interface AceAcceptAction {
-  action: "ace_accept";
-}
-
-/**
- * Ace response: cancel with 7
- */
-export interface AceCancelAction {
-  action: "ace_cancel";
-  card: Card;
-}
-
-/**
- * Seven cancel: cancel a pending effect with a 7
- */
-export interface SevenCancelEffectAction {
-  action: "seven_cancel_effect";
-  card: Card;
-}
-
-/**
- * Seven cancel: challenge a last card declaration with a 7
- */
-export interface SevenCancelLastCardAction {
-  action: "seven_cancel_last_card";
-  card: Card;
-}
+// Action shapes are defined by the engine so the server can hand them straight
+// to applyAction; hotseat-only actions are excluded from the wire protocol.
+export type {
+  PlayCardsAction,
+  DrawCardAction,
+  EndTurnAction,
+  DeclareLastCardAction,
+  ResolveResponseAction,
+  DeflectResponseAction,
+  CancelResponseAction,
+  SevenDisputePlayAction,
+  SevenDisputeAcceptAction,
+  JackAcceptAction,
+  JackCancelAction,
+  AceAcceptAction,
+  AceCancelAction,
+  SevenCancelEffectAction,
+  SevenCancelLastCardAction,
+} from "@/engine/types";
 
 /**
  * All possible game actions
  */
-export type GameAction =
-  | PlayCardsAction
-  | DrawCardAction
-  | EndTurnAction
-  | DeclareLastCardAction
-  | ResolveResponseAction
-  | DeflectResponseAction
-  | CancelResponseAction
-  | SevenDisputePlayAction
-  | SevenDisputeAcceptAction
-  | JackAcceptAction
-  | JackCancelAction
-  | AceAcceptAction
-  | AceCancelAction
-  | SevenCancelEffectAction
-  | SevenCancelLastCardAction;
+export type GameAction = Exclude<EngineGameAction, ConfirmHandoffAction>;
 
 // =============================================================================
 // Server → Client Messages
@@ -294,6 +235,7 @@ export interface RoomStateMessage {
     players: PublicPlayer[];
     hostId: string | null;
     config: LobbyConfig;
+    commitment: string; // SHA-256 of the secret the game will be seeded from
   };
 }
 
@@ -353,6 +295,7 @@ export interface GameStartedMessage {
   type: "game_started";
   payload: {
     gameState: ClientGameState;
+    fairness: FairnessCommitment; // The entropy mixed into the seed
   };
 }
 
@@ -377,18 +320,36 @@ export interface StateUpdateMessage {
       playerId: string;
       action: GameAction;
     };
+    // What the action caused, in order. Player numbers in events are
+    // indices into gameState.players
+    events?: GameEvent[];
   };
 }
 
 /**
- * Game has ended
+ * Game has ended (for a match, finalState.match holds the final standings)
  */
 export interface GameEndedMessage {
   type: "game_ended";
   payload: {
-    winnerId: string;
-    winnerName: string;
+    finishingOrder: Placement[]; // Every player, first out first
     finalState: ClientGameState;
+    replay: Replay; // The game just finished (the last round of a match)
+    replays: Replay[]; // Every round in order (just the game, outside a match)
+    fairness: FairnessReveal; // The secret, to verify every round's shuffles
+  };
+}
+
+/**
+ * A match round has ended (the next round is dealt shortly after). Its replay
+ * is held back until game_ended, as the seed would give away later deals.
+ */
+export interface RoundEndedMessage {
+  type: "round_ended";
+  payload: {
+    finishingOrder: Placement[]; // Every player, first out first
+    finalState: ClientGameState;
+    nextRoundInMs: number;
   };
 }
 
@@ -400,6 +361,7 @@ export interface ErrorMessage {
   payload: {
     code?: string;
     message: string;
+    reason?: IllegalReason; // Why a game action was rejected (code is reason.code)
   };
 }
 
@@ -412,6 +374,9 @@ export interface TimerUpdateMessage {
     playerId: string;
     remainingMs: number;
     phase: "turn" | "response";
+    mode: "per_move" | "time_bank"; // No updates are sent without a time limit
+    durationMs: number; // The clock when the move began (the move's limit, or the bank)
+    warningMs: number; // Remaining time from which to warn the player
   };
 }
 
@@ -428,6 +393,7 @@ export type ServerMessage =
   | GameStateMessage
   | StateUpdateMessage
   | GameEndedMessage
+  | RoundEndedMessage
   | ErrorMessage
   | TimerUpdateMessage;
 
@@ -451,11 +417,29 @@ export interface ClientPlayerState {
   lastCardPenalty: boolean;
 }
 
+/**
+ * Match standings as seen by clients (scores keyed by player ID)
+ */
+export interface ClientMatchState {
+  targetScore: number;
+  roundNumber: number;
+  scores: Record<string, number>;
+  rounds: {
+    roundNumber: number;
+    winnerId: string;
+    penalties: Record<string, number>;
+  }[];
+  matchWinnerId: string | null;
+}
+
 /**
  * Game state from a specific player's perspective
  * This is derived from the full GameState but with hidden info removed
  */
 export interface ClientGameState {
+  // House rules in effect for this game
+  rules: RuleSet;
+
   // Player states (with hand hidden for opponents)
   players: ClientPlayerState[];
 
@@ -504,9 +488,17 @@ export interface ClientGameState {
 
   // Game result
   winnerId: string | null;
+  finishingOrder: string[]; // Player IDs who have gone out, in order
+
+  // Match standings (null for a single game)
+  match: ClientMatchState | null;
 
   // Turn tracking
   turnNumber: number;
+
+  // What the viewing player may do right now (empty when it isn't their move).
+  // Only single-card plays are listed; multi-card plays are validated on submit
+  legalActions: GameAction[];
 }
 
 // =============================================================================
@@ -548,6 +540,7 @@ export function isServerMessage(msg: unknown): msg is ServerMessage {
     "game_state",
     "state_update",
     "game_ended",
+    "round_ended",
     "error",
     "timer_update",
   ].includes(type ?? "");
@@ -0,0 +1,54 @@
+/**
+ * Replay Sharing
+ * Links to the /replay viewer and replay/notation file downloads (browser only)
+ */
+
+import {
+  NOTATION_EXTENSION,
+  Replay,
+  encodeReplayFragment,
+  formatNotation,
+  serializeReplay,
+} from "@/engine";
+
+/**
+ * Link to the replay viewer with the replay in the URL fragment (never sent to a server)
+ */
+export function getReplayUrl(replay: Replay): string {
+  return `/replay#${encodeReplayFragment(replay)}`;
+}
+
+/**
+ * Open a replay in the viewer in a new tab
+ */
+export function openReplay(replay: Replay): void {
+  window.open(getReplayUrl(replay), "_blank", "noopener");
+}
+
+function downloadFile(name: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function getFileStem(replay: Replay): string {
+  const date = new Date(replay.startedAt).toISOString().slice(0, 10);
+  return `last-card-replay-${date}-${replay.seed}`;
+}
+
+/**
+ * Save a replay as a JSON file
+ */
+export function downloadReplay(replay: Replay): void {
+  downloadFile(`${getFileStem(replay)}.json`, serializeReplay(replay), "application/json");
+}
+
+/**
+ * Save a replay as a game notation text file
+ */
+export function downloadNotation(replay: Replay): void {
+  downloadFile(`${getFileStem(replay)}${NOTATION_EXTENSION}`, formatNotation(replay), "text/plain");
+}
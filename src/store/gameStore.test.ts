@@ -0,0 +1,76 @@
+/**
+ * Local Game Store Tests
+ * The replay follows the game through undo and redo
+ */
+
+import { describe, it, expect } from "vitest";
+import { getReplayStates } from "@/engine";
+import { useGameStore } from "./gameStore";
+import { parseLocalGame, serializeLocalGame } from "./localSave";
+
+describe("local replay recording", () => {
+  it("should record actions and keep the replay in step with undo and redo", () => {
+    const store = useGameStore.getState;
+    store().startGameWithTypes(2, ["human", "ai"], {}, 7);
+    store().setUndoPolicy("unlimited");
+
+    store().confirmHandoff();
+    store().drawCard();
+    store().confirmHandoff();
+    store().drawCard(); // The AI seat, played by hand here
+    expect(store().getReplay()?.steps.map((s) => [s.player, s.action.action])).toEqual([
+      [0, "draw"],
+      [1, "draw"],
+    ]);
+    const afterDraws = store().gameState;
+
+    store().undo();
+    expect(store().getReplay()?.steps).toHaveLength(0);
+    store().redo();
+    expect(store().gameState).toBe(afterDraws);
+    expect(store().getReplay()?.steps).toHaveLength(2);
+
+    store().undo();
+    store().confirmHandoff();
+    store().drawCard();
+    const replay = store().getReplay()!;
+    expect(replay.steps).toHaveLength(1);
+    const states = getReplayStates(replay);
+    expect(states[states.length - 1].players).toEqual(store().gameState?.players);
+  });
+
+  it("should cut the replay back when undoing to a resumed game's first state", () => {
+    const store = useGameStore.getState;
+    store().startGameWithTypes(2, ["human", "human"], {}, 7);
+    store().setUndoPolicy("unlimited");
+    store().confirmHandoff();
+    store().drawCard();
+    store().confirmHandoff();
+
+    // Reload the game the way a page refresh does
+    const { gameState, match, selectedCards, playOrder, pendingSuitChoice } = store();
+    const { activateEffect, undoPolicy, aiDifficulty } = store();
+    const json = serializeLocalGame({
+      gameState: gameState!,
+      match,
+      selectedCards,
+      playOrder,
+      pendingSuitChoice,
+      activateEffect,
+      undoPolicy,
+      aiDifficulty,
+      replay: store().getReplay(),
+    });
+    const loaded = parseLocalGame(json);
+    if (!loaded.ok) throw new Error(loaded.error);
+    useGameStore.setState({ savedGame: loaded.snapshot });
+    store().resumeSavedGame();
+    const resumed = store().gameState;
+
+    store().drawCard();
+    expect(store().getReplay()?.steps).toHaveLength(2);
+    store().undo();
+    expect(store().gameState).toBe(resumed);
+    expect(store().getReplay()?.steps).toHaveLength(1);
+  });
+});
@@ -6,21 +6,19 @@
 import { create } from "zustand";
 import {
   Card,
+  GameAction,
+  GameEvent,
   GameState,
+  IllegalReason,
+  MatchState,
   Play,
   PlayerType,
+  RuleSet,
   Suit,
-  cardEquals,
+  countCards,
+  removeCards,
   initializeGame,
   getLegalPlays,
-  isPlayLegal,
-  applyPlay,
-  applyForcedDraw,
-  applyVoluntaryDraw,
-  nextTurn,
-  confirmHandoff,
-  declareLastCard,
-  canDeclareLastCard,
   getTopCard,
   getTargetSuit,
   getTargetRank,
@@ -28,62 +26,107 @@ import {
   // Response phase functions
   isInResponsePhase,
   getRespondingPlayer,
-  getLegalDeflections,
-  getLegalCancels,
-  canCancel,
-  applyResolve,
-  applyDeflect,
-  applyCancel,
   isSpecialCard,
+  isJackActive,
   // Seven Dispute functions
   isInSevenDispute,
-  canPlaySevenCancelEffect,
-  canPlaySevenCancelLastCard,
-  getLegalSevenCancelsEffect,
-  getLegalSevenCancelsLastCard,
-  getLegalSevenDisputePlays,
-  canPlaySevenDispute,
-  applySevenCancelEffect,
-  applySevenCancelLastCard,
-  applySevenDisputePlay,
-  applySevenDisputeAccept,
   getSevenDisputeStatusMessage,
   // Jack response functions
   isInJackResponse,
   canRespondToJack,
-  getLegalJackCancels,
-  canCancelJack,
-  applyJackAccept,
-  applyJackCancel,
   // Ace response functions
   isInAceResponse,
   canRespondToAce,
-  getLegalAceCancels,
-  canCancelAce,
-  applyAceAccept,
-  applyAceCancel,
+  // Action reducer
+  applyAction,
+  getActingPlayerIndex,
+  // Legal actions
+  CardActionType,
+  getLegalActions,
+  getLegalCards,
+  explainIllegalAction,
+  // AI
+  AIDifficulty,
+  getAIStrategy,
+  // Match play
+  createMatch,
+  dealRound,
+  scoreRound,
+  // Replays
+  Replay,
+  createReplay,
+  recordReplayStep,
 } from "@/engine";
+import {
+  EMPTY_HISTORY,
+  UndoHistory,
+  UndoPolicy,
+  getDefaultUndoPolicy,
+  needsTakebackConsent,
+  recordAction,
+  redo,
+  undo,
+} from "./history";
+import { LocalGameSnapshot, clearLocalGame, loadLocalGame, saveLocalGame } from "./localSave";
 
 interface GameStore {
   // Core game state
   gameState: GameState | null;
+  match: MatchState | null; // Set while playing a multi-round match
 
   // UI state
   selectedCards: Card[];
   playOrder: Card[]; // Cards in the order they will be played
   pendingSuitChoice: boolean;
   activateEffect: boolean; // Toggle for 2/5/10 effect activation
+  aiDifficulty: AIDifficulty; // Strategy used by every AI player
+  lastEvents: GameEvent[]; // What the most recent action caused (for animations, sounds, logs)
+
+  // Takebacks
+  undoPolicy: UndoPolicy | null; // null = the default for the player types
+  history: UndoHistory;
+  takebackRequested: boolean; // Waiting for the other humans to agree to an undo
+
+  // Every action since the deal - after an undo it runs past gameState until the next action
+  replay: Replay | null;
+  replayLength: number; // Replay steps that lead to gameState
+
+  // Saved game (persisted to localStorage so a reload can resume it)
+  savedGame: LocalGameSnapshot | null; // Found on load and not yet resumed or discarded
+  savedGameError: string | null; // Why a saved game couldn't be restored
 
   // Actions
-  startGame: (playerCount: number) => void;
-  startGameWithTypes: (playerCount: number, playerTypes: PlayerType[]) => void;
+  startGame: (playerCount: number, seed?: number) => void;
+  startGameWithTypes: (
+    playerCount: number,
+    playerTypes: PlayerType[],
+    rules?: Partial<RuleSet>,
+    seed?: number // Omit for a random deal; the seed used is kept in gameState.rng
+  ) => void;
+  startMatch: (
+    playerCount: number,
+    playerTypes: PlayerType[],
+    targetScore: number,
+    rules?: Partial<RuleSet>
+  ) => void;
+  nextRound: () => void; // Score the finished round and deal the next one
+  checkSavedGame: () => void; // Look for a saved game (client only - call after mount)
+  resumeSavedGame: () => void;
+  discardSavedGame: () => void;
   executeAiTurn: () => void; // Execute AI player's turn
+  setAiDifficulty: (difficulty: AIDifficulty) => void;
   selectCard: (card: Card) => void;
   deselectCard: (card: Card) => void;
   clearSelection: () => void;
   reorderPlayCard: (fromIndex: number, toIndex: number) => void;
   toggleActivateEffect: () => void;
 
+  // Takeback actions
+  setUndoPolicy: (policy: UndoPolicy | null) => void;
+  undo: () => void; // Asks for consent first when the policy needs it
+  redo: () => void;
+  respondToTakeback: (allow: boolean) => void;
+
   // Game actions
   playSelectedCards: (chosenSuit?: Suit) => void;
   drawCard: () => void;
@@ -110,9 +153,12 @@ interface GameStore {
   cancelAceResponse: (card: Card) => void;
 
   // Computed helpers
+  getLegalActions: () => GameAction[]; // For the acting player (single-card plays only)
+  canTakeAction: (action: GameAction["action"]) => boolean;
   getCurrentPlayer: () => { id: number; hand: Card[] } | null;
   getLegalPlays: () => LegalPlay[];
   isSelectionLegal: () => boolean;
+  explainSelection: () => IllegalReason | null; // Why the selection can't be played (null if it can)
   needsSuitChoice: () => boolean;
   getTopCard: () => Card | null;
   getTargetSuit: () => Suit | null;
@@ -158,205 +204,227 @@ interface GameStore {
   isActivePlayerAi: () => boolean; // Check if the player who needs to act is AI
   getActivePlayerIndex: () => number | null; // Get index of player who needs to act
   getPlayerType: (index: number) => PlayerType | null;
+
+  // Takeback helpers
+  getUndoPolicy: () => UndoPolicy; // The policy in effect for this game
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+
+  // The replay up to the current state
+  getReplay: () => Replay | null;
+}
+
+/**
+ * Get the cards the acting player can use for one kind of card action
+ */
+function legalCards(gameState: GameState, action: CardActionType): Card[] {
+  return getLegalCards(gameState, getActingPlayerIndex(gameState), action);
+}
+
+/**
+ * Cut a replay back to its first steps, so undo and redo can move through the
+ * replay without rewriting it
+ */
+function replayUpTo(replay: Replay, length: number): Replay {
+  return length === replay.steps.length
+    ? replay
+    : { ...replay, steps: replay.steps.slice(0, length) };
+}
+
+/**
+ * Run an action for whoever must act next through the engine reducer.
+ * Returns the store update for the new state, for the caller to apply in the
+ * same set as its own UI changes, or null if the engine rejected the action.
+ */
+function runAction(gameState: GameState, action: GameAction): Partial<GameStore> | null {
+  const actingIndex = getActingPlayerIndex(gameState);
+  const result = applyAction(gameState, actingIndex, action);
+  if (!result.ok) return null;
+
+  const { history, getUndoPolicy, replay, replayLength } = useGameStore.getState();
+  const checkpoint = { gameState, replayLength };
+  const newReplay =
+    replay && recordReplayStep(replayUpTo(replay, replayLength), actingIndex, action);
+  return {
+    gameState: result.state,
+    lastEvents: result.events,
+    history: recordAction(history, getUndoPolicy(), checkpoint, actingIndex, action),
+    takebackRequested: false,
+    replay: newReplay,
+    replayLength: newReplay ? newReplay.steps.length : 0,
+  };
 }
 
 export const useGameStore = create<GameStore>((set, get) => ({
   gameState: null,
+  match: null,
   selectedCards: [],
   playOrder: [],
   pendingSuitChoice: false,
   activateEffect: true,
+  aiDifficulty: "normal",
+  lastEvents: [],
+  undoPolicy: null,
+  history: EMPTY_HISTORY,
+  takebackRequested: false,
+  replay: null,
+  replayLength: 0,
+  savedGame: null,
+  savedGameError: null,
+
+  startGame: (playerCount: number, seed?: number) => {
+    const gameState = initializeGame(playerCount, seed);
+    set({
+      gameState,
+      match: null,
+      selectedCards: [],
+      playOrder: [],
+      pendingSuitChoice: false,
+      activateEffect: true,
+      lastEvents: [],
+      history: EMPTY_HISTORY,
+      takebackRequested: false,
+      replay: createReplay(gameState),
+      replayLength: 0,
+    });
+  },
 
-  startGame: (playerCount: number) => {
-    const gameState = initializeGame(playerCount);
+  startGameWithTypes: (
+    playerCount: number,
+    playerTypes: PlayerType[],
+    rules?: Partial<RuleSet>,
+    seed?: number
+  ) => {
+    const gameState = initializeGame(playerCount, seed, playerTypes, rules);
     set({
       gameState,
+      match: null,
       selectedCards: [],
       playOrder: [],
       pendingSuitChoice: false,
       activateEffect: true,
+      lastEvents: [],
+      history: EMPTY_HISTORY,
+      takebackRequested: false,
+      replay: createReplay(gameState),
+      replayLength: 0,
     });
   },
 
-  startGameWithTypes: (playerCount: number, playerTypes: PlayerType[]) => {
-    const gameState = initializeGame(playerCount, undefined, playerTypes);
+  startMatch: (
+    playerCount: number,
+    playerTypes: PlayerType[],
+    targetScore: number,
+    rules?: Partial<RuleSet>
+  ) => {
+    const match = createMatch(playerCount, { playerTypes, rules, targetScore });
+    const gameState = dealRound(match);
     set({
       gameState,
+      match,
       selectedCards: [],
       playOrder: [],
       pendingSuitChoice: false,
       activateEffect: true,
+      lastEvents: [],
+      history: EMPTY_HISTORY,
+      takebackRequested: false,
+      replay: createReplay(gameState),
+      replayLength: 0,
     });
   },
 
-  executeAiTurn: () => {
-    const { gameState } = get();
-    if (!gameState || gameState.winner !== null) return;
+  nextRound: () => {
+    const { gameState, match } = get();
+    if (!gameState || !match || gameState.winner === null) return;
 
-    // Get the active player who needs to act
-    let activeIndex: number;
-    if (isInSevenDispute(gameState) && gameState.sevenDispute) {
-      activeIndex = gameState.sevenDispute.responderPlayerId;
-    } else if (isInJackResponse(gameState) && gameState.jackResponse) {
-      activeIndex = gameState.jackResponse.responderPlayerId;
-    } else if (isInAceResponse(gameState) && gameState.aceResponse) {
-      activeIndex = gameState.aceResponse.responderPlayerId;
-    } else if (isInResponsePhase(gameState) && gameState.respondingPlayerIndex !== null) {
-      activeIndex = gameState.respondingPlayerIndex;
-    } else {
-      activeIndex = gameState.currentPlayerIndex;
+    const scored = scoreRound(match, gameState);
+    if (scored.matchWinner !== null) {
+      // Match decided - keep the final round on screen
+      set({ match: scored });
+      return;
     }
 
-    const activePlayer = gameState.players[activeIndex];
-    if (activePlayer.playerType !== "ai") return;
+    const round = dealRound(scored);
+    set({
+      gameState: round,
+      match: scored,
+      selectedCards: [],
+      playOrder: [],
+      pendingSuitChoice: false,
+      activateEffect: true,
+      lastEvents: [],
+      history: EMPTY_HISTORY,
+      takebackRequested: false,
+      replay: createReplay(round),
+      replayLength: 0,
+    });
+  },
 
-    let newState = gameState;
-
-    // Handle Seven Dispute phase
-    if (isInSevenDispute(gameState) && gameState.sevenDispute) {
-      const legalSevens = getLegalSevenDisputePlays(gameState, activeIndex);
-      if (legalSevens.length > 0) {
-        // AI plays a 7 to continue dispute
-        newState = applySevenDisputePlay(gameState, legalSevens[0]);
-      } else {
-        // AI accepts the dispute outcome
-        newState = applySevenDisputeAccept(gameState);
-        // After EFFECT dispute with cancelled=true, the turn should advance
-        if (newState.turnPhase === "can-end" && newState.winner === null) {
-          newState = nextTurn(newState);
-        }
-      }
-      set({ gameState: newState });
-      return;
-    }
+  checkSavedGame: () => {
+    // A game already in memory (e.g. after client-side navigation) wins over the save
+    if (get().gameState) return;
 
-    // Handle Jack Response phase
-    if (isInJackResponse(gameState) && gameState.jackResponse) {
-      const cancels = getLegalJackCancels(gameState, activeIndex);
-      if (cancels.length > 0) {
-        // AI cancels with first available card (7 of Jack's suit or another Jack)
-        newState = applyJackCancel(gameState, cancels[0]);
-      } else {
-        // AI accepts direction flip
-        newState = applyJackAccept(gameState);
-      }
-      set({ gameState: newState });
-      return;
+    const loaded = loadLocalGame();
+    if (!loaded) return;
+    if (loaded.ok) {
+      set({ savedGame: loaded.snapshot, savedGameError: null });
+    } else {
+      // Corrupt or from a newer version - nothing can be resumed, so drop it
+      clearLocalGame();
+      set({ savedGame: null, savedGameError: loaded.error });
     }
+  },
 
-    // Handle Ace Response phase
-    if (isInAceResponse(gameState) && gameState.aceResponse) {
-      const cancels = getLegalAceCancels(gameState, activeIndex);
-      if (cancels.length > 0) {
-        // AI cancels with 7 of Ace's suit
-        newState = applyAceCancel(gameState, cancels[0]);
-      } else {
-        // AI accepts suit change
-        newState = applyAceAccept(gameState);
-      }
-      set({ gameState: newState });
-      return;
-    }
+  resumeSavedGame: () => {
+    const { savedGame } = get();
+    if (!savedGame) return;
+    set({
+      ...savedGame,
+      replayLength: savedGame.replay?.steps.length ?? 0,
+      lastEvents: [],
+      history: EMPTY_HISTORY,
+      takebackRequested: false,
+      savedGame: null,
+      savedGameError: null,
+    });
+  },
 
-    // Handle Response Phase (2/5/10 deflection)
-    if (isInResponsePhase(gameState) && gameState.respondingPlayerIndex !== null) {
-      // Check for 7 cancel option first
-      const sevenCancels = getLegalSevenCancelsEffect(gameState, activeIndex);
-      if (sevenCancels.length > 0) {
-        // AI plays 7 to cancel effect
-        newState = applySevenCancelEffect(gameState, sevenCancels[0]);
-        set({ gameState: newState });
-        return;
-      }
-
-      // Check for deflection
-      const deflections = getLegalDeflections(gameState);
-      if (deflections.length > 0) {
-        // AI deflects with first available card
-        newState = applyDeflect(gameState, deflections[0]);
-        set({ gameState: newState });
-        return;
-      }
-
-      // No deflection possible - resolve
-      newState = applyResolve(gameState);
-      set({ gameState: newState });
-      return;
-    }
+  discardSavedGame: () => {
+    clearLocalGame();
+    set({ savedGame: null, savedGameError: null });
+  },
 
-    // Handle waiting phase - AI confirms handoff
-    if (gameState.turnPhase === "waiting") {
-      newState = confirmHandoff(gameState);
-      set({ gameState: newState });
-      return;
-    }
+  executeAiTurn: () => {
+    const { gameState, aiDifficulty } = get();
+    if (!gameState || gameState.winner !== null) return;
 
-    // Handle must-draw phase
-    if (gameState.turnPhase === "must-draw") {
-      newState = applyForcedDraw(gameState);
-      newState = nextTurn(newState);
-      set({ gameState: newState, selectedCards: [], playOrder: [] });
-      return;
-    }
+    // Get the active player who needs to act
+    const activeIndex = getActingPlayerIndex(gameState);
+    const activePlayer = gameState.players[activeIndex];
+    if (activePlayer.playerType !== "ai") return;
 
-    // Handle 7 challenge for Last Card (before normal play)
-    if (canPlaySevenCancelLastCard(gameState, activeIndex)) {
-      const sevenCancels = getLegalSevenCancelsLastCard(gameState, activeIndex);
-      if (sevenCancels.length > 0) {
-        // AI challenges with 50% probability (simple baseline)
-        if (Math.random() < 0.5) {
-          newState = applySevenCancelLastCard(gameState, sevenCancels[0]);
-          set({ gameState: newState });
-          return;
-        }
-      }
-    }
+    // One action per call - the AI effect calls again while an AI is still acting
+    const action = getAIStrategy(aiDifficulty).chooseAction(gameState, activeIndex);
+    if (!action) return;
 
-    // Normal playing phase
-    if (gameState.turnPhase === "playing") {
-      const legalPlays = getLegalPlays(gameState, activeIndex);
-
-      if (legalPlays.length > 0) {
-        // AI prefers playing over drawing
-        // Pick a deterministic play: prefer smallest hand reduction, then alphabetical order
-        // For simplicity, just pick the first legal single-card play, or first overall
-        const singleCardPlays = legalPlays.filter((p) => p.play.cards.length === 1);
-        const chosenPlay = singleCardPlays.length > 0 ? singleCardPlays[0] : legalPlays[0];
-
-        // Check if AI should declare Last Card
-        if (canDeclareLastCard(gameState, chosenPlay.play.cards)) {
-          newState = declareLastCard(gameState);
-        }
-
-        // Apply the play
-        newState = applyPlay(newState, chosenPlay.play);
-
-        // Auto-end turn if no response phase, Jack response, or Ace response
-        if (
-          newState.winner === null &&
-          newState.responsePhase !== "responding" &&
-          !isInJackResponse(newState) &&
-          !isInAceResponse(newState)
-        ) {
-          newState = nextTurn(newState);
-        }
-
-        set({ gameState: newState, selectedCards: [], playOrder: [], activateEffect: true });
-      } else {
-        // No legal plays - draw
-        newState = applyVoluntaryDraw(gameState);
-        newState = nextTurn(newState);
-        set({ gameState: newState, selectedCards: [], playOrder: [] });
-      }
+    const update = runAction(gameState, action);
+    if (update) {
+      set({ ...update, selectedCards: [], playOrder: [], activateEffect: true });
     }
   },
 
+  setAiDifficulty: (difficulty: AIDifficulty) => {
+    set({ aiDifficulty: difficulty });
+  },
+
   selectCard: (card: Card) => {
     const { selectedCards, playOrder, gameState } = get();
     if (!gameState) return;
 
-    // Don't allow selecting if already selected
-    if (selectedCards.some((c) => cardEquals(c, card))) return;
+    // Don't allow selecting more copies than the acting player holds
+    const hand = gameState.players[getActingPlayerIndex(gameState)].hand;
+    if (countCards(selectedCards, card) >= countCards(hand, card)) return;
 
     // Add to both selected and play order
     set({
@@ -367,9 +435,10 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
   deselectCard: (card: Card) => {
     const { selectedCards, playOrder } = get();
+    // Remove a single copy (duplicates from a second deck stay selected)
     set({
-      selectedCards: selectedCards.filter((c) => !cardEquals(c, card)),
-      playOrder: playOrder.filter((c) => !cardEquals(c, card)),
+      selectedCards: removeCards(selectedCards, [card]),
+      playOrder: removeCards(playOrder, [card]),
     });
   },
 
@@ -389,6 +458,62 @@ export const useGameStore = create<GameStore>((set, get) => ({
     set((state) => ({ activateEffect: !state.activateEffect }));
   },
 
+  setUndoPolicy: (policy: UndoPolicy | null) => {
+    set({ undoPolicy: policy, history: EMPTY_HISTORY, takebackRequested: false });
+  },
+
+  undo: () => {
+    const { gameState, replayLength, history, canUndo, getUndoPolicy, takebackRequested } = get();
+    if (!gameState || !canUndo()) return;
+
+    if (needsTakebackConsent(getUndoPolicy(), gameState) && !takebackRequested) {
+      set({ takebackRequested: true });
+      return;
+    }
+
+    const undone = undo(history, { gameState, replayLength });
+    if (!undone) return;
+    // The checkpoint is a human's decision point, so no handoff screen is shown again
+    set({
+      gameState: undone.gameState,
+      replayLength: undone.replayLength,
+      history: undone.history,
+      takebackRequested: false,
+      selectedCards: [],
+      playOrder: [],
+      pendingSuitChoice: false,
+      activateEffect: true,
+      lastEvents: [],
+    });
+  },
+
+  redo: () => {
+    const { gameState, replayLength, history, canRedo } = get();
+    if (!gameState || !canRedo()) return;
+
+    const redone = redo(history, { gameState, replayLength });
+    if (!redone) return;
+    set({
+      gameState: redone.gameState,
+      replayLength: redone.replayLength,
+      history: redone.history,
+      selectedCards: [],
+      playOrder: [],
+      pendingSuitChoice: false,
+      activateEffect: true,
+      lastEvents: [],
+    });
+  },
+
+  respondToTakeback: (allow: boolean) => {
+    if (!get().takebackRequested) return;
+    if (allow) {
+      get().undo();
+    } else {
+      set({ takebackRequested: false });
+    }
+  },
+
   playSelectedCards: (chosenSuit?: Suit) => {
     const { gameState, playOrder, pendingSuitChoice, activateEffect } = get();
     if (!gameState) return;
@@ -403,7 +528,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
     // Check if play contains special cards (2, 5, 10)
     const hasSpecialEffect = playOrder.some(isSpecialCard);
 
-    // Check if play is a Jack (activation matters for 3+ players)
+    // Check if play is a Jack (activation matters when Jacks are active)
     const isJackPlay = playOrder.length === 1 && lastCard?.rank === "J";
     const isAcePlay = playOrder.length === 1 && lastCard?.rank === "A";
 
@@ -413,26 +538,16 @@ export const useGameStore = create<GameStore>((set, get) => ({
       chosenSuit: isAcePlay && activateEffect ? chosenSuit : undefined,
       // Activation affects: 2/5/10 effects, Jack direction (3+ players), Ace suit change
       activateEffect:
-        hasSpecialEffect || (isJackPlay && gameState.players.length >= 3) || isAcePlay
+        hasSpecialEffect || (isJackPlay && isJackActive(gameState)) || isAcePlay
           ? activateEffect
           : undefined,
     };
 
-    if (isPlayLegal(gameState, gameState.currentPlayerIndex, play)) {
-      let newState = applyPlay(gameState, play);
-
-      // Auto-end turn after playing (unless game is over or entering response/Jack/Ace phase)
-      if (
-        newState.winner === null &&
-        newState.responsePhase !== "responding" &&
-        !isInJackResponse(newState) &&
-        !isInAceResponse(newState)
-      ) {
-        newState = nextTurn(newState);
-      }
-
+    // The engine auto-ends the turn unless the play opens a response window
+    const update = runAction(gameState, { action: "play_cards", ...play });
+    if (update) {
       set({
-        gameState: newState,
+        ...update,
         selectedCards: [],
         playOrder: [],
         pendingSuitChoice: false,
@@ -445,21 +560,12 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { gameState } = get();
     if (!gameState) return;
 
-    let newState: GameState;
-
-    if (gameState.turnPhase === "must-draw") {
-      // Forced draw
-      newState = applyForcedDraw(gameState);
-    } else {
-      // Voluntary draw
-      newState = applyVoluntaryDraw(gameState);
-    }
-
-    // Auto-end turn after drawing
-    newState = nextTurn(newState);
+    // Forced or voluntary draw; the engine auto-ends the turn afterwards
+    const update = runAction(gameState, { action: "draw" });
+    if (!update) return;
 
     set({
-      gameState: newState,
+      ...update,
       selectedCards: [],
       playOrder: [],
     });
@@ -469,44 +575,43 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { gameState } = get();
     if (!gameState) return;
 
-    const newState = confirmHandoff(gameState);
-    set({ gameState: newState });
+    const update = runAction(gameState, { action: "confirm_handoff" });
+    if (update) set(update);
   },
 
   declareLastCard: () => {
     const { gameState } = get();
     if (!gameState) return;
 
-    const newState = declareLastCard(gameState);
-    set({ gameState: newState });
+    const update = runAction(gameState, { action: "declare_last_card" });
+    if (update) set(update);
   },
 
   // Response phase actions
   resolveResponse: () => {
     const { gameState } = get();
-    if (!gameState || !isInResponsePhase(gameState)) return;
+    if (!gameState) return;
 
-    const newState = applyResolve(gameState);
-    set({ gameState: newState });
+    const update = runAction(gameState, { action: "resolve_response" });
+    if (update) set(update);
   },
 
   deflectResponse: (card: Card) => {
     const { gameState } = get();
-    if (!gameState || !isInResponsePhase(gameState)) return;
-
-    const newState = applyDeflect(gameState, card);
+    if (!gameState) return;
 
     // If game ended due to this deflection, just update state
     // Otherwise, handoff screen will be shown to next responder
-    set({ gameState: newState });
+    const update = runAction(gameState, { action: "deflect_response", card });
+    if (update) set(update);
   },
 
   cancelResponse: (card: Card) => {
     const { gameState } = get();
-    if (!gameState || !isInResponsePhase(gameState)) return;
+    if (!gameState) return;
 
-    const newState = applyCancel(gameState, card);
-    set({ gameState: newState });
+    const update = runAction(gameState, { action: "cancel_response", card });
+    if (update) set(update);
   },
 
   // Seven Dispute actions
@@ -514,39 +619,47 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { gameState } = get();
     if (!gameState) return;
 
-    const newState = applySevenCancelEffect(gameState, card);
-    set({ gameState: newState });
+    const update = runAction(gameState, { action: "seven_cancel_effect", card });
+    if (update) set(update);
   },
 
   playSevenCancelLastCard: (card: Card) => {
     const { gameState } = get();
     if (!gameState) return;
 
-    const newState = applySevenCancelLastCard(gameState, card);
-    set({ gameState: newState });
+    const update = runAction(gameState, { action: "seven_cancel_last_card", card });
+    if (update) set(update);
   },
 
   playSevenDispute: (card: Card) => {
     const { gameState } = get();
-    if (!gameState || !isInSevenDispute(gameState)) return;
+    if (!gameState) return;
 
-    const newState = applySevenDisputePlay(gameState, card);
-    set({ gameState: newState });
+    const update = runAction(gameState, { action: "seven_dispute_play", card });
+    if (update) set(update);
   },
 
   acceptSevenDispute: () => {
     const { gameState } = get();
-    if (!gameState || !isInSevenDispute(gameState)) return;
+    if (!gameState) return;
 
-    let newState = applySevenDisputeAccept(gameState);
+    // After EFFECT dispute with cancelled=true, the engine advances the turn
+    const update = runAction(gameState, { action: "seven_dispute_accept" });
+    if (update) set(update);
+  },
 
-    // After EFFECT dispute with cancelled=true, the turn should advance
-    // because both players have played their cards (original 2/5/10 and the 7 cancel)
-    if (newState.turnPhase === "can-end" && newState.winner === null) {
-      newState = nextTurn(newState);
-    }
+  getLegalActions: () => {
+    const { gameState } = get();
+    if (!gameState) return [];
+    return getLegalActions(gameState, getActingPlayerIndex(gameState), { multiCardPlays: false });
+  },
 
-    set({ gameState: newState });
+  canTakeAction: (action: GameAction["action"]) => {
+    const { gameState } = get();
+    if (!gameState) return false;
+    return get()
+      .getLegalActions()
+      .some((a) => a.action === action);
   },
 
   getCurrentPlayer: () => {
@@ -567,18 +680,21 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { gameState, playOrder } = get();
     if (!gameState || playOrder.length === 0) return false;
 
-    // Check if the current selection (in play order) forms a legal play
-    // For Ace, we accept any suit choice
-    const lastCard = playOrder[playOrder.length - 1];
-    if (lastCard.rank === "A") {
-      // Check with any suit
-      return isPlayLegal(gameState, gameState.currentPlayerIndex, {
-        cards: playOrder,
-        chosenSuit: "hearts",
-      });
-    }
+    // Check if the current selection (in play order) forms a legal play right now
+    return get().explainSelection() === null;
+  },
+
+  explainSelection: () => {
+    const { gameState, playOrder } = get();
+    if (!gameState || playOrder.length === 0) return null;
 
-    return isPlayLegal(gameState, gameState.currentPlayerIndex, { cards: playOrder });
+    // For Ace, we accept any suit choice (it is asked for after pressing Play)
+    const lastCard = playOrder[playOrder.length - 1];
+    return explainIllegalAction(gameState, getActingPlayerIndex(gameState), {
+      action: "play_cards",
+      cards: playOrder,
+      chosenSuit: lastCard.rank === "A" ? "hearts" : undefined,
+    });
   },
 
   needsSuitChoice: () => {
@@ -622,19 +738,19 @@ export const useGameStore = create<GameStore>((set, get) => ({
   getLegalDeflections: () => {
     const { gameState } = get();
     if (!gameState) return [];
-    return getLegalDeflections(gameState);
+    return legalCards(gameState, "deflect_response");
   },
 
   getLegalCancels: () => {
     const { gameState } = get();
     if (!gameState) return [];
-    return getLegalCancels(gameState);
+    return legalCards(gameState, "deflect_response");
   },
 
   canCancel: () => {
     const { gameState } = get();
     if (!gameState) return false;
-    return canCancel(gameState);
+    return legalCards(gameState, "deflect_response").length > 0;
   },
 
   hasSpecialCardSelected: () => {
@@ -642,9 +758,9 @@ export const useGameStore = create<GameStore>((set, get) => ({
     if (!gameState) return false;
     // Check for 2, 5, 10 (always special)
     if (playOrder.some(isSpecialCard)) return true;
-    // Check for Jack (special in 3+ player games - direction change)
+    // Check for Jack (special when Jacks are active - direction change)
     const hasJack = playOrder.some((c) => c.rank === "J");
-    if (hasJack && gameState.players.length >= 3) return true;
+    if (hasJack && isJackActive(gameState)) return true;
     // Check for Ace (special - suit change)
     const hasAce = playOrder.some((c) => c.rank === "A");
     if (hasAce) return true;
@@ -661,38 +777,37 @@ export const useGameStore = create<GameStore>((set, get) => ({
   canPlaySevenCancelEffect: () => {
     const { gameState } = get();
     if (!gameState) return false;
-    if (!gameState.respondingPlayerIndex) return false;
-    return canPlaySevenCancelEffect(gameState, gameState.respondingPlayerIndex);
+    return legalCards(gameState, "seven_cancel_effect").length > 0;
   },
 
   canPlaySevenCancelLastCard: () => {
     const { gameState } = get();
     if (!gameState) return false;
-    return canPlaySevenCancelLastCard(gameState, gameState.currentPlayerIndex);
+    return legalCards(gameState, "seven_cancel_last_card").length > 0;
   },
 
   getLegalSevenCancelsEffect: () => {
     const { gameState } = get();
-    if (!gameState || gameState.respondingPlayerIndex === null) return [];
-    return getLegalSevenCancelsEffect(gameState, gameState.respondingPlayerIndex);
+    if (!gameState) return [];
+    return legalCards(gameState, "seven_cancel_effect");
   },
 
   getLegalSevenCancelsLastCard: () => {
     const { gameState } = get();
     if (!gameState) return [];
-    return getLegalSevenCancelsLastCard(gameState, gameState.currentPlayerIndex);
+    return legalCards(gameState, "seven_cancel_last_card");
   },
 
   getLegalSevenDisputePlays: () => {
     const { gameState } = get();
-    if (!gameState || !gameState.sevenDispute) return [];
-    return getLegalSevenDisputePlays(gameState, gameState.sevenDispute.responderPlayerId);
+    if (!gameState) return [];
+    return legalCards(gameState, "seven_dispute_play");
   },
 
   canPlaySevenDispute: () => {
     const { gameState } = get();
-    if (!gameState || !gameState.sevenDispute) return false;
-    return canPlaySevenDispute(gameState, gameState.sevenDispute.responderPlayerId);
+    if (!gameState) return false;
+    return legalCards(gameState, "seven_dispute_play").length > 0;
   },
 
   getSevenDisputeStatusMessage: () => {
@@ -713,37 +828,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
     const { gameState } = get();
     if (!gameState) return false;
 
-    let activeIndex: number;
-    if (isInSevenDispute(gameState) && gameState.sevenDispute) {
-      activeIndex = gameState.sevenDispute.responderPlayerId;
-    } else if (isInJackResponse(gameState) && gameState.jackResponse) {
-      activeIndex = gameState.jackResponse.responderPlayerId;
-    } else if (isInAceResponse(gameState) && gameState.aceResponse) {
-      activeIndex = gameState.aceResponse.responderPlayerId;
-    } else if (isInResponsePhase(gameState) && gameState.respondingPlayerIndex !== null) {
-      activeIndex = gameState.respondingPlayerIndex;
-    } else {
-      activeIndex = gameState.currentPlayerIndex;
-    }
-
-    return gameState.players[activeIndex].playerType === "ai";
+    return gameState.players[getActingPlayerIndex(gameState)].playerType === "ai";
   },
 
   getActivePlayerIndex: () => {
     const { gameState } = get();
     if (!gameState) return null;
-
-    if (isInSevenDispute(gameState) && gameState.sevenDispute) {
-      return gameState.sevenDispute.responderPlayerId;
-    } else if (isInJackResponse(gameState) && gameState.jackResponse) {
-      return gameState.jackResponse.responderPlayerId;
-    } else if (isInAceResponse(gameState) && gameState.aceResponse) {
-      return gameState.aceResponse.responderPlayerId;
-    } else if (isInResponsePhase(gameState) && gameState.respondingPlayerIndex !== null) {
-      return gameState.respondingPlayerIndex;
-    } else {
-      return gameState.currentPlayerIndex;
-    }
+    return getActingPlayerIndex(gameState);
   },
 
   getPlayerType: (index: number) => {
@@ -752,6 +843,28 @@ export const useGameStore = create<GameStore>((set, get) => ({
     return gameState.players[index].playerType;
   },
 
+  // Takeback helpers
+  getUndoPolicy: () => {
+    const { gameState, undoPolicy } = get();
+    if (undoPolicy) return undoPolicy;
+    return getDefaultUndoPolicy(gameState?.players.map((p) => p.playerType) ?? []);
+  },
+
+  canUndo: () => {
+    const { gameState, history, getUndoPolicy } = get();
+    return gameState !== null && getUndoPolicy() !== "off" && history.past.length > 0;
+  },
+
+  canRedo: () => {
+    const { gameState, history, getUndoPolicy } = get();
+    return gameState !== null && getUndoPolicy() === "unlimited" && history.future.length > 0;
+  },
+
+  getReplay: () => {
+    const { gameState, replay, replayLength } = get();
+    return gameState && replay && replayUpTo(replay, replayLength);
+  },
+
   // Jack response helpers
   isInJackResponse: () => {
     const { gameState } = get();
@@ -767,14 +880,14 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
   getLegalJackCancels: () => {
     const { gameState } = get();
-    if (!gameState || !gameState.jackResponse) return [];
-    return getLegalJackCancels(gameState, gameState.jackResponse.responderPlayerId);
+    if (!gameState) return [];
+    return legalCards(gameState, "jack_cancel");
   },
 
   canCancelJack: () => {
     const { gameState } = get();
-    if (!gameState || !gameState.jackResponse) return false;
-    return canCancelJack(gameState, gameState.jackResponse.responderPlayerId);
+    if (!gameState) return false;
+    return legalCards(gameState, "jack_cancel").length > 0;
   },
 
   getJackResponder: () => {
@@ -799,14 +912,14 @@ export const useGameStore = create<GameStore>((set, get) => ({
 
   getLegalAceCancels: () => {
     const { gameState } = get();
-    if (!gameState || !gameState.aceResponse) return [];
-    return getLegalAceCancels(gameState, gameState.aceResponse.responderPlayerId);
+    if (!gameState) return [];
+    return legalCards(gameState, "ace_cancel");
   },
 
   canCancelAce: () => {
     const { gameState } = get();
-    if (!gameState || !gameState.aceResponse) return false;
-    return canCancelAce(gameState, gameState.aceResponse.responderPlayerId);
+    if (!gameState) return false;
+    return legalCards(gameState, "ace_cancel").length > 0;
   },
 
   getAceResponder: () => {
@@ -826,30 +939,68 @@ export const useGameStore = create<GameStore>((set, get) => ({
   // Jack response actions
   acceptJackResponse: () => {
     const { gameState } = get();
-    if (!gameState || !isInJackResponse(gameState)) return;
-    const newState = applyJackAccept(gameState);
-    set({ gameState: newState, selectedCards: [], playOrder: [] });
+    if (!gameState) return;
+    const update = runAction(gameState, { action: "jack_accept" });
+    if (update) set({ ...update, selectedCards: [], playOrder: [] });
   },
 
   cancelJackResponse: (card: Card) => {
     const { gameState } = get();
-    if (!gameState || !isInJackResponse(gameState)) return;
-    const newState = applyJackCancel(gameState, card);
-    set({ gameState: newState, selectedCards: [], playOrder: [] });
+    if (!gameState) return;
+    const update = runAction(gameState, { action: "jack_cancel", card });
+    if (update) set({ ...update, selectedCards: [], playOrder: [] });
   },
 
   // Ace response actions
   acceptAceResponse: () => {
     const { gameState } = get();
-    if (!gameState || !isInAceResponse(gameState)) return;
-    const newState = applyAceAccept(gameState);
-    set({ gameState: newState, selectedCards: [], playOrder: [] });
+    if (!gameState) return;
+    const update = runAction(gameState, { action: "ace_accept" });
+    if (update) set({ ...update, selectedCards: [], playOrder: [] });
   },
 
   cancelAceResponse: (card: Card) => {
     const { gameState } = get();
-    if (!gameState || !isInAceResponse(gameState)) return;
-    const newState = applyAceCancel(gameState, card);
-    set({ gameState: newState, selectedCards: [], playOrder: [] });
+    if (!gameState) return;
+    const update = runAction(gameState, { action: "ace_cancel", card });
+    if (update) set({ ...update, selectedCards: [], playOrder: [] });
   },
 }));
+
+// Persist the local game on every change. A finished single game or match is
+// cleared, since there is nothing left to resume.
+useGameStore.subscribe((state, prev) => {
+  const { gameState, match, selectedCards, playOrder, pendingSuitChoice, activateEffect } = state;
+  const { undoPolicy, aiDifficulty, replay, replayLength } = state;
+  if (
+    !gameState ||
+    (gameState === prev.gameState &&
+      match === prev.match &&
+      selectedCards === prev.selectedCards &&
+      playOrder === prev.playOrder &&
+      pendingSuitChoice === prev.pendingSuitChoice &&
+      activateEffect === prev.activateEffect &&
+      undoPolicy === prev.undoPolicy &&
+      aiDifficulty === prev.aiDifficulty &&
+      replay === prev.replay &&
+      replayLength === prev.replayLength)
+  ) {
+    return;
+  }
+
+  if (gameState.winner !== null && (!match || match.matchWinner !== null)) {
+    clearLocalGame();
+  } else {
+    saveLocalGame({
+      gameState,
+      match,
+      selectedCards,
+      playOrder,
+      pendingSuitChoice,
+      activateEffect,
+      undoPolicy,
+      aiDifficulty,
+      replay: replay && replayUpTo(replay, replayLength),
+    });
+  }
+});
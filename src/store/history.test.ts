@@ -0,0 +1,88 @@
+/**
+ * Undo History Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { GameAction, GameState, applyAction, getActingPlayerIndex, initializeGame } from "@/engine";
+import {
+  EMPTY_HISTORY,
+  UndoHistory,
+  UndoPolicy,
+  getDefaultUndoPolicy,
+  needsTakebackConsent,
+  recordAction,
+  redo,
+  undo,
+} from "./history";
+
+// A checkpoint in a game without a replay
+const at = (gameState: GameState) => ({ gameState, replayLength: 0 });
+
+// Apply an action for the acting player, recording it the way the store does
+function act(
+  state: GameState,
+  history: UndoHistory,
+  action: GameAction,
+  policy: UndoPolicy = "unlimited"
+): [GameState, UndoHistory] {
+  const actingIndex = getActingPlayerIndex(state);
+  const result = applyAction(state, actingIndex, action);
+  if (!result.ok) throw new Error(result.error);
+  return [result.state, recordAction(history, policy, at(state), actingIndex, action)];
+}
+
+describe("undo history", () => {
+  it("should default to unlimited against AI and one agreed takeback between humans", () => {
+    expect(getDefaultUndoPolicy(["human", "ai", "ai"])).toBe("unlimited");
+    expect(getDefaultUndoPolicy(["human", "human"])).toBe("single");
+
+    const hotseat = initializeGame(2, 1, ["human", "human"]);
+    expect(needsTakebackConsent("single", hotseat)).toBe(true);
+    expect(needsTakebackConsent("single", initializeGame(2, 1, ["human", "ai"]))).toBe(false);
+    expect(needsTakebackConsent("unlimited", hotseat)).toBe(false);
+  });
+
+  it("should rewind over AI turns to the human's last move", () => {
+    let state = initializeGame(2, 3, ["human", "ai"]);
+    let history = EMPTY_HISTORY;
+    [state, history] = act(state, history, { action: "confirm_handoff" });
+    const beforeDraw = state;
+    [state, history] = act(state, history, { action: "draw" }); // Human draws, turn passes
+    expect(getActingPlayerIndex(state)).toBe(1);
+    [state, history] = act(state, history, { action: "confirm_handoff" });
+    [state, history] = act(state, history, { action: "draw" }); // AI draws
+
+    expect(history.past).toEqual([at(beforeDraw)]);
+    const undone = undo(history, at(state));
+    expect(undone?.gameState).toBe(beforeDraw);
+
+    const redone = redo(undone!.history, at(undone!.gameState));
+    expect(redone?.gameState).toBe(state);
+  });
+
+  it("should not checkpoint handoffs and keep one move under the single policy", () => {
+    let state = initializeGame(2, 3, ["human", "human"]);
+    let history = EMPTY_HISTORY;
+    [state, history] = act(state, history, { action: "confirm_handoff" }, "single");
+    expect(history.past).toEqual([]);
+    [state, history] = act(state, history, { action: "draw" }, "single");
+    const beforeSecondDraw = state;
+    expect(state.turnPhase).toBe("waiting");
+    [state, history] = act(state, history, { action: "confirm_handoff" }, "single");
+    expect(history.past).toHaveLength(1);
+
+    const afterHandoff = state;
+    [state, history] = act(state, history, { action: "draw" }, "single");
+    expect(history.past).toEqual([at(afterHandoff)]);
+    expect(history.past.map((c) => c.gameState)).not.toContain(beforeSecondDraw);
+  });
+
+  it("should record nothing when takebacks are off, and clear redo on any action", () => {
+    const state = initializeGame(2, 3, ["human", "ai"]);
+    const draw: GameAction = { action: "draw" };
+    expect(recordAction(EMPTY_HISTORY, "off", at(state), 0, draw)).toEqual(EMPTY_HISTORY);
+
+    const withFuture = { past: [], future: [at(state)] };
+    expect(recordAction(withFuture, "off", at(state), 0, draw).future).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Undo History for Local Games
+ * The engine is pure, so undo is just a stack of earlier GameStates.
+ * A checkpoint is taken before each human move; AI moves and handoff
+ * confirmations never get their own, so one undo rewinds everything back to
+ * the human's last decision (including any AI turns and handoffs since).
+ */
+
+import { GameAction, GameState, PlayerType } from "@/engine";
+
+/**
+ * How far players may take moves back:
+ * - "unlimited": any number of moves, with redo (solo practice against AI)
+ * - "single": only the last human move, and other humans at the table must agree
+ * - "off": no takebacks
+ */
+export type UndoPolicy = "unlimited" | "single" | "off";
+
+export const UNDO_POLICIES: UndoPolicy[] = ["off", "single", "unlimited"];
+
+/**
+ * A state that can be returned to, with how many replay steps lead up to it
+ */
+export interface Checkpoint {
+  gameState: GameState;
+  replayLength: number;
+}
+
+export interface UndoHistory {
+  past: Checkpoint[]; // Oldest first
+  future: Checkpoint[]; // States undone, most recently undone last
+}
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+/**
+ * Unlimited takebacks when one human plays against AI, a single agreed
+ * takeback in hotseat games between humans
+ */
+export function getDefaultUndoPolicy(playerTypes: PlayerType[]): UndoPolicy {
+  return playerTypes.filter((t) => t === "human").length > 1 ? "single" : "unlimited";
+}
+
+/**
+ * Whether a takeback under this policy needs the other humans' consent
+ */
+export function needsTakebackConsent(policy: UndoPolicy, gameState: GameState): boolean {
+  return (
+    policy === "single" && gameState.players.filter((p) => p.playerType === "human").length > 1
+  );
+}
+
+/**
+ * Record the state an action is about to be applied to. Only human moves are
+ * checkpoints; any action at all discards the redo stack.
+ */
+export function recordAction(
+  history: UndoHistory,
+  policy: UndoPolicy,
+  current: Checkpoint,
+  actingIndex: number,
+  action: GameAction
+): UndoHistory {
+  const isCheckpoint =
+    policy !== "off" &&
+    current.gameState.players[actingIndex].playerType === "human" &&
+    action.action !== "confirm_handoff";
+  if (!isCheckpoint) {
+    return history.future.length > 0 ? { past: history.past, future: [] } : history;
+  }
+
+  const past = policy === "single" ? [current] : [...history.past, current];
+  return { past, future: [] };
+}
+
+/**
+ * Step back to the last checkpoint
+ * @returns The restored state and history, or null if there is nothing to undo
+ */
+export function undo(
+  history: UndoHistory,
+  current: Checkpoint
+): (Checkpoint & { history: UndoHistory }) | null {
+  if (history.past.length === 0) return null;
+  return {
+    ...history.past[history.past.length - 1],
+    history: { past: history.past.slice(0, -1), future: [...history.future, current] },
+  };
+}
+
+/**
+ * Step forward to the state most recently undone
+ * @returns The restored state and history, or null if there is nothing to redo
+ */
+export function redo(
+  history: UndoHistory,
+  current: Checkpoint
+): (Checkpoint & { history: UndoHistory }) | null {
+  if (history.future.length === 0) return null;
+  return {
+    ...history.future[history.future.length - 1],
+    history: { past: [...history.past, current], future: history.future.slice(0, -1) },
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Local Game Persistence Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { createReplay, initializeGame, recordReplayStep, serializeGame } from "@/engine";
+import { LocalGameSnapshot, parseLocalGame, serializeLocalGame } from "./localSave";
+
+function snapshot(overrides: Partial<LocalGameSnapshot> = {}): LocalGameSnapshot {
+  const gameState = initializeGame(3, 11, ["human", "ai", "human"]);
+  const card = gameState.players[0].hand[0];
+  return {
+    gameState,
+    match: null,
+    selectedCards: [card],
+    playOrder: [card],
+    pendingSuitChoice: false,
+    activateEffect: false,
+    undoPolicy: "off",
+    aiDifficulty: "hard",
+    replay: recordReplayStep(createReplay(gameState, undefined, 0), 0, { action: "draw" }, 50),
+    ...overrides,
+  };
+}
+
+describe("parseLocalGame", () => {
+  it("should restore the game, player types and selection", () => {
+    const saved = snapshot();
+    expect(parseLocalGame(serializeLocalGame(saved))).toEqual({ ok: true, snapshot: saved });
+  });
+
+  it("should drop a selection that isn't in the acting player's hand", () => {
+    const saved = snapshot();
+    const notHeld = saved.gameState.players[1].hand[0];
+    const loaded = parseLocalGame(
+      serializeLocalGame({ ...saved, selectedCards: [notHeld], playOrder: [notHeld] })
+    );
+    expect(loaded.ok && loaded.snapshot.selectedCards).toEqual([]);
+    expect(loaded.ok && loaded.snapshot.gameState).toEqual(saved.gameState);
+  });
+
+  it("should drop a damaged replay but keep the game", () => {
+    const stored = JSON.parse(serializeLocalGame(snapshot()));
+    const loaded = parseLocalGame(JSON.stringify({ ...stored, replay: "{oops" }));
+    expect(loaded.ok && loaded.snapshot.replay).toBeNull();
+    expect(loaded.ok && loaded.snapshot.gameState).toEqual(snapshot().gameState);
+  });
+
+  it("should reject corrupt and unsupported saves", () => {
+    expect(parseLocalGame("{oops")).toEqual({ ok: false, error: "Saved game is not valid JSON" });
+    expect(parseLocalGame("{}").ok).toBe(false);
+
+    const { gameState } = snapshot();
+    const tampered = { ...gameState, drawPile: [] };
+    expect(parseLocalGame(JSON.stringify({ save: serializeGame(tampered) })).ok).toBe(false);
+
+    const future = JSON.stringify({ format: "last-card-save", version: 99, game: gameState });
+    const loaded = parseLocalGame(JSON.stringify({ save: future }));
+    expect(loaded.ok === false && loaded.error).toMatch(/newer than supported/);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Local Game Persistence
+ * Keeps the hotseat game in localStorage so a page reload doesn't lose it.
+ * The game and match use the engine's versioned save format; the UI state
+ * (selection, play order, pending suit choice), takeback policy, AI
+ * difficulty and the replay so far are stored alongside it. Undo history is
+ * not kept across reloads.
+ * Player types and the handoff phase are part of the saved GameState.
+ */
+
+import {
+  AI_DIFFICULTIES,
+  AIDifficulty,
+  Card,
+  GameState,
+  MatchState,
+  Replay,
+  countCards,
+  deserializeGame,
+  getActingPlayerIndex,
+  parseReplay,
+  serializeGame,
+  serializeReplay,
+} from "@/engine";
+import { UNDO_POLICIES, UndoPolicy } from "./history";
+
+// localStorage key
+const LOCAL_GAME_KEY = "lastcard_local_game";
+
+export interface LocalGameSnapshot {
+  gameState: GameState;
+  match: MatchState | null;
+  selectedCards: Card[];
+  playOrder: Card[];
+  pendingSuitChoice: boolean;
+  activateEffect: boolean;
+  undoPolicy: UndoPolicy | null; // null = the default for the player types
+  aiDifficulty: AIDifficulty;
+  replay: Replay | null;
+}
+
+export type LoadedLocalGame =
+  | { ok: true; snapshot: LocalGameSnapshot }
+  | { ok: false; error: string };
+
+/**
+ * Check if localStorage is available
+ */
+function isLocalStorageAvailable(): boolean {
+  try {
+    const test = "__storage_test__";
+    localStorage.setItem(test, test);
+    localStorage.removeItem(test);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serialize a snapshot of the local game
+ */
+export function serializeLocalGame(snapshot: LocalGameSnapshot): string {
+  return JSON.stringify({
+    save: serializeGame(snapshot.gameState, snapshot.match),
+    selectedCards: snapshot.selectedCards,
+    playOrder: snapshot.playOrder,
+    pendingSuitChoice: snapshot.pendingSuitChoice,
+    activateEffect: snapshot.activateEffect,
+    undoPolicy: snapshot.undoPolicy,
+    aiDifficulty: snapshot.aiDifficulty,
+    replay: snapshot.replay && serializeReplay(snapshot.replay),
+  });
+}
+
+/**
+ * Check that a saved selection only holds cards the acting player has
+ */
+function isValidSelection(cards: unknown, hand: Card[]): cards is Card[] {
+  if (!Array.isArray(cards)) return false;
+  return cards.every(
+    (card: Card) =>
+      typeof card === "object" &&
+      card !== null &&
+      countCards(cards, card) <= countCards(hand, card) &&
+      countCards(hand, card) > 0
+  );
+}
+
+/**
+ * Parse a stored replay, or null if it is missing or damaged
+ */
+function parseStoredReplay(json: unknown): Replay | null {
+  if (typeof json !== "string") return null;
+  try {
+    return parseReplay(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a stored local game. The game itself is migrated and validated by the
+ * engine; a selection that doesn't fit the acting player's hand, or a damaged
+ * replay, is dropped rather than failing the whole save.
+ */
+export function parseLocalGame(json: string): LoadedLocalGame {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, error: "Saved game is not valid JSON" };
+  }
+  if (typeof data !== "object" || data === null || typeof data.save !== "string") {
+    return { ok: false, error: "Saved game is missing its game state" };
+  }
+
+  let loaded: { game: GameState; match: MatchState | null };
+  try {
+    loaded = deserializeGame(data.save);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const hand = loaded.game.players[getActingPlayerIndex(loaded.game)].hand;
+  const selectionValid =
+    isValidSelection(data.selectedCards, hand) &&
+    isValidSelection(data.playOrder, hand) &&
+    data.selectedCards.length === data.playOrder.length;
+
+  return {
+    ok: true,
+    snapshot: {
+      gameState: loaded.game,
+      match: loaded.match,
+      selectedCards: selectionValid ? (data.selectedCards as Card[]) : [],
+      playOrder: selectionValid ? (data.playOrder as Card[]) : [],
+      pendingSuitChoice: selectionValid && data.pendingSuitChoice === true,
+      activateEffect: data.activateEffect !== false,
+      undoPolicy: UNDO_POLICIES.find((policy) => policy === data.undoPolicy) ?? null,
+      aiDifficulty: AI_DIFFICULTIES.find((level) => level === data.aiDifficulty) ?? "normal",
+      replay: parseStoredReplay(data.replay),
+    },
+  };
+}
+
+/**
+ * Save the local game.
+ * Returns false if localStorage is unavailable or full.
+ */
+export function saveLocalGame(snapshot: LocalGameSnapshot): boolean {
+  if (!isLocalStorageAvailable()) {
+    return false;
+  }
+  try {
+    localStorage.setItem(LOCAL_GAME_KEY, serializeLocalGame(snapshot));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load the saved local game.
+ * Returns null if there is none or localStorage is unavailable.
+ */
+export function loadLocalGame(): LoadedLocalGame | null {
+  if (!isLocalStorageAvailable()) {
+    return null;
+  }
+  const json = localStorage.getItem(LOCAL_GAME_KEY);
+  return json === null ? null : parseLocalGame(json);
+}
+
+/**
+ * Remove the saved local game
+ */
+export function clearLocalGame(): void {
+  if (!isLocalStorageAvailable()) {
+    return;
+  }
+  localStorage.removeItem(LOCAL_GAME_KEY);
+}
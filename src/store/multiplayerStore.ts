@@ -11,7 +11,16 @@
  */
 
 import { create } from "zustand";
-import { Card, Suit, cardEquals, isSpecialCard } from "@/engine";
+import {
+  Card,
+  DEFAULT_RULES,
+  RuleSet,
+  Suit,
+  cardEquals,
+  countCards,
+  isSpecialCard,
+  removeCards,
+} from "@/engine";
 import type { ClientGameState, GameAction } from "@/lib/party/messages";
 
 interface MultiplayerStore {
@@ -22,7 +31,7 @@ interface MultiplayerStore {
   activateEffect: boolean; // Toggle for 2/5/10/Jack/Ace effect activation
 
   // Actions
-  selectCard: (card: Card) => void;
+  selectCard: (card: Card, copiesInHand?: number) => void; // copiesInHand > 1 for multi-deck duplicates
   deselectCard: (card: Card) => void;
   clearSelection: () => void;
   reorderPlayCard: (fromIndex: number, toIndex: number) => void;
@@ -46,7 +55,7 @@ interface MultiplayerStore {
   buildAceCancelAction: (card: Card) => GameAction;
 
   // Helpers for checking game state
-  hasSpecialCardSelected: (playerCount: number) => boolean;
+  hasSpecialCardSelected: (playerCount: number, rules?: RuleSet) => boolean;
   needsSuitChoice: () => boolean;
 }
 
@@ -56,10 +65,10 @@ export const useMultiplayerStore = create<MultiplayerStore>((set, get) => ({
   pendingSuitChoice: false,
   activateEffect: true,
 
-  selectCard: (card: Card) => {
+  selectCard: (card: Card, copiesInHand = 1) => {
     const { selectedCards, playOrder } = get();
-    // Don't allow selecting if already selected
-    if (selectedCards.some((c) => cardEquals(c, card))) return;
+    // Don't allow selecting more copies than the hand holds
+    if (countCards(selectedCards, card) >= copiesInHand) return;
 
     set({
       selectedCards: [...selectedCards, card],
@@ -69,9 +78,10 @@ export const useMultiplayerStore = create<MultiplayerStore>((set, get) => ({
 
   deselectCard: (card: Card) => {
     const { selectedCards, playOrder } = get();
+    // Remove a single copy (duplicates from a second deck stay selected)
     set({
-      selectedCards: selectedCards.filter((c) => !cardEquals(c, card)),
-      playOrder: playOrder.filter((c) => !cardEquals(c, card)),
+      selectedCards: removeCards(selectedCards, [card]),
+      playOrder: removeCards(playOrder, [card]),
     });
   },
 
@@ -172,12 +182,12 @@ export const useMultiplayerStore = create<MultiplayerStore>((set, get) => ({
   }),
 
   // Helpers
-  hasSpecialCardSelected: (playerCount: number) => {
+  hasSpecialCardSelected: (playerCount: number, rules: RuleSet = DEFAULT_RULES) => {
     const { playOrder } = get();
     // Check for 2, 5, 10 (always special)
     if (playOrder.some(isSpecialCard)) return true;
-    // Check for Jack (special in 3+ player games)
-    if (playerCount >= 3 && playOrder.some((c) => c.rank === "J")) return true;
+    // Check for Jack (special when the table is large enough for Jacks)
+    if (playerCount >= rules.jackMinPlayers && playOrder.some((c) => c.rank === "J")) return true;
     // Check for Ace (special - suit change)
     if (playOrder.some((c) => c.rank === "A")) return true;
     return false;
@@ -261,87 +271,63 @@ export function getWinner(gameState: ClientGameState) {
 }
 
 /**
- * Check if a card can legally be played (basic check - suit/rank match)
+ * Get the cards the server lists for one kind of card action (the viewing
+ * player's own legal actions, so empty when it isn't their move)
  */
-export function canCardBePlayed(card: Card, gameState: ClientGameState): boolean {
-  const targetSuit = gameState.effectiveSuit;
-  const targetRank = gameState.topCard.rank;
-
-  // Aces cannot match other Aces by rank
-  if (card.rank === "A" && targetRank === "A") {
-    return card.suit === targetSuit;
-  }
+function getLegalCards(
+  gameState: ClientGameState,
+  type: Extract<GameAction, { card: Card }>["action"]
+): Card[] {
+  return gameState.legalActions.flatMap((a) => (a.action === type && "card" in a ? [a.card] : []));
+}
 
-  return card.suit === targetSuit || card.rank === targetRank;
+/**
+ * Check if a card can legally be played on its own right now
+ */
+export function canCardBePlayed(card: Card, gameState: ClientGameState): boolean {
+  return gameState.legalActions.some(
+    (a) => a.action === "play_cards" && cardEquals(a.cards[0], card)
+  );
 }
 
 /**
- * Get legal deflection cards from a player's hand during response phase
+ * Get legal deflection cards from the player's hand during response phase
  */
-export function getLegalDeflections(hand: Card[], gameState: ClientGameState): Card[] {
-  if (gameState.responsePhase !== "responding" || !gameState.responseChainRank) {
-    return [];
-  }
-  return hand.filter((c) => c.rank === gameState.responseChainRank);
+export function getLegalDeflections(gameState: ClientGameState): Card[] {
+  return getLegalCards(gameState, "deflect_response");
 }
 
 /**
  * Get legal 7s for canceling effects during response phase
  */
-export function getLegalSevenCancels(hand: Card[], gameState: ClientGameState): Card[] {
-  if (gameState.responsePhase !== "responding") {
-    return [];
-  }
-  // Need a 7 of the same suit as the top card
-  return hand.filter((c) => c.rank === "7" && c.suit === gameState.topCard.suit);
+export function getLegalSevenCancels(gameState: ClientGameState): Card[] {
+  return getLegalCards(gameState, "seven_cancel_effect");
 }
 
 /**
  * Get legal 7s for challenging a last card declaration
  */
-export function getLegalSevenChallenges(hand: Card[], gameState: ClientGameState): Card[] {
-  if (!gameState.lastCardClaim) {
-    return [];
-  }
-  // Need a 7 of the same suit as the top card
-  return hand.filter((c) => c.rank === "7" && c.suit === gameState.topCard.suit);
+export function getLegalSevenChallenges(gameState: ClientGameState): Card[] {
+  return getLegalCards(gameState, "seven_cancel_last_card");
 }
 
 /**
  * Get legal cards for responding to a seven dispute
  */
-export function getLegalSevenDisputePlays(hand: Card[], gameState: ClientGameState): Card[] {
-  if (!gameState.sevenDispute) {
-    return [];
-  }
-  // Need a 7 of the top card's suit (the suit of the card that triggered the dispute)
-  return hand.filter((c) => c.rank === "7" && c.suit === gameState.topCard.suit);
+export function getLegalSevenDisputePlays(gameState: ClientGameState): Card[] {
+  return getLegalCards(gameState, "seven_dispute_play");
 }
 
 /**
  * Get legal cards for canceling a Jack response
  */
-export function getLegalJackCancels(hand: Card[], gameState: ClientGameState): Card[] {
-  if (!gameState.jackResponse) {
-    return [];
-  }
-  // Can cancel with 7 of Jack's suit or any Jack
-  return hand.filter(
-    (c) =>
-      (c.rank === "7" && c.suit === gameState.jackResponse?.jackSuit) ||
-      c.rank === "J"
-  );
+export function getLegalJackCancels(gameState: ClientGameState): Card[] {
+  return getLegalCards(gameState, "jack_cancel");
 }
 
 /**
  * Get legal cards for canceling an Ace response
  */
-export function getLegalAceCancels(hand: Card[], gameState: ClientGameState): Card[] {
-  if (!gameState.aceResponse) {
-    return [];
-  }
-  // Can only cancel with 7 of Ace's suit
-  return hand.filter(
-    (c) => c.rank === "7" && c.suit === gameState.aceResponse?.aceSuit
-  );
+export function getLegalAceCancels(gameState: ClientGameState): Card[] {
+  return getLegalCards(gameState, "ace_cancel");
 }